@@ -0,0 +1,507 @@
+#!/usr/bin/env node
+// In-memory stand-in for the backend, for trying the auth flows end to end without a real server.
+// Emails are not sent: each one is printed to the console and kept at GET /api/dev/outbox.
+//
+//   npm run mock-api            # listens on http://localhost:5000/api, the app's default API_BASE_URL
+//   PORT=5050 APP_URL=http://localhost:3001 npm run mock-api
+//
+// Seeded accounts (all verified): admin@example.com / Admin123!, editor@example.com / Editor123!,
+// traveller@example.com / Traveller123!. Data is lost when the process stops.
+// Admin roles are asked to set up two-factor authentication on first login; once an account has it,
+// the current authenticator code is printed at each login so you can sign in without a phone.
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT) || 5000;
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const HOUR = 60 * 60 * 1000;
+const CONTENT_TYPES = ['experiences', 'itineraries', 'images', 'updates'];
+// Mirrors requiresMfa in src/services/permissions.ts
+const MFA_ROLES = ['admin', 'editor', 'photographer', 'regional_manager'];
+
+const newId = () => crypto.randomBytes(8).toString('hex');
+const newToken = () => crypto.randomBytes(24).toString('hex');
+
+const users = [];
+const content = { experiences: [], itineraries: [], images: [], updates: [] };
+const sessions = new Map(); // access token -> email
+const refreshTokens = new Map(); // refresh token -> email
+const verificationTokens = new Map(); // token -> { email, expiresAt }
+const resetTokens = new Map(); // token -> { email, expiresAt }
+const mfaTokens = new Map(); // token -> { email, expiresAt }, issued when the password was right but a code is still needed
+const outbox = [];
+
+const addUser = ({ email, name, role, password, region, status = 'active', verified = true }) => {
+  const user = {
+    id: newId(),
+    email,
+    name,
+    role,
+    region,
+    password,
+    status,
+    verified,
+    lastLoginAt: null,
+    mfaSecret: null,
+    pendingMfaSecret: null,
+    recoveryCodes: [],
+    createdAt: Date.now()
+  };
+  users.push(user);
+  return user;
+};
+
+addUser({ email: 'admin@example.com', name: 'Admin', role: 'admin', password: 'Admin123!' });
+addUser({ email: 'editor@example.com', name: 'Editor', role: 'editor', password: 'Editor123!' });
+addUser({ email: 'traveller@example.com', name: 'Traveller', role: 'user', password: 'Traveller123!' });
+
+const findUser = email => users.find(user => user.email.toLowerCase() === String(email || '').toLowerCase());
+
+// What the client sees of an account; never the password
+const publicUser = ({ email, name, role, region, mfaSecret }) => ({ email, name, role, region, mfaEnabled: Boolean(mfaSecret) });
+const accountView = ({ password, verified, mfaSecret, pendingMfaSecret, recoveryCodes, ...account }) =>
+  ({ ...account, mfaEnabled: Boolean(mfaSecret) });
+
+const sendEmail = (to, subject, link) => {
+  outbox.push({ to, subject, link, sentAt: Date.now() });
+  console.log(`\n  ✉  ${subject}\n     to:   ${to}\n     link: ${link}\n`);
+};
+
+const issueLink = (store, path, email, ttl) => {
+  const token = newToken();
+  store.set(token, { email, expiresAt: Date.now() + ttl });
+  return `${APP_URL}/${path}?token=${token}&email=${encodeURIComponent(email)}`;
+};
+
+const sendVerification = user =>
+  sendEmail(user.email, 'Verify your email', issueLink(verificationTokens, 'verify-email', user.email, 24 * HOUR));
+
+const sendPasswordLink = (user, subject) =>
+  sendEmail(user.email, subject, issueLink(resetTokens, 'reset-password', user.email, HOUR));
+
+// Returns the email a single-use token was issued for, or null when it is unknown or expired
+const redeem = (store, token) => {
+  const entry = store.get(token);
+  store.delete(token);
+  return entry && entry.expiresAt > Date.now() ? entry.email : null;
+};
+
+const passwordProblem = password =>
+  typeof password !== 'string' || password.length < 8 ? 'Password must be at least 8 characters' : null;
+
+const startSession = user => {
+  const token = newToken();
+  const refreshToken = newToken();
+  sessions.set(token, user.email);
+  refreshTokens.set(refreshToken, user.email);
+  user.lastLoginAt = Date.now();
+  return { token, refreshToken };
+};
+
+// TOTP (RFC 6238) as authenticator apps implement it: SHA-1, 6 digits, 30 second steps, base32 secrets
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = buffer => {
+  let bits = '';
+  buffer.forEach(byte => {
+    bits += byte.toString(2).padStart(8, '0');
+  });
+  return (bits.match(/.{1,5}/g) || []).map(chunk => BASE32[parseInt(chunk.padEnd(5, '0'), 2)]).join('');
+};
+
+const base32Decode = secret => {
+  const bits = secret
+    .replace(/[\s=]/g, '')
+    .toUpperCase()
+    .split('')
+    .map(char => BASE32.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+  return Buffer.from((bits.match(/.{8}/g) || []).map(byte => parseInt(byte, 2)));
+};
+
+const totp = (secret, step = Math.floor(Date.now() / 30000)) => {
+  const counter = Buffer.alloc(8);
+  // The step as a 64-bit big-endian counter, written as two 32-bit halves
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step % 0x100000000, 4);
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).padStart(6, '0');
+};
+
+// Allows one step either side for clock drift between the phone and the server
+const totpMatches = (secret, code) => {
+  const now = Math.floor(Date.now() / 30000);
+  return [now - 1, now, now + 1].some(step => totp(secret, step) === String(code || '').trim());
+};
+
+const newRecoveryCode = () => crypto.randomBytes(5).toString('hex').replace(/^(.{5})/, '$1-');
+
+// An authenticator code, or a recovery code which is then used up
+const acceptsSecondFactor = (user, code) => {
+  if (totpMatches(user.mfaSecret, code)) return true;
+  const index = user.recoveryCodes.indexOf(String(code || '').trim().toLowerCase());
+  if (index === -1) return false;
+  user.recoveryCodes.splice(index, 1);
+  return true;
+};
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const currentUser = req => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  const user = match && findUser(sessions.get(match[1]));
+  if (!user || user.status !== 'active') throw new HttpError(401, 'Not authenticated');
+  return user;
+};
+
+// Staff (mirrors hasAdminAccess in src/services/permissions.ts) see every status; everyone else, signed in
+// or not, only sees content that is published and inside its publishing window
+const isStaff = req => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  const user = match && findUser(sessions.get(match[1]));
+  return Boolean(user && user.status === 'active' && MFA_ROLES.includes(user.role));
+};
+
+const isLive = (record, now = Date.now()) =>
+  (!record.status || record.status === 'published') &&
+  (!record.publishAt || record.publishAt <= now) &&
+  (!record.expiresAt || record.expiresAt > now);
+
+const visibleTo = (req, records) => (isStaff(req) ? records : records.filter(record => isLive(record)));
+
+// The content each role may write, mirroring ROLES in src/services/permissions.ts. Regional managers only
+// write inside their own region: the record's current region and any region it is moved to both count.
+const MANAGED_CONTENT = {
+  admin: CONTENT_TYPES,
+  editor: ['experiences', 'itineraries', 'images'],
+  photographer: ['images'],
+  regional_manager: ['experiences', 'itineraries', 'images']
+};
+
+const requireManage = (req, type, regions) => {
+  const user = currentUser(req);
+  if (!(MANAGED_CONTENT[user.role] || []).includes(type)) {
+    throw new HttpError(403, `You do not have permission to manage ${type}`);
+  }
+  if (user.role !== 'regional_manager') return user;
+  if (!user.region) throw new HttpError(403, `You do not have permission to manage ${type}`);
+  const outside = regions.find(region => region && region !== user.region);
+  if (outside) throw new HttpError(403, `You can only manage ${type} in your own region, not ${outside}`);
+  return user;
+};
+
+const findRecord = params => {
+  const record = content[params.type].find(item => item.id === params.id);
+  if (!record) throw new HttpError(404, 'Not found');
+  return record;
+};
+
+// PUT and PATCH both merge into the stored record, so a partial body leaves the other fields alone
+const saveRecord = ({ req, body, params }) => {
+  currentUser(req);
+  const record = findRecord(params);
+  requireManage(req, params.type, [record.region, body.region]);
+  Object.assign(record, body, { id: record.id, createdAt: record.createdAt });
+  return { data: record };
+};
+
+const requireAdmin = req => {
+  const user = currentUser(req);
+  if (user.role !== 'admin') throw new HttpError(403, 'Admins only');
+  return user;
+};
+
+const readBody = req =>
+  new Promise((resolve, reject) => {
+    if ((req.headers['content-type'] || '').startsWith('multipart/form-data')) {
+      req.resume();
+      reject(new HttpError(415, 'The mock API does not accept file uploads; use an image URL instead'));
+      return;
+    }
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const listPage = (records, query) => {
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const limit = Math.max(1, Number(query.get('limit')) || 12);
+  const region = query.get('region');
+  const status = query.get('status');
+  const search = (query.get('search') || '').toLowerCase();
+  const matching = records.filter(record =>
+    (!region || record.region === region) &&
+    (!status || record.status === status) &&
+    (!search || JSON.stringify(record).toLowerCase().includes(search))
+  );
+  return {
+    data: matching.slice((page - 1) * limit, page * limit),
+    pagination: { total: matching.length, page, limit }
+  };
+};
+
+// Each handler gets { req, body, query, params } and returns [status, payload] or a payload for 200
+const routes = [
+  ['POST', '/auth/login', ({ body }) => {
+    const user = findUser(body.email);
+    if (!user || user.password !== body.password) throw new HttpError(401, 'Invalid email or password');
+    if (user.status === 'deactivated') throw new HttpError(403, 'This account has been deactivated');
+    if (!user.verified) throw new HttpError(403, 'Please verify your email before logging in');
+    if (user.mfaSecret) {
+      const mfaToken = newToken();
+      mfaTokens.set(mfaToken, { email: user.email, expiresAt: Date.now() + 5 * 60 * 1000 });
+      console.log(`\n  🔐  Authenticator code for ${user.email}: ${totp(user.mfaSecret)}\n`);
+      return { message: 'Enter your authentication code', mfaRequired: true, mfaToken };
+    }
+    return { message: 'Login successful', user: publicUser(user), ...startSession(user) };
+  }],
+
+  // A wrong code keeps the token so the user can try again until it expires
+  ['POST', '/auth/mfa/verify', ({ body }) => {
+    const entry = mfaTokens.get(body.mfaToken);
+    const user = entry && entry.expiresAt > Date.now() && findUser(entry.email);
+    if (!user) throw new HttpError(401, 'Your login has expired. Please enter your password again.');
+    if (!acceptsSecondFactor(user, body.code)) throw new HttpError(401, 'That code did not work');
+    mfaTokens.delete(body.mfaToken);
+    return { message: 'Login successful', user: publicUser(user), ...startSession(user) };
+  }],
+
+  ['POST', '/auth/mfa/setup', ({ req }) => {
+    const user = currentUser(req);
+    if (user.mfaSecret) throw new HttpError(409, 'Two-factor authentication is already on');
+    user.pendingMfaSecret = base32Encode(crypto.randomBytes(20));
+    const label = encodeURIComponent(`Immerse India:${user.email}`);
+    return {
+      secret: user.pendingMfaSecret,
+      otpauthUrl: `otpauth://totp/${label}?secret=${user.pendingMfaSecret}&issuer=Immerse%20India`
+    };
+  }],
+
+  ['POST', '/auth/mfa/enable', ({ req, body }) => {
+    const user = currentUser(req);
+    if (!user.pendingMfaSecret) throw new HttpError(400, 'Start the setup again');
+    if (!totpMatches(user.pendingMfaSecret, body.code)) throw new HttpError(400, 'That code did not match. Try the newest code in your app.');
+    user.mfaSecret = user.pendingMfaSecret;
+    user.pendingMfaSecret = null;
+    user.recoveryCodes = Array.from({ length: 10 }, newRecoveryCode);
+    return { recoveryCodes: user.recoveryCodes };
+  }],
+
+  ['POST', '/auth/mfa/disable', ({ req, body }) => {
+    const user = currentUser(req);
+    if (MFA_ROLES.includes(user.role)) throw new HttpError(403, 'Two-factor authentication is required for your role');
+    if (!user.mfaSecret || !totpMatches(user.mfaSecret, body.code)) throw new HttpError(400, 'That code did not work');
+    user.mfaSecret = null;
+    user.recoveryCodes = [];
+    return { message: 'Two-factor authentication turned off' };
+  }],
+
+  ['POST', '/auth/register', ({ body }) => {
+    const name = String(body.name || '').trim();
+    const email = String(body.email || '').trim();
+    if (!name || !/^[^@\s]+@[^@\s]+$/.test(email)) throw new HttpError(400, 'A name and a valid email are required');
+    const problem = passwordProblem(body.password);
+    if (problem) throw new HttpError(400, problem);
+    if (findUser(email)) throw new HttpError(409, 'An account with this email already exists');
+    const user = addUser({ email, name, role: 'user', password: body.password, verified: false });
+    sendVerification(user);
+    return [201, { message: 'Registered. Check your email to verify your account.' }];
+  }],
+
+  ['POST', '/auth/verify-email', ({ body }) => {
+    const user = findUser(redeem(verificationTokens, body.token));
+    if (!user) throw new HttpError(400, 'This verification link is invalid or has expired');
+    user.verified = true;
+    return { message: 'Email verified' };
+  }],
+
+  ['POST', '/auth/resend-verification', ({ body }) => {
+    const user = findUser(body.email);
+    if (user && !user.verified) sendVerification(user);
+    return { message: 'If the account needs verifying, a new link has been sent' };
+  }],
+
+  ['POST', '/auth/forgot-password', ({ body }) => {
+    const user = findUser(body.email);
+    if (user && user.status !== 'deactivated') sendPasswordLink(user, 'Reset your password');
+    return { message: 'If an account exists, a reset link has been sent' };
+  }],
+
+  ['POST', '/auth/reset-password', ({ body }) => {
+    const problem = passwordProblem(body.password);
+    if (problem) throw new HttpError(400, problem);
+    const user = findUser(redeem(resetTokens, body.token));
+    if (!user) throw new HttpError(400, 'This reset link is invalid or has expired');
+    user.password = body.password;
+    // Following an emailed link proves the address, and finishes an invitation
+    user.verified = true;
+    if (user.status === 'invited') user.status = 'active';
+    return { message: 'Password updated' };
+  }],
+
+  ['GET', '/auth/profile', ({ req }) => ({ user: publicUser(currentUser(req)) })],
+
+  ['POST', '/auth/refresh', ({ body }) => {
+    const user = findUser(refreshTokens.get(body.refreshToken));
+    if (!user || user.status !== 'active') throw new HttpError(401, 'Refresh token rejected');
+    refreshTokens.delete(body.refreshToken);
+    return startSession(user);
+  }],
+
+  ['GET', '/auth/users', ({ req, query }) => {
+    requireAdmin(req);
+    return listPage(users.map(accountView), query);
+  }],
+
+  ['POST', '/auth/users/invite', ({ req, body }) => {
+    requireAdmin(req);
+    if (findUser(body.email)) throw new HttpError(409, 'An account with this email already exists');
+    const user = addUser({
+      email: String(body.email || '').trim(),
+      name: String(body.name || '').trim(),
+      role: body.role || 'user',
+      region: body.region,
+      password: newToken(),
+      status: 'invited',
+      verified: false
+    });
+    sendPasswordLink(user, 'You have been invited to Immerse India');
+    return [201, { data: accountView(user) }];
+  }],
+
+  ['PATCH', '/auth/users/:id', ({ req, body, params }) => {
+    requireAdmin(req);
+    const user = users.find(item => item.id === params.id);
+    if (!user) throw new HttpError(404, 'User not found');
+    ['name', 'role', 'region'].forEach(field => {
+      if (body[field] !== undefined) user[field] = body[field];
+    });
+    return { data: accountView(user) };
+  }],
+
+  ['POST', '/auth/users/:id/:action', ({ req, params }) => {
+    const admin = requireAdmin(req);
+    const user = users.find(item => item.id === params.id);
+    if (!user) throw new HttpError(404, 'User not found');
+    if (params.action === 'deactivate') {
+      if (user === admin) throw new HttpError(400, 'You cannot deactivate yourself');
+      user.status = 'deactivated';
+    } else if (params.action === 'reactivate') {
+      user.status = user.lastLoginAt ? 'active' : 'invited';
+    } else {
+      throw new HttpError(404, 'Not found');
+    }
+    return { data: accountView(user) };
+  }],
+
+  ['GET', '/dev/outbox', () => ({ data: outbox })],
+
+  ['GET', '/search', ({ req, query }) => {
+    const term = (query.get('q') || '').toLowerCase();
+    const result = {};
+    CONTENT_TYPES.forEach(type => {
+      result[type] = visibleTo(req, content[type]).filter(record => JSON.stringify(record).toLowerCase().includes(term));
+    });
+    return result;
+  }],
+
+  ['GET', '/:type', ({ req, params, query }) => listPage(visibleTo(req, content[params.type]), query)],
+
+  // Unpublished records are answered as missing, so their ids cannot be probed
+  ['GET', '/:type/:id', ({ req, params }) => {
+    const record = visibleTo(req, content[params.type]).find(item => item.id === params.id);
+    if (!record) throw new HttpError(404, 'Not found');
+    return { data: record };
+  }],
+
+  ['POST', '/:type', ({ req, body, params }) => {
+    requireManage(req, params.type, [body.region]);
+    const record = { ...body, id: newId(), createdAt: Date.now() };
+    content[params.type].unshift(record);
+    return [201, { data: record }];
+  }],
+
+  ['PUT', '/:type/:id', saveRecord],
+  ['PATCH', '/:type/:id', saveRecord],
+
+  ['DELETE', '/:type/:id', ({ req, params }) => {
+    currentUser(req);
+    const record = findRecord(params);
+    requireManage(req, params.type, [record.region]);
+    content[params.type].splice(content[params.type].indexOf(record), 1);
+    return { message: 'Deleted' };
+  }]
+];
+
+// ':type' only matches the content collections, so unknown paths fall through to 404
+const matchRoute = (method, path) => {
+  const parts = path.split('/').filter(Boolean);
+  for (const [routeMethod, pattern, handler] of routes) {
+    if (routeMethod !== method) continue;
+    const patternParts = pattern.split('/').filter(Boolean);
+    if (patternParts.length !== parts.length) continue;
+
+    const params = {};
+    const matches = patternParts.every((part, index) => {
+      if (!part.startsWith(':')) return part === parts[index];
+      params[part.slice(1)] = decodeURIComponent(parts[index]);
+      return part !== ':type' || CONTENT_TYPES.includes(parts[index]);
+    });
+    if (matches) return { handler, params };
+  }
+  return null;
+};
+
+const send = (res, status, payload) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Accept');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const route = url.pathname.startsWith('/api/') && matchRoute(req.method, url.pathname.slice(4));
+  if (!route) {
+    send(res, 404, { error: `No mock route for ${req.method} ${url.pathname}` });
+    return;
+  }
+
+  try {
+    const body = ['POST', 'PUT', 'PATCH'].includes(req.method) ? await readBody(req) : {};
+    const result = await route.handler({ req, body, query: url.searchParams, params: route.params });
+    const [status, payload] = Array.isArray(result) ? result : [200, result];
+    send(res, status, payload);
+  } catch (error) {
+    send(res, error.status || 500, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock API listening on http://localhost:${PORT}/api (emailed links point at ${APP_URL})`);
+});
@@ -1,18 +1,53 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { LoginPage } from './components/LoginPage';
+import { RegisterPage } from './components/RegisterPage';
+import { ForgotPasswordPage } from './components/ForgotPasswordPage';
+import { ResetPasswordPage } from './components/ResetPasswordPage';
+import { VerifyEmailPage } from './components/VerifyEmailPage';
+import { AuthCard } from './components/AuthCard';
+import { MfaEnrollment } from './components/MfaEnrollment';
 import { AdminDashboard } from './components/AdminDashboard';
 import { UserDashboard } from './components/UserDashboard';
-import { authAPI, experiencesAPI, itinerariesAPI, imagesAPI, updatesAPI, setAuthToken } from './services/api';
+import { experiencesAPI, itinerariesAPI, imagesAPI, updatesAPI, emptyPage } from './services/api';
+import { AuthProvider, useAuth } from './hooks/useAuth';
+import { useAuthRoute } from './hooks/useRoute';
 import { toast } from 'sonner';
 import { Toaster } from 'sonner';
 import { ErrorBoundary } from './components/ui/error-boundary';
+import { hasAdminAccess, requiresMfa } from './services/permissions';
 
 export type Region = 'North' | 'South' | 'East' | 'West';
 
+// Editorial workflow shared by every content type; users only ever see `published` records.
+// Records saved before the workflow existed have no status and count as published.
+export type ContentStatus = 'draft' | 'in_review' | 'published' | 'archived';
+
+// Optional publishing window (epoch ms) for published records; null clears a previously set bound
+export type Schedule = {
+  publishAt?: number | null;
+  expiresAt?: number | null;
+};
+
+// What each role may do is defined in services/permissions.ts; `user` is a traveller with no admin access
+export type Role = 'admin' | 'editor' | 'photographer' | 'regional_manager' | 'user';
+
 export type User = {
   email: string;
-  role: 'admin' | 'user';
+  role: Role;
   name: string;
+  region?: Region; // the region a regional manager is limited to
+  mfaEnabled?: boolean; // signs in with an authenticator code as well as the password
+};
+
+// Invited accounts have not set a password yet; deactivated ones can no longer log in
+export type AccountStatus = 'invited' | 'active' | 'deactivated';
+
+// An account as listed in the admin user management screen
+export type UserAccount = User & {
+  id: string;
+  status: AccountStatus;
+  lastLoginAt: number | null;
+  createdAt: number;
 };
 
 export type Experience = {
@@ -23,18 +58,75 @@ export type Experience = {
   description: string;
   highlights: string[];
   imageUrl?: string;
+  status: ContentStatus;
+  publishAt?: number | null;
+  expiresAt?: number | null;
   createdAt: number;
 };
 
+export type ActivityCategory = 'sightseeing' | 'culture' | 'adventure' | 'food' | 'leisure' | 'shopping' | 'transfer';
+
+// A planned activity within a day; everything but the title is optional. Costs are per person in INR.
+export type ItineraryActivity = {
+  title: string;
+  startTime?: string; // 24h "HH:mm"
+  durationMinutes?: number;
+  place?: string;
+  cost?: number;
+  category?: ActivityCategory;
+  notes?: string;
+};
+
+export type TransportMode = 'flight' | 'train' | 'road' | 'boat';
+
+// Getting from one place to the next, e.g. the morning train from Delhi to Agra
+export type TransportLeg = {
+  mode: TransportMode;
+  from: string;
+  to: string;
+  departureTime?: string; // 24h "HH:mm"
+  durationMinutes?: number;
+  cost?: number;
+  notes?: string;
+};
+
+// Where travellers sleep at the end of the day
+export type Accommodation = {
+  name: string;
+  location?: string;
+  nightlyCost?: number;
+};
+
+export type MealInclusions = {
+  breakfast: boolean;
+  lunch: boolean;
+  dinner: boolean;
+};
+
+// `activities` keeps one readable line per activity for older clients; `schedule` holds the structured version.
+// Records from older backends only have `activities`; migrateItinerary fills in the rest when they are loaded.
+export type ItineraryDay = {
+  day: number;
+  activities: string[];
+  schedule: ItineraryActivity[];
+  accommodation?: Accommodation;
+  transport: TransportLeg[];
+  meals: MealInclusions;
+};
+
 export type Itinerary = {
   id: string;
   destination: string;
   region: Region;
   title: string;
-  duration: string;
+  duration: string; // display text, e.g. "7 Days / 6 Nights"
+  durationDays: number; // read from `duration`, or the number of days when it does not say
   description?: string;
-  days: { day: number; activities: string[] }[];
+  days: ItineraryDay[];
   imageUrl?: string;
+  status: ContentStatus;
+  publishAt?: number | null;
+  expiresAt?: number | null;
   createdAt: number;
 };
 
@@ -44,6 +136,9 @@ export type DestinationImage = {
   region: Region;
   url: string;
   caption: string;
+  status: ContentStatus;
+  publishAt?: number | null;
+  expiresAt?: number | null;
   createdAt: number;
 };
 
@@ -55,6 +150,9 @@ export type Update = {
   title: string;
   content: string;
   externalUrl?: string; // New field for external blog/post URL
+  status: ContentStatus;
+  publishAt?: number | null;
+  expiresAt?: number | null;
   createdAt: number;
 };
 
@@ -65,70 +163,58 @@ export type AppData = {
   updates: Update[]; // Add updates to AppData
 };
 
+// The grids page through the API themselves; app-wide we only keep a first-page snapshot of each collection
+const SNAPSHOT_LIMIT = 100;
+
+const emptyData: AppData = {
+  experiences: [],
+  itineraries: [],
+  images: [],
+  updates: []
+};
+
 // Production-ready App component with comprehensive error handling
 // All data is fetched from backend API - no mock data needed
-function App() {
-  const [user, setUser] = useState<User | null>(null);
-  const [data, setData] = useState({
-    experiences: [],
-    itineraries: [],
-    images: [],
-    updates: []
-  });
+function AppContent() {
+  const { user, status, expiredSessionEmail, login, logout, updateUser } = useAuth();
+  const authRoute = useAuthRoute();
+  const [data, setData] = useState<AppData>(emptyData);
   const [isLoading, setIsLoading] = useState(true);
   const [connectionError, setConnectionError] = useState(false);
+  // Travellers only ever download published content; staff need every status for the editorial workflow
+  const isStaff = hasAdminAccess(user);
   
-  useEffect(() => {
-    // Check if user is logged in
-    const token = localStorage.getItem('token');
-    const storedUser = localStorage.getItem('user');
-    
-    if (token && storedUser) {
-      try {
-        setAuthToken(token);
-        setUser(JSON.parse(storedUser));
-        fetchAllData();
-      } catch (error) {
-        console.error('Error parsing stored user data:', error);
-        handleLogout(); // Clear invalid data
-      }
-    } else {
-      setIsLoading(false);
-    }
-  }, []);
-  
-  const fetchAllData = async () => {
+  const fetchAllData = useCallback(async () => {
+    const params = { limit: SNAPSHOT_LIMIT, status: isStaff ? undefined : 'published' as const };
     setIsLoading(true);
     setConnectionError(false);
     
     try {
       // Fetch all data with error handling and retries
-      const promises = [
-        experiencesAPI.getAll().catch(err => {
+      const [experiencesRes, itinerariesRes, imagesRes, updatesRes] = await Promise.all([
+        experiencesAPI.getAll(params).catch(err => {
           console.error('Failed to fetch experiences:', err);
-          return { data: [] };
+          return emptyPage<Experience>();
         }),
-        itinerariesAPI.getAll().catch(err => {
+        itinerariesAPI.getAll(params).catch(err => {
           console.error('Failed to fetch itineraries:', err);
-          return { data: [] };
+          return emptyPage<Itinerary>();
         }),
-        imagesAPI.getAll().catch(err => {
+        imagesAPI.getAll(params).catch(err => {
           console.error('Failed to fetch images:', err);
-          return { data: [] };
+          return emptyPage<DestinationImage>();
         }),
-        updatesAPI.getAll().catch(err => {
+        updatesAPI.getAll(params).catch(err => {
           console.error('Failed to fetch updates:', err);
-          return { data: [] };
+          return emptyPage<Update>();
         })
-      ];
-      
-      const [experiencesRes, itinerariesRes, imagesRes, updatesRes] = await Promise.all(promises);
+      ]);
       
       setData({
-        experiences: experiencesRes.data || [],
-        itineraries: itinerariesRes.data || [],
-        images: imagesRes.data || [],
-        updates: updatesRes.data || []
+        experiences: experiencesRes.data,
+        itineraries: itinerariesRes.data,
+        images: imagesRes.data,
+        updates: updatesRes.data
       });
       
     } catch (error) {
@@ -137,45 +223,33 @@ function App() {
       toast.error('Unable to connect to server. Please check your internet connection.');
       
       // Set empty arrays on error to prevent crashes
-      setData({
-        experiences: [],
-        itineraries: [],
-        images: [],
-        updates: []
-      });
+      setData(emptyData);
     } finally {
       setIsLoading(false);
     }
-  };
-  
-  const handleLogin = async (userData: any, token: string) => {
-    try {
-      localStorage.setItem('user', JSON.stringify(userData));
-      localStorage.setItem('token', token);
-      localStorage.setItem('authToken', token); // For our API service
-      setUser(userData);
-      await fetchAllData();
-      toast.success(`Welcome back, ${userData.name}!`);
-    } catch (error) {
-      console.error('Login error:', error);
-      toast.error('Login successful but failed to load data');
+  }, [isStaff]);
+
+  // Load content whenever a session starts (login, verified boot, or login in another tab)
+  // and drop it when the session ends for any reason
+  const userEmail = user?.email;
+  useEffect(() => {
+    if (userEmail) {
+      fetchAllData();
+    } else {
+      setData(emptyData);
+      setConnectionError(false);
+      setIsLoading(false);
     }
+  }, [userEmail, fetchAllData]);
+  
+  const handleLogin = (userData: User, token: string) => {
+    login(userData, token);
+    toast.success(`Welcome back, ${userData.name}!`);
   };
   
   const handleLogout = () => {
     try {
-      localStorage.removeItem('user');
-      localStorage.removeItem('token');
-      localStorage.removeItem('authToken');
-      authAPI.logout();
-      setUser(null);
-      setData({
-        experiences: [],
-        itineraries: [],
-        images: [],
-        updates: []
-      });
-      setConnectionError(false);
+      logout();
       toast.success('Logged out successfully');
     } catch (error) {
       console.error('Logout error:', error);
@@ -184,7 +258,7 @@ function App() {
     }
   };
 
-  const handleUpdateData = (newData: any) => {
+  const handleUpdateData = (newData: AppData) => {
     setData(newData);
   };
 
@@ -196,10 +270,68 @@ function App() {
     }
   };
 
+  if (status === 'checking') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-orange-600 mx-auto mb-4"></div>
+          <p className="text-slate-700 text-lg font-medium">Restoring your session...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Emailed links open these screens whether or not someone is logged in on this browser
+  if (authRoute.screen === 'verify-email' || authRoute.screen === 'reset-password') {
+    return (
+      <ErrorBoundary>
+        {authRoute.screen === 'verify-email' ? (
+          <VerifyEmailPage token={authRoute.token} email={authRoute.email} />
+        ) : (
+          <ResetPasswordPage token={authRoute.token} email={authRoute.email} />
+        )}
+        <Toaster position="top-right" richColors />
+      </ErrorBoundary>
+    );
+  }
+
   if (!user) {
     return (
       <ErrorBoundary>
-        <LoginPage onLogin={handleLogin} />
+        {authRoute.screen === 'register' ? (
+          <RegisterPage />
+        ) : authRoute.screen === 'forgot-password' ? (
+          <ForgotPasswordPage initialEmail={authRoute.email} />
+        ) : (
+          <LoginPage
+            onLogin={handleLogin}
+            initialEmail={expiredSessionEmail || ''}
+            notice={expiredSessionEmail !== null ? 'Your session expired. Please log in again.' : undefined}
+          />
+        )}
+        <Toaster position="top-right" richColors />
+      </ErrorBoundary>
+    );
+  }
+
+  // Admin roles cannot reach the dashboard until their account has a second factor
+  if (requiresMfa(user) && !user.mfaEnabled) {
+    return (
+      <ErrorBoundary>
+        <AuthCard
+          title="Protect your account"
+          subtitle="Your role requires two-factor authentication. Set it up to continue."
+          footer={
+            <p>
+              Not now?{' '}
+              <button type="button" onClick={handleLogout} className="font-medium text-orange-600 hover:text-orange-700 hover:underline">
+                Log out
+              </button>
+            </p>
+          }
+        >
+          <MfaEnrollment onEnrolled={() => updateUser({ ...user, mfaEnabled: true })} />
+        </AuthCard>
         <Toaster position="top-right" richColors />
       </ErrorBoundary>
     );
@@ -249,7 +381,7 @@ function App() {
 
   return (
     <ErrorBoundary>
-      {user.role === 'admin' ? (
+      {hasAdminAccess(user) ? (
         <AdminDashboard
           user={user}
           data={data}
@@ -268,4 +400,12 @@ function App() {
   );
 }
 
+function App() {
+  return (
+    <AuthProvider>
+      <AppContent />
+    </AuthProvider>
+  );
+}
+
 export default App;
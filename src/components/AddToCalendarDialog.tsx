@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Itinerary } from '../App';
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { CalendarPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { itineraryToIcs } from '../services/ics';
+import { itineraryFileName } from '../services/itineraryPdf';
+import { saveBlob } from '../services/download';
+
+type AddToCalendarDialogProps = {
+  itinerary: Itinerary;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const startOfToday = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+// Anchors the plan to a start date and saves it as an .ics file any calendar app can import
+export function AddToCalendarDialog({ itinerary, open, onOpenChange }: AddToCalendarDialogProps) {
+  const [startDate, setStartDate] = useState<Date | undefined>();
+  const dayCount = Math.max(itinerary.days.length, 1);
+  const endDate = startDate
+    ? new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + dayCount - 1)
+    : undefined;
+
+  const handleDownload = () => {
+    if (!startDate) return;
+    try {
+      const ics = itineraryToIcs(itinerary, startDate);
+      saveBlob(new Blob([ics], { type: 'text/calendar;charset=utf-8' }), itineraryFileName(itinerary, 'ics'));
+      toast.success('Calendar file downloaded successfully');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating calendar file:', error);
+      toast.error('Failed to create calendar file');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add to calendar</DialogTitle>
+          <DialogDescription>
+            Pick the day your trip starts. Each day of {itinerary.title} becomes a calendar event, with timed
+            activities at their scheduled times.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center">
+          <Calendar
+            mode="single"
+            selected={startDate}
+            onSelect={setStartDate}
+            disabled={{ before: startOfToday() }}
+            className="rounded-md border"
+          />
+        </div>
+        <p className="text-sm text-slate-600 text-center min-h-5">
+          {startDate && endDate
+            ? `${formatDay(startDate)} – ${formatDay(endDate)} (${dayCount} day${dayCount === 1 ? '' : 's'})`
+            : 'No start date selected'}
+        </p>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={!startDate}>
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            Download .ics
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
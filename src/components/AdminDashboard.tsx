@@ -1,15 +1,27 @@
 import { useState } from 'react';
 import { User, AppData, Region } from '../App';
 import { Button } from './ui/button';
-import { Input } from './ui/input';
 import { Card, CardHeader, CardTitle, CardDescription } from './ui/card';
-import { LogOut, Search, Sparkles, Calendar, Image as ImageIcon } from 'lucide-react';
+import { LogOut, Sparkles, Calendar, Image as ImageIcon, Users } from 'lucide-react';
 import { ExperienceManager } from './ExperienceManager';
 import { ItineraryManager } from './ItineraryManager';
 import { ImageManager } from './ImageManager';
 import { SearchResults } from './SearchResults';
+import { SearchCommand } from './SearchCommand';
 import { RegionFilter } from './RegionFilter';
+import { StatusFilter } from './StatusFilter';
 import { UpdatesManager } from './UpdatesManager';
+import { BackupManager } from './BackupManager';
+import { ScheduleLane } from './ScheduleLane';
+import { TrashManager } from './TrashManager';
+import { UserManager } from './UserManager';
+import { SecuritySettings } from './SecuritySettings';
+import { useRoute, navigate, buildPath, Section } from '../hooks/useRoute';
+import { usePaginatedResource } from '../hooks/usePaginatedResource';
+import { usePermissions } from '../hooks/usePermissions';
+import { experiencesAPI, itinerariesAPI, imagesAPI, updatesAPI, fetchAll } from '../services/api';
+import type { StatusFilter as StatusFilterValue } from '../services/workflow';
+import type { TrashType } from '../services/trash';
 import elephantLogo from '../logo1.png';
 
 type AdminDashboardProps = {
@@ -19,30 +31,41 @@ type AdminDashboardProps = {
   onUpdateData: (data: AppData) => void;
 };
 
-type Section = 'experiences' | 'itineraries' | 'images' | 'search';
-
 export function AdminDashboard({ user, data, onLogout, onUpdateData }: AdminDashboardProps) {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [activeSection, setActiveSection] = useState<Section>('experiences');
-  const [selectedRegion, setSelectedRegion] = useState<Region | 'All'>('All');
-
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      setActiveSection('search');
-    }
+  // Section, region and search all live in the URL so views can be bookmarked and shared
+  const route = useRoute();
+  const { section: activeSection, region: selectedRegion } = route;
+  const { can } = usePermissions();
+  const canManageUsers = can('users.manage');
+
+  const setActiveSection = (section: Section) => {
+    navigate(buildPath({ section, region: selectedRegion }));
+  };
+
+  const setSelectedRegion = (region: Region | 'All') => {
+    navigate(buildPath({ section: activeSection, region }));
   };
 
-  const filteredData = {
-    experiences: selectedRegion === 'All' 
-      ? (data.experiences || [])
-      : (data.experiences || []).filter(exp => exp.region === selectedRegion),
-    itineraries: selectedRegion === 'All' 
-      ? (data.itineraries || [])
-      : (data.itineraries || []).filter(it => it.region === selectedRegion),
-    images: selectedRegion === 'All' 
-      ? (data.images || [])
-      : (data.images || []).filter(img => img.region === selectedRegion)
+  // Each manager pages through the API with the region and status filters applied server-side
+  const [statusFilter, setStatusFilter] = useState<StatusFilterValue>('all');
+  const status = statusFilter === 'all' ? undefined : statusFilter;
+  const experiences = usePaginatedResource(experiencesAPI, { region: selectedRegion, status });
+  const itineraries = usePaginatedResource(itinerariesAPI, { region: selectedRegion, status });
+  const images = usePaginatedResource(imagesAPI, { region: selectedRegion, status });
+
+  const handleRestored = async (restored: AppData) => {
+    onUpdateData(restored);
+    await Promise.all([experiences.refresh(), itineraries.refresh(), images.refresh()]);
+  };
+
+  // A record restored from the trash reappears in whichever list it came from
+  const handleTrashRestored = async (type: TrashType) => {
+    if (type === 'updates') {
+      const updates = await fetchAll(updatesAPI);
+      onUpdateData({ ...data, updates });
+      return;
+    }
+    await { experiences, itineraries, images }[type].refresh();
   };
 
   return (
@@ -62,24 +85,21 @@ export function AdminDashboard({ user, data, onLogout, onUpdateData }: AdminDash
             </div>
       
             {/* Middle: Search Bar */}
-            <form onSubmit={handleSearch} className="flex-grow max-w-3xl">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                <Input
-                  type="text"
-                  placeholder="Search by destination (e.g., Goa, Ladakh, Kerala...)"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10 w-full"
-                />
-              </div>
-            </form>
+            <div className="flex-grow max-w-3xl">
+              <SearchCommand query={route.query} data={data} userEmail={user.email} canOpenItineraries={false} />
+            </div>
       
-            {/* Right: Logout button */}
-            <Button onClick={onLogout} variant="outline" className="flex-shrink-0">
-              <LogOut className="w-4 h-4 mr-2" />
-              Logout
-            </Button>
+            {/* Right: Admin tools and logout */}
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <ScheduleLane />
+              <TrashManager onRestored={handleTrashRestored} />
+              {can('backups.manage') && <BackupManager onRestored={handleRestored} />}
+              <SecuritySettings />
+              <Button onClick={onLogout} variant="outline" className="flex-shrink-0">
+                <LogOut className="w-4 h-4 mr-2" />
+                Logout
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -104,7 +124,7 @@ export function AdminDashboard({ user, data, onLogout, onUpdateData }: AdminDash
                     <div className="flex flex-col justify-center">
                       <CardTitle className="leading-tight font-semibold text-lg">Experiences</CardTitle>
                       <CardDescription className="text-base">
-                        {filteredData.experiences?.length || 0} items
+                        {experiences.total} items
                       </CardDescription>
                     </div>
                   </div>
@@ -123,7 +143,7 @@ export function AdminDashboard({ user, data, onLogout, onUpdateData }: AdminDash
                     <div className="flex flex-col justify-center">
                       <CardTitle className="leading-tight font-semibold text-lg">Itineraries</CardTitle>
                       <CardDescription className="text-base">
-                        {filteredData.itineraries?.length || 0} items
+                        {itineraries.total} items
                       </CardDescription>
                     </div>
                   </div>
@@ -142,32 +162,65 @@ export function AdminDashboard({ user, data, onLogout, onUpdateData }: AdminDash
                     <div className="flex flex-col justify-center">
                       <CardTitle className="leading-tight font-semibold text-lg">Images</CardTitle>
                       <CardDescription className="text-base">
-                        {filteredData.images?.length || 0} items
+                        {images.total} items
                       </CardDescription>
                     </div>
                   </div>
                 </CardHeader>
               </Card>
+
+              {canManageUsers && (
+                <Card
+                  className={`cursor-pointer transition-all hover:shadow-lg min-w-[290px] ${activeSection === 'users' ? ' bg-slate-100' : ''}`}
+                  onClick={() => setActiveSection('users')}
+                >
+                  <CardHeader className="flex items-center h-full p-8">
+                    <div className="flex items-center gap-4">
+                      <div className="p-3 bg-slate-200 rounded-lg flex items-center justify-center">
+                        <Users className="w-7 h-7 text-slate-700" />
+                      </div>
+                      <div className="flex flex-col justify-center">
+                        <CardTitle className="leading-tight font-semibold text-lg">Users</CardTitle>
+                        <CardDescription className="text-base">
+                          Team accounts
+                        </CardDescription>
+                      </div>
+                    </div>
+                  </CardHeader>
+                </Card>
+              )}
             </div>
 
+            {/* Region and Status Filters (updates keep their own status filter in the sidebar) */}
+            {activeSection !== 'search' && activeSection !== 'users' && (
+              <div className="mb-6 flex flex-wrap items-center gap-4">
+                <RegionFilter selectedRegion={selectedRegion} onRegionChange={setSelectedRegion} />
+                <StatusFilter value={statusFilter} onChange={setStatusFilter} />
+              </div>
+            )}
+
             {/* Tab Content - existing code */}
             <div className="space-y-8">
               {/* Content Area */}
               <div className="bg-white rounded-lg border shadow-sm p-6">
                 {activeSection === 'experiences' && (
-                  <ExperienceManager data={{ ...data, experiences: filteredData.experiences }} onUpdateData={onUpdateData} />
+                  <ExperienceManager listing={experiences} />
                 )}
 
                 {activeSection === 'itineraries' && (
-                  <ItineraryManager data={{ ...data, itineraries: filteredData.itineraries }} onUpdateData={onUpdateData} />
+                  <ItineraryManager listing={itineraries} />
                 )}
 
                 {activeSection === 'images' && (
-                  <ImageManager data={{ ...data, images: filteredData.images }} onUpdateData={onUpdateData} />
+                  <ImageManager listing={images} />
+                )}
+
+                {activeSection === 'users' && canManageUsers && (
+                  <UserManager currentUser={user} />
                 )}
 
                 {activeSection === 'search' && (
-                  <SearchResults searchQuery={searchQuery} data={data} isAdmin={true} onUpdateData={onUpdateData} />
+                  <SearchResults searchQuery={route.query} data={data} isAdmin={true} />
                 )}
               </div>
             </div>
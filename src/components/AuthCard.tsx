@@ -0,0 +1,66 @@
+import { Card, CardContent, CardHeader } from './ui/card';
+import { navigate } from '../hooks/useRoute';
+import elephantLogo from '../logo.png';
+import bgImage from '../bg.jpg';
+
+type AuthCardProps = {
+  title: string;
+  subtitle: string;
+  children: React.ReactNode;
+  footer?: React.ReactNode; // links to the other auth screens, below the card content
+};
+
+// Shared frame of the login, registration, password reset and email verification screens
+export function AuthCard({ title, subtitle, children, footer }: AuthCardProps) {
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center p-4 bg-cover bg-center bg-no-repeat"
+      style={{ backgroundImage: `url(${bgImage})` }}>
+      {/* Optional overlay for better readability */}
+      <div className="absolute inset-0 bg-black bg-opacity-30"></div>
+
+      <div className="relative z-10 w-full max-w-md">
+        <Card className="w-full max-w-md backdrop-blur-sm bg-white/95">
+          <CardHeader className="text-center pb-0">
+            <div className="flex justify-center mb-0 mt-0 p-0">
+              <img src={elephantLogo} alt="Immersive Tours" className="w-40 h-30 object-contain" />
+            </div>
+            <div className="text-center mb-5 mt-2">
+              <p className="text-black drop-shadow-md">Discover the beauty of Incredible India</p>
+            </div>
+            <div className="w-full border-t border-gray-200 mb-4"></div>
+            <div className="pb-4">
+              <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
+              <p className="mt-2 text-gray-600">{subtitle}</p>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {children}
+            {footer && <div className="mt-6 space-y-1 text-center text-sm text-gray-600">{footer}</div>}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+type AuthLinkProps = {
+  to: string;
+  children: React.ReactNode;
+};
+
+// In-app link between the auth screens
+export function AuthLink({ to, children }: AuthLinkProps) {
+  return (
+    <a
+      href={to}
+      onClick={(e) => {
+        e.preventDefault();
+        navigate(to);
+      }}
+      className="font-medium text-orange-600 hover:text-orange-700 hover:underline"
+    >
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { AppData } from '../App';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Progress } from './ui/progress';
+import { Alert, AlertDescription } from './ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Archive, Download, Upload, AlertCircle, Loader2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  BackupDiff,
+  BackupManifest,
+  BackupProgress,
+  CONTENT_LABELS,
+  CONTENT_TYPES,
+  RestoreOperation,
+  applyRestore,
+  backupFileName,
+  createBackup,
+  diffBackup,
+  fetchAllContent,
+  planRestore,
+  readBackup,
+  recordLabel
+} from '../services/backup';
+import { BatchResult } from '../services/batch';
+import { saveBlob } from '../services/download';
+
+type BackupManagerProps = {
+  // Called with the server's content after a restore so the dashboard can refresh
+  onRestored: (data: AppData) => void | Promise<void>;
+};
+
+const STAGE_LABELS: Record<BackupProgress['stage'], string> = {
+  fetching: 'Collecting content...',
+  images: 'Downloading image files',
+  packing: 'Compressing archive'
+};
+
+// How many records of each kind to name in the restore preview before summarising the rest
+const PREVIEW_LIMIT = 5;
+
+export function BackupManager({ onRestored }: BackupManagerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeImages, setIncludeImages] = useState(false);
+  const [exportProgress, setExportProgress] = useState<BackupProgress | null>(null);
+  const [lastExport, setLastExport] = useState<BackupManifest | null>(null);
+
+  const [isReading, setIsReading] = useState(false);
+  const [restoreError, setRestoreError] = useState('');
+  const [archive, setArchive] = useState<{ manifest: BackupManifest; diff: BackupDiff } | null>(null);
+  const [deleteMissing, setDeleteMissing] = useState(false);
+  const [restoreProgress, setRestoreProgress] = useState<{ done: number; total: number } | null>(null);
+  const [restoreFailures, setRestoreFailures] = useState<BatchResult<RestoreOperation, unknown>[]>([]);
+
+  const isBusy = exportProgress !== null || restoreProgress !== null;
+  const operations = archive ? planRestore(archive.diff, { deleteMissing }) : [];
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && isBusy) return;
+    setIsOpen(open);
+    if (!open) {
+      setArchive(null);
+      setRestoreError('');
+      setRestoreFailures([]);
+      setLastExport(null);
+    }
+  };
+
+  const handleExport = async () => {
+    setLastExport(null);
+    try {
+      const { blob, manifest } = await createBackup({ includeImages, onProgress: setExportProgress });
+      saveBlob(blob, backupFileName());
+      setLastExport(manifest);
+      toast.success('Backup exported successfully');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      toast.error('Failed to export backup');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const handleArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsReading(true);
+    setRestoreError('');
+    setRestoreFailures([]);
+    setArchive(null);
+
+    try {
+      const [backup, live] = await Promise.all([readBackup(file), fetchAllContent()]);
+      setArchive({ manifest: backup.manifest, diff: diffBackup(backup.data, live) });
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      setRestoreError(error instanceof Error ? error.message : 'Could not read the backup');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    setRestoreProgress({ done: 0, total: operations.length });
+    try {
+      const results = await applyRestore(operations, (done, total) => setRestoreProgress({ done, total }));
+      const failures = results.filter(result => !result.ok);
+      setRestoreFailures(failures);
+      setArchive(null);
+      if (failures.length === 0) {
+        toast.success('Backup restored successfully');
+      } else {
+        toast.error(`Failed to apply ${failures.length} of ${results.length} changes`);
+      }
+      await onRestored(await fetchAllContent());
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error('Failed to restore backup');
+    } finally {
+      setRestoreProgress(null);
+    }
+  };
+
+  const renderProgress = (value: number, label: string) => (
+    <div className="space-y-2">
+      <Progress value={value} />
+      <p className="text-sm text-slate-600">{label}</p>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <Button variant="outline" onClick={() => setIsOpen(true)} className="flex-shrink-0">
+        <Archive className="w-4 h-4 mr-2" />
+        Backup
+      </Button>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Backup & restore</DialogTitle>
+          <DialogDescription>Export all content to a zip archive, or bring an archive back.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid grid-cols-2 w-full">
+            <TabsTrigger value="export" disabled={isBusy}>Export</TabsTrigger>
+            <TabsTrigger value="restore" disabled={isBusy}>Restore</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-4 pt-4">
+            <p className="text-sm text-slate-600">
+              The archive contains every experience, itinerary, image record and update as JSON, plus a CSV per type
+              that opens in any spreadsheet.
+            </p>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={includeImages} onCheckedChange={(checked) => setIncludeImages(checked === true)} />
+              Include the image files (slower, larger archive)
+            </label>
+
+            {exportProgress &&
+              renderProgress(
+                exportProgress.total ? (exportProgress.done / exportProgress.total) * 100 : 0,
+                exportProgress.stage === 'fetching'
+                  ? STAGE_LABELS.fetching
+                  : `${STAGE_LABELS[exportProgress.stage]} (${exportProgress.done}${exportProgress.stage === 'packing' ? '%' : ` of ${exportProgress.total}`})`
+              )}
+
+            {lastExport && (
+              <Alert>
+                <Archive className="w-4 h-4" />
+                <AlertDescription>
+                  {CONTENT_TYPES.map(type => `${lastExport.counts[type]} ${CONTENT_LABELS[type].toLowerCase()}`).join(', ')}
+                  {lastExport.images.included &&
+                    `; ${Object.keys(lastExport.images.files).length} image files` +
+                      (lastExport.images.missing.length > 0
+                        ? ` (${lastExport.images.missing.length} could not be downloaded and are listed in manifest.json)`
+                        : '')}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button onClick={handleExport} disabled={isBusy} className="bg-orange-600 hover:bg-orange-700">
+              {exportProgress ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Export everything
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="restore" className="space-y-4 pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="backup-file">Backup archive (.zip)</Label>
+              <Input id="backup-file" type="file" accept=".zip,application/zip" onChange={handleArchive} disabled={isBusy || isReading} />
+            </div>
+
+            {isReading && (
+              <p className="text-sm text-slate-600 flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Comparing the backup with the live content...
+              </p>
+            )}
+
+            {restoreError && (
+              <Alert variant="destructive">
+                <AlertCircle className="w-4 h-4" />
+                <AlertDescription>{restoreError}</AlertDescription>
+              </Alert>
+            )}
+
+            {archive && (
+              <div className="space-y-3">
+                <p className="text-sm text-slate-600">
+                  Backup from {new Date(archive.manifest.createdAt).toLocaleString('en-IN')}
+                </p>
+                <p className="text-xs text-slate-500">
+                  New records are created with new ids. Copies from an earlier restore are recognised by their content;
+                  if one has been edited since, restoring again creates another copy.
+                </p>
+                {CONTENT_TYPES.map(type => {
+                  const diff = archive.diff[type];
+                  const entries = [
+                    ...diff.added.map(record => ({ action: 'add', label: recordLabel(record), detail: '' })),
+                    ...diff.changed.map(change => ({
+                      action: 'change',
+                      label: recordLabel(change.after),
+                      detail: change.fields.join(', ')
+                    })),
+                    ...(deleteMissing ? diff.removed.map(record => ({ action: 'delete', label: recordLabel(record), detail: '' })) : [])
+                  ];
+                  return (
+                    <div key={type} className="border rounded-md p-3">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium text-slate-800 mr-auto">{CONTENT_LABELS[type]}</span>
+                        <Badge className="bg-green-600">{diff.added.length} new</Badge>
+                        <Badge className="bg-amber-500">{diff.changed.length} changed</Badge>
+                        <Badge variant={deleteMissing ? 'destructive' : 'secondary'}>{diff.removed.length} not in backup</Badge>
+                        <Badge variant="outline">{diff.unchanged} unchanged</Badge>
+                      </div>
+                      {entries.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-sm text-slate-600">
+                          {entries.slice(0, PREVIEW_LIMIT).map((entry, idx) => (
+                            <li key={idx}>
+                              <span className="text-slate-400 mr-2">{entry.action}</span>
+                              {entry.label}
+                              {entry.detail && <span className="text-slate-400"> ({entry.detail})</span>}
+                            </li>
+                          ))}
+                          {entries.length > PREVIEW_LIMIT && (
+                            <li className="text-slate-400">and {entries.length - PREVIEW_LIMIT} more</li>
+                          )}
+                        </ul>
+                      )}
+                    </div>
+                  );
+                })}
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={deleteMissing} onCheckedChange={(checked) => setDeleteMissing(checked === true)} />
+                  Also delete live content that is not in the backup
+                </label>
+              </div>
+            )}
+
+            {restoreProgress &&
+              renderProgress(
+                restoreProgress.total ? (restoreProgress.done / restoreProgress.total) * 100 : 0,
+                `Applying ${restoreProgress.done} of ${restoreProgress.total} changes...`
+              )}
+
+            {restoreFailures.length > 0 && (
+              <ul className="border rounded-md divide-y text-sm max-h-48 overflow-y-auto">
+                {restoreFailures.map((failure, idx) => (
+                  <li key={idx} className="px-3 py-2 flex items-start gap-2">
+                    <XCircle className="w-4 h-4 text-red-600 mt-0.5 shrink-0" />
+                    <span>
+                      Could not {failure.item.action} {failure.item.label} ({CONTENT_LABELS[failure.item.type].toLowerCase()})
+                      {!failure.ok && <span className="block text-red-600">{failure.error}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {archive && (
+              <Button
+                onClick={handleRestore}
+                disabled={isBusy || operations.length === 0}
+                className="bg-orange-600 hover:bg-orange-700"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {operations.length === 0 ? 'Nothing to restore' : `Apply ${operations.length} change${operations.length === 1 ? '' : 's'}`}
+              </Button>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
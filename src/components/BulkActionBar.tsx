@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { Region } from '../App';
+import { Button, buttonVariants } from './ui/button';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog';
+import { CheckCircle2, MapPin, Globe, Type, Trash2, X, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Selection } from '../hooks/useSelection';
+import { usePermissions } from '../hooks/usePermissions';
+import { applyBulkEdit, BulkEdit, BulkRecord, BulkType } from '../services/bulk';
+import { softDeleteMany, UNDO_GRACE_MS } from '../services/trash';
+import { IMPORT_KINDS } from '../services/importer';
+import { recordLabel } from '../services/backup';
+import { BatchResult } from '../services/batch';
+
+type BulkActionBarProps = {
+  type: BulkType;
+  // The records currently shown, in display order
+  items: BulkRecord[];
+  selection: Selection;
+  onDone: () => void | Promise<void>;
+};
+
+type EditKind = BulkEdit['kind'];
+
+type Step = 'form' | 'running' | 'report';
+
+const EDIT_TITLES: Record<EditKind | 'delete', string> = {
+  region: 'Change region',
+  destination: 'Change destination',
+  captionPrefix: 'Edit caption prefix',
+  delete: 'Delete'
+};
+
+// Select-all checkbox plus the actions for the selected cards: change region, change destination,
+// caption prefix (images) and delete, each reporting the records that failed
+export function BulkActionBar({ type, items, selection, onDone }: BulkActionBarProps) {
+  const names = IMPORT_KINDS[type];
+  const { regions, defaultRegion } = usePermissions();
+  const [editKind, setEditKind] = useState<EditKind | 'delete' | null>(null);
+  const [step, setStep] = useState<Step>('form');
+  const [region, setRegion] = useState<Region>(defaultRegion);
+  const [destination, setDestination] = useState('');
+  const [prefix, setPrefix] = useState('');
+  const [prefixMode, setPrefixMode] = useState<'add' | 'remove'>('add');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [results, setResults] = useState<BatchResult<BulkRecord, unknown>[]>([]);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const selected = items.filter(item => selection.isSelected(item.id));
+  const countLabel = (count: number) => `${count} ${count === 1 ? names.singular : names.plural}`;
+  const failed = results.filter(result => !result.ok);
+
+  const openEdit = (kind: EditKind) => {
+    setEditKind(kind);
+    setStep('form');
+    setResults([]);
+  };
+
+  const closeEdit = () => {
+    if (step === 'running') return;
+    setEditKind(null);
+  };
+
+  const currentEdit = (): BulkEdit | null => {
+    if (editKind === 'region') return { kind: 'region', region };
+    if (editKind === 'destination') return destination.trim() ? { kind: 'destination', destination: destination.trim() } : null;
+    if (editKind === 'captionPrefix') return prefix ? { kind: 'captionPrefix', prefix, mode: prefixMode } : null;
+    return null;
+  };
+
+  const handleApply = async () => {
+    const edit = currentEdit();
+    if (!edit) return;
+    setStep('running');
+    const batch = await applyBulkEdit(type, selected, edit, (done, total) => setProgress({ done, total }));
+    setResults(batch);
+    setStep('report');
+    selection.clear();
+    await onDone();
+  };
+
+  const handleDelete = () => {
+    const records = selected;
+    setIsConfirmingDelete(false);
+    selection.clear();
+
+    const undo = softDeleteMany(type, records, {
+      onSettled: async (batch) => {
+        if (batch.some(result => !result.ok)) {
+          setResults(batch);
+          setEditKind('delete');
+          setStep('report');
+        }
+        await onDone();
+      }
+    });
+    toast(`${countLabel(records.length)} deleted`, {
+      duration: UNDO_GRACE_MS,
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          if (undo()) {
+            toast.success(`${countLabel(records.length)} restored`);
+          } else {
+            toast.error(`${countLabel(records.length)} already deleted. Restore from Trash instead.`);
+          }
+        }
+      }
+    });
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border bg-slate-50 px-3 py-2">
+      <label className="flex items-center gap-2 text-sm text-slate-700 mr-2">
+        <Checkbox
+          checked={selection.allSelected ? true : selection.count > 0 ? 'indeterminate' : false}
+          onCheckedChange={() => (selection.allSelected ? selection.clear() : selection.selectAll())}
+          aria-label={`Select all ${names.plural} shown`}
+        />
+        {selection.count > 0 ? `${selection.count} selected` : `Select all ${items.length} shown`}
+      </label>
+
+      {selection.count > 0 && (
+        <>
+          <Button size="sm" variant="outline" onClick={() => openEdit('region')}>
+            <Globe className="w-4 h-4 mr-1" />
+            Region
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => openEdit('destination')}>
+            <MapPin className="w-4 h-4 mr-1" />
+            Destination
+          </Button>
+          {type === 'images' && (
+            <Button size="sm" variant="outline" onClick={() => openEdit('captionPrefix')}>
+              <Type className="w-4 h-4 mr-1" />
+              Caption prefix
+            </Button>
+          )}
+          <Button size="sm" variant="destructive" onClick={() => setIsConfirmingDelete(true)}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+          <Button size="sm" variant="ghost" onClick={selection.clear} className="ml-auto">
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        </>
+      )}
+
+      <Dialog open={editKind !== null} onOpenChange={(open) => !open && closeEdit()}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editKind ? EDIT_TITLES[editKind] : ''}</DialogTitle>
+            <DialogDescription>
+              {step === 'report'
+                ? `${results.length - failed.length} of ${countLabel(results.length)} done`
+                : `Applies to ${countLabel(selected.length)}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {step === 'form' && editKind === 'region' && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-region">New region</Label>
+              <Select value={region} onValueChange={(value) => setRegion(value as Region)}>
+                <SelectTrigger id="bulk-region">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {regions.map(option => (
+                    <SelectItem key={option} value={option}>{option} India</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {step === 'form' && editKind === 'destination' && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-destination">New destination</Label>
+              <Input
+                id="bulk-destination"
+                value={destination}
+                onChange={(e) => setDestination(e.target.value)}
+                placeholder="e.g., Goa, Ladakh, Kerala"
+              />
+            </div>
+          )}
+
+          {step === 'form' && editKind === 'captionPrefix' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="bulk-prefix">Prefix</Label>
+                <Input
+                  id="bulk-prefix"
+                  value={prefix}
+                  onChange={(e) => setPrefix(e.target.value)}
+                  placeholder="e.g., Monsoon 2025 – "
+                />
+              </div>
+              <Select value={prefixMode} onValueChange={(value) => setPrefixMode(value as 'add' | 'remove')}>
+                <SelectTrigger aria-label="Prefix action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="add">Add to the start of each caption</SelectItem>
+                  <SelectItem value="remove">Remove from captions that start with it</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {step === 'running' && (
+            <div className="space-y-3 py-6">
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+              <p className="text-sm text-slate-600 text-center">
+                Updating {progress.done} of {countLabel(progress.total)}...
+              </p>
+            </div>
+          )}
+
+          {step === 'report' && (
+            <div className="space-y-4">
+              <div className="flex gap-2 flex-wrap">
+                <Badge className="bg-green-600">{results.length - failed.length} done</Badge>
+                {failed.length > 0 && <Badge variant="destructive">{failed.length} failed</Badge>}
+              </div>
+              {failed.length > 0 && (
+                <ul className="max-h-80 overflow-y-auto border rounded-md divide-y text-sm">
+                  {failed.map(result => (
+                    <li key={result.item.id} className="px-3 py-2 flex items-start gap-2">
+                      <XCircle className="w-4 h-4 text-red-600 mt-0.5 shrink-0" />
+                      <span className="flex-1">
+                        {recordLabel(result.item)}
+                        {!result.ok && <span className="block text-red-600">{result.error}</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {failed.length === 0 && (
+                <p className="flex items-center gap-2 text-sm text-slate-600">
+                  <CheckCircle2 className="w-4 h-4 text-green-600" />
+                  Every selected {names.singular} was updated.
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {step === 'form' && (
+              <>
+                <Button variant="outline" onClick={closeEdit}>Cancel</Button>
+                <Button onClick={handleApply} disabled={!currentEdit() || selected.length === 0}>
+                  Apply to {countLabel(selected.length)}
+                </Button>
+              </>
+            )}
+            {step === 'report' && <Button onClick={closeEdit}>Done</Button>}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {countLabel(selected.length)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You can undo right after deleting, and restore them from the trash later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={handleDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
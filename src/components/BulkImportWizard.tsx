@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { FileUp, AlertCircle, CheckCircle2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  IMPORT_FIELDS,
+  IMPORT_KINDS,
+  ColumnMapping,
+  ImportKind,
+  SourceTable,
+  ValidatedRow,
+  createRecord,
+  guessMapping,
+  parseImportFile,
+  unmappedRequiredFields,
+  validateRows
+} from '../services/importer';
+import { BatchResult, runBatch } from '../services/batch';
+
+type BulkImportWizardProps = {
+  kind: ImportKind;
+  onImported: () => void | Promise<void>;
+};
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'report';
+
+const STEP_TITLES: Record<Step, string> = {
+  upload: 'Choose a file',
+  map: 'Match columns',
+  preview: 'Check rows',
+  importing: 'Importing',
+  report: 'Import report'
+};
+
+// Radix Select items cannot have an empty value
+const UNMAPPED = '__none__';
+
+const preview = (value: unknown) => {
+  const text = typeof value === 'string' ? value : value === undefined ? '' : JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+// Upload -> map columns -> validate and preview -> create through the API -> report
+export function BulkImportWizard({ kind, onImported }: BulkImportWizardProps) {
+  const names = IMPORT_KINDS[kind];
+  const fields = IMPORT_FIELDS[kind];
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState('');
+  const [table, setTable] = useState<SourceTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ValidatedRow[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [results, setResults] = useState<BatchResult<ValidatedRow, unknown>[]>([]);
+
+  const validRows = rows.filter(row => row.record);
+  const invalidRows = rows.filter(row => !row.record);
+  const missingFields = unmappedRequiredFields(kind, mapping);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setFileError('');
+    setTable(null);
+    setMapping({});
+    setRows([]);
+    setProgress({ done: 0, total: 0 });
+    setResults([]);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    // Closing mid-import would hide the progress but not stop the requests
+    if (!open && step === 'importing') return;
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setFileError('');
+
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      setTable(parsed);
+      setMapping(guessMapping(kind, parsed.columns));
+      setStep('map');
+    } catch (error) {
+      setTable(null);
+      setFileError(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  const handleValidate = () => {
+    if (!table) return;
+    setRows(validateRows(kind, table, mapping));
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    const batch = await runBatch(validRows, row => createRecord(kind, row.record!), {
+      onProgress: (done, total) => setProgress({ done, total })
+    });
+    setResults(batch);
+    setStep('report');
+
+    const created = batch.filter(result => result.ok).length;
+    if (created > 0) {
+      toast.success(`Imported ${created} ${created === 1 ? names.singular : names.plural} successfully`);
+      await onImported();
+    }
+    if (created < batch.length) {
+      toast.error(`Failed to import ${batch.length - created} ${batch.length - created === 1 ? names.singular : names.plural}`);
+    }
+  };
+
+  const succeeded = results.filter(result => result.ok);
+  const failed = results.filter(result => !result.ok);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <FileUp className="w-4 h-4 mr-2" />
+        Import
+      </Button>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {names.plural}: {STEP_TITLES[step]}</DialogTitle>
+          <DialogDescription>
+            {fileName ? `${fileName}${table ? ` · ${table.rows.length} rows` : ''}` : 'Upload a CSV or JSON file'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`import-${kind}`}>CSV or JSON file</Label>
+              <Input id={`import-${kind}`} type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+            </div>
+            {fileError && (
+              <Alert variant="destructive">
+                <AlertCircle className="w-4 h-4" />
+                <AlertDescription>{fileError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="text-sm text-slate-600">
+              <p className="font-medium text-slate-700 mb-1">Expected columns</p>
+              <ul className="space-y-1">
+                {fields.map(field => (
+                  <li key={field.key}>
+                    {field.label}
+                    {field.required ? <span className="text-red-600"> *</span> : <span className="text-slate-400"> (optional)</span>}
+                    {field.hint && <span className="text-slate-400"> - {field.hint}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && table && (
+          <div className="space-y-3">
+            {fields.map(field => (
+              <div key={field.key} className="grid grid-cols-[10rem_1fr_10rem] gap-3 items-center">
+                <Label>
+                  {field.label}
+                  {field.required && <span className="text-red-600">*</span>}
+                </Label>
+                <Select
+                  value={mapping[field.key] || UNMAPPED}
+                  onValueChange={(value) => setMapping({ ...mapping, [field.key]: value === UNMAPPED ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {table.columns.map(column => (
+                      <SelectItem key={column} value={column}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-xs text-slate-500 truncate">
+                  {mapping[field.key] ? preview(table.rows[0][mapping[field.key]]) : field.hint || ''}
+                </span>
+              </div>
+            ))}
+            {missingFields.length > 0 && (
+              <Alert>
+                <AlertCircle className="w-4 h-4" />
+                <AlertDescription>
+                  Map a column to {missingFields.map(field => field.label).join(', ')} to continue
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Badge className="bg-green-600">{validRows.length} ready</Badge>
+              {invalidRows.length > 0 && <Badge variant="destructive">{invalidRows.length} with errors</Badge>}
+            </div>
+            <div className="max-h-80 overflow-y-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-slate-600 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 w-16">Row</th>
+                    <th className="px-3 py-2">{fields[0].label}</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.row} className="border-t align-top">
+                      <td className="px-3 py-2 text-slate-500">{row.row}</td>
+                      <td className="px-3 py-2">{row.label}</td>
+                      <td className="px-3 py-2">
+                        {row.record ? (
+                          <span className="text-green-700">Ready</span>
+                        ) : (
+                          <ul className="text-red-600 space-y-0.5">
+                            {row.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {invalidRows.length > 0 && validRows.length > 0 && (
+              <p className="text-sm text-slate-500">Rows with errors are skipped. Fix them in the file and import it again.</p>
+            )}
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="space-y-3 py-6">
+            <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+            <p className="text-sm text-slate-600 text-center">
+              Importing {progress.done} of {progress.total} {names.plural}...
+            </p>
+          </div>
+        )}
+
+        {step === 'report' && (
+          <div className="space-y-4">
+            <div className="flex gap-2 flex-wrap">
+              <Badge className="bg-green-600">{succeeded.length} imported</Badge>
+              {failed.length > 0 && <Badge variant="destructive">{failed.length} failed</Badge>}
+              {invalidRows.length > 0 && <Badge variant="secondary">{invalidRows.length} skipped</Badge>}
+            </div>
+            <ul className="max-h-80 overflow-y-auto border rounded-md divide-y text-sm">
+              {results.map(result => (
+                <li key={result.item.row} className="px-3 py-2 flex items-start gap-2">
+                  {result.ok ? (
+                    <CheckCircle2 className="w-4 h-4 text-green-600 mt-0.5 shrink-0" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-600 mt-0.5 shrink-0" />
+                  )}
+                  <span className="text-slate-500 w-14 shrink-0">Row {result.item.row}</span>
+                  <span className="flex-1">
+                    {result.item.label}
+                    {!result.ok && <span className="block text-red-600">{result.error}</span>}
+                  </span>
+                </li>
+              ))}
+              {invalidRows.map(row => (
+                <li key={row.row} className="px-3 py-2 flex items-start gap-2 text-slate-500">
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span className="w-14 shrink-0">Row {row.row}</span>
+                  <span className="flex-1">{row.label} (skipped: {row.errors.join('; ')})</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button onClick={handleValidate} disabled={missingFields.length > 0} className="bg-orange-600 hover:bg-orange-700">
+                Validate rows
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>Back</Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0} className="bg-orange-600 hover:bg-orange-700">
+                Import {validRows.length} {validRows.length === 1 ? names.singular : names.plural}
+              </Button>
+            </>
+          )}
+          {step === 'report' && <Button onClick={() => handleOpenChange(false)}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog';
+import { buttonVariants } from './ui/button';
+
+type ConfirmDeleteDialogProps = {
+  // What is about to be deleted, e.g. "Golden Triangle Tour"; the dialog is open while it is set
+  label: string | null;
+  noun: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+export function ConfirmDeleteDialog({ label, noun, onConfirm, onCancel }: ConfirmDeleteDialogProps) {
+  return (
+    <AlertDialog open={label !== null} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this {noun.toLowerCase()}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            "{label}" will be removed. You can undo right after deleting, and restore it from the trash later.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={onConfirm}>
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
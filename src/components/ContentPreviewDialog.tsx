@@ -0,0 +1,47 @@
+import { Experience, Itinerary, DestinationImage, Update } from '../App';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { ExperienceViewer } from './ExperienceViewer';
+import { ItineraryViewer } from './ItineraryViewer';
+import { ImageViewer } from './ImageViewer';
+import { UpdatesViewer } from './UpdatesViewer';
+import { StatusBadge } from './StatusBadge';
+
+export type PreviewTarget =
+  | { type: 'experience'; item: Experience }
+  | { type: 'itinerary'; item: Itinerary }
+  | { type: 'image'; item: DestinationImage }
+  | { type: 'update'; item: Update };
+
+type ContentPreviewDialogProps = {
+  target: PreviewTarget | null;
+  onClose: () => void;
+};
+
+// Renders a record through the same viewer users get, whatever its status
+export function ContentPreviewDialog({ target, onClose }: ContentPreviewDialogProps) {
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Preview
+            {target && <StatusBadge status={target.item.status} />}
+          </DialogTitle>
+          <DialogDescription>
+            This is how users will see it once it is published.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50 rounded-lg p-6">
+          {target?.type === 'experience' && <ExperienceViewer experiences={[target.item]} />}
+          {target?.type === 'itinerary' && <ItineraryViewer itineraries={[target.item]} />}
+          {target?.type === 'image' && <ImageViewer images={[target.item]} />}
+          {target?.type === 'update' && (
+            <div className="h-96 max-w-sm mx-auto">
+              <UpdatesViewer updates={[target.item]} />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
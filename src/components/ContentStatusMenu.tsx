@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { ContentStatus } from '../App';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import { ChevronDown, Eye, Loader2 } from 'lucide-react';
+import { STATUS_BADGE_CLASSES, STATUS_LABELS, STATUS_TRANSITIONS } from '../services/workflow';
+
+type ContentStatusMenuProps = {
+  status: ContentStatus;
+  onTransition: (to: ContentStatus) => Promise<void> | void;
+  onPreview: () => void;
+  // Users who may not manage the record can still preview it but not move it
+  readOnly?: boolean;
+  className?: string;
+};
+
+// Shows where a record is in the workflow and offers the moves allowed from there
+export function ContentStatusMenu({ status, onTransition, onPreview, readOnly = false, className = '' }: ContentStatusMenuProps) {
+  const [isChanging, setIsChanging] = useState(false);
+
+  const handleTransition = async (to: ContentStatus) => {
+    setIsChanging(true);
+    try {
+      await onTransition(to);
+    } finally {
+      setIsChanging(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={isChanging}
+          className={`${STATUS_BADGE_CLASSES[status]} ${className}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {isChanging && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          {STATUS_LABELS[status]}
+          <ChevronDown className="w-3 h-3 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {!readOnly && (
+          <>
+            <DropdownMenuLabel className="text-xs text-slate-500">Move to</DropdownMenuLabel>
+            {STATUS_TRANSITIONS[status].map(transition => (
+              <DropdownMenuItem key={transition.to} onSelect={() => handleTransition(transition.to)}>
+                {transition.label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+          </>
+        )}
+        <DropdownMenuItem onSelect={onPreview}>
+          <Eye />
+          Preview as user
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { CalendarClock, X } from 'lucide-react';
+
+type DateTimePickerProps = {
+  id?: string;
+  value?: number | null;
+  onChange: (value: number | null) => void;
+  placeholder?: string;
+};
+
+const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+
+const timeOf = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+export const formatDateTime = (time: number) =>
+  new Date(time).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// A day from the calendar plus a local time of day; picking a day alone means midnight
+export function DateTimePicker({ id, value, onChange, placeholder = 'Not set' }: DateTimePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const selected = value ? new Date(value) : undefined;
+
+  const combine = (day: Date, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours || 0, minutes || 0).getTime();
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button id={id} type="button" variant="outline" className="flex-1 justify-start font-normal">
+            <CalendarClock className="w-4 h-4 mr-2 text-slate-500" />
+            {value ? formatDateTime(value) : <span className="text-slate-500">{placeholder}</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={selected}
+            onSelect={day => day && onChange(combine(day, selected ? timeOf(selected) : '00:00'))}
+            defaultMonth={selected}
+          />
+          <div className="flex items-center gap-2 border-t p-3">
+            <Input
+              type="time"
+              aria-label="Time"
+              value={selected ? timeOf(selected) : ''}
+              disabled={!selected}
+              onChange={(e) => selected && e.target.value && onChange(combine(selected, e.target.value))}
+              className="h-8"
+            />
+            <Button type="button" size="sm" onClick={() => setIsOpen(false)}>
+              Done
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button type="button" variant="ghost" size="icon" onClick={() => onChange(null)} aria-label="Clear">
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
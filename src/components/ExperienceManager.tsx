@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react';
-import { AppData, Experience, Region } from '../App';
-import { experiencesAPI } from '../services/api';
+import { Experience, Region, ContentStatus, Schedule } from '../App';
+import { experiencesAPI, ResourceInput } from '../services/api';
+import { PaginatedListing } from '../hooks/usePaginatedResource';
+import { useTrash, useSoftDelete } from '../hooks/useTrash';
+import { useSelection } from '../hooks/useSelection';
+import { usePermissions } from '../hooks/usePermissions';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -9,52 +13,55 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
 import { Plus, Edit, Trash2, Sparkles, Upload, X } from 'lucide-react';
 import { toast } from 'sonner';
+import { PaginationControls } from './PaginationControls';
+import { BulkImportWizard } from './BulkImportWizard';
+import { ContentStatusMenu } from './ContentStatusMenu';
+import { ContentPreviewDialog, PreviewTarget } from './ContentPreviewDialog';
+import { ScheduleFields } from './ScheduleFields';
+import { RevisionHistory } from './RevisionHistory';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { BulkActionBar } from './BulkActionBar';
+import { STATUS_LABELS, scheduleProblem, pickSchedule, appendSchedule, transitionProblem } from '../services/workflow';
 
 type ExperienceManagerProps = {
-  data: AppData;
-  onUpdateData: (data: AppData) => void;
+  listing: PaginatedListing<Experience>;
 };
 
-export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps) {
-  const [experiences, setExperiences] = useState(data.experiences || []);
+export function ExperienceManager({ listing }: ExperienceManagerProps) {
+  const { can, regions, defaultRegion } = usePermissions();
+  const canManage = (experience?: Experience) => can('experiences.manage', experience);
+  // Experiences deleted moments ago stay hidden while their undo toast is showing
+  const { isPending } = useTrash();
+  const experiences = listing.items.filter(experience => !isPending('experiences', experience.id));
+  const deleteExperience = useSoftDelete('experiences', 'Experience', listing.refresh);
+  const selectable = experiences.filter(experience => canManage(experience));
+  const selection = useSelection(selectable.map(experience => experience.id));
+  const [deleteTarget, setDeleteTarget] = useState<Experience | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingExperience, setEditingExperience] = useState<Experience | null>(null);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string>('');
   const [formData, setFormData] = useState({
     destination: '',
-    region: 'North' as Region,
+    region: defaultRegion,
     title: '',
     description: '',
     highlights: '',
     imageUrl: ''
   });
-  const [isLoading, setIsLoading] = useState(false);
+  const [schedule, setSchedule] = useState<Schedule>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
+  const isLoading = listing.isLoading || isSaving;
 
   useEffect(() => {
-    fetchExperiences();
-  }, []);
-
-  const fetchExperiences = async () => {
-    setIsLoading(true);
-    try {
-      const response = await experiencesAPI.getAll();
-      const experiencesData = response.data || response; // Handle both formats
-      setExperiences(experiencesData);
-      // Also update the parent data
-      onUpdateData({
-        ...data,
-        experiences: experiencesData
-      });
-    } catch (error) {
+    if (listing.error) {
       toast.error('Failed to load experiences');
-      console.error('Error fetching experiences:', error);
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [listing.error]);
 
   const isNew = (createdAt: number) => {
     const twoDaysAgo = Date.now() - (2 * 24 * 60 * 60 * 1000);
@@ -62,7 +69,8 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
   };
 
   const resetForm = () => {
-    setFormData({ destination: '', region: 'North', title: '', description: '', highlights: '', imageUrl: '' });
+    setFormData({ destination: '', region: defaultRegion, title: '', description: '', highlights: '', imageUrl: '' });
+    setSchedule({});
     setEditingExperience(null);
     setSelectedImage(null);
     setImagePreview('');
@@ -83,6 +91,7 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
       highlights: experience.highlights.join('\n'),
       imageUrl: experience.imageUrl || ''
     });
+    setSchedule(pickSchedule(experience));
     setImagePreview(experience.imageUrl || '');
     setIsDialogOpen(true);
   };
@@ -132,16 +141,25 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
     setFormData({ ...formData, imageUrl: '' });
   };
 
-  const handleDeleteExperience = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this experience?')) {
-      try {
-        await experiencesAPI.delete(id);
-        await fetchExperiences(); // Refresh the list
-        toast.success('Experience deleted successfully');
-      } catch (error) {
-        console.error('Error deleting experience:', error);
-        toast.error('Failed to delete experience');
-      }
+  const handleDeleteExperience = () => {
+    if (!deleteTarget) return;
+    deleteExperience(deleteTarget);
+    setDeleteTarget(null);
+  };
+
+  const handleStatusChange = async (experience: Experience, status: ContentStatus) => {
+    const problem = transitionProblem(experience.status, status);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    try {
+      await experiencesAPI.patch(experience.id, { status });
+      await listing.refresh();
+      toast.success(`Experience moved to ${STATUS_LABELS[status]}`);
+    } catch (error) {
+      console.error('Error changing experience status:', error);
+      toast.error('Failed to change experience status');
     }
   };
 
@@ -151,12 +169,18 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
+
+    const scheduleError = scheduleProblem(schedule);
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+    setIsSaving(true);
 
     try {
       const highlights = formData.highlights.split('\n').filter(h => h.trim());
       
-      let experienceData: any;
+      let experienceData: FormData | ResourceInput<Experience>;
 
       // If there's a file selected, use FormData
       if (selectedImage) {
@@ -167,6 +191,8 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
         formDataToSend.append('title', formData.title);
         formDataToSend.append('description', formData.description);
         formDataToSend.append('highlights', JSON.stringify(highlights));
+        formDataToSend.append('status', editingExperience?.status || 'draft');
+        appendSchedule(formDataToSend, schedule);
         
         experienceData = formDataToSend;
       } else {
@@ -177,7 +203,9 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
           title: formData.title,
           description: formData.description,
           highlights,
-          imageUrl: formData.imageUrl || ''
+          imageUrl: formData.imageUrl || '',
+          status: editingExperience?.status || 'draft',
+          ...pickSchedule(schedule)
         };
       }
 
@@ -192,14 +220,14 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
       }
 
       // Refresh the list
-      await fetchExperiences();
+      await listing.refresh();
       setIsDialogOpen(false);
       resetForm();
     } catch (error) {
       console.error('Error saving experience:', error);
       toast.error(`Failed to ${editingExperience ? 'update' : 'add'} experience`);
     } finally {
-      setIsLoading(false);
+      setIsSaving(false);
     }
   };
 
@@ -210,163 +238,173 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
           <h2 className="text-slate-900 font-semibold text-xl">Experiences</h2>
           <p className="text-slate-600">Manage travel experiences and activities</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={handleAdd} className="bg-orange-600 hover:bg-orange-700">
-              <Plus className="w-4 h-4 mr-2" />
-              Add Experience
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>{editingExperience ? 'Edit Experience' : 'Add New Experience'}</DialogTitle>
-              <DialogDescription>
-                {editingExperience ? 'Update the experience details' : 'Fill in the details for the new experience'}
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {/* Image Upload Section */}
-              <div className="space-y-3">
-                <Label>Experience Image</Label>
-                
-                {imagePreview ? (
-                  <div className="relative">
-                    <img 
-                      src={imagePreview} 
-                      alt="Preview" 
-                      className="w-full h-48 object-cover rounded-lg border"
-                    />
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="sm"
-                      className="absolute top-2 right-2"
-                      onClick={removeImage}
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                ) : (
-                  <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
-                    <Upload className="w-8 h-8 mx-auto text-gray-400 mb-2" />
-                    <p className="text-sm text-gray-600 mb-3">Upload an image or enter image URL</p>
-                  </div>
-                )}
-
-                <div className="grid grid-cols-1 gap-3">
-                  <div>
-                    <Label htmlFor="imageFile" className="text-sm">Upload Image File</Label>
-                    <Input
-                      id="imageFile"
-                      type="file"
-                      accept="image/*"
-                      onChange={handleImageSelect}
-                      className="mt-1"
-                    />
-                  </div>
+        <div className="flex items-center gap-2">
+          {canManage() && <BulkImportWizard kind="experiences" onImported={listing.refresh} />}
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            {canManage() && (
+              <DialogTrigger asChild>
+                <Button onClick={handleAdd} className="bg-orange-600 hover:bg-orange-700">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Experience
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingExperience ? 'Edit Experience' : 'Add New Experience'}</DialogTitle>
+                <DialogDescription>
+                  {editingExperience ? 'Update the experience details' : 'Fill in the details for the new experience. It stays a draft until published.'}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {/* Image Upload Section */}
+                <div className="space-y-3">
+                  <Label>Experience Image</Label>
                   
-                  <div className="relative">
-                    <div className="absolute inset-0 flex items-center">
-                      <span className="w-full border-t" />
+                  {imagePreview ? (
+                    <div className="relative">
+                      <img 
+                        src={imagePreview} 
+                        alt="Preview" 
+                        className="w-full h-48 object-cover rounded-lg border"
+                      />
+                      <Button
+                        type="button"
+                        variant="destructive"
+                        size="sm"
+                        className="absolute top-2 right-2"
+                        onClick={removeImage}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+                      <Upload className="w-8 h-8 mx-auto text-gray-400 mb-2" />
+                      <p className="text-sm text-gray-600 mb-3">Upload an image or enter image URL</p>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 gap-3">
+                    <div>
+                      <Label htmlFor="imageFile" className="text-sm">Upload Image File</Label>
+                      <Input
+                        id="imageFile"
+                        type="file"
+                        accept="image/*"
+                        onChange={handleImageSelect}
+                        className="mt-1"
+                      />
+                    </div>
+                    
+                    <div className="relative">
+                      <div className="absolute inset-0 flex items-center">
+                        <span className="w-full border-t" />
+                      </div>
+                      <div className="relative flex justify-center text-xs uppercase">
+                        <span className="bg-background px-2 text-muted-foreground">Or</span>
+                      </div>
                     </div>
-                    <div className="relative flex justify-center text-xs uppercase">
-                      <span className="bg-background px-2 text-muted-foreground">Or</span>
+
+                    <div>
+                      <Label htmlFor="imageUrl" className="text-sm">Image URL (Direct Link)</Label>
+                      <Input
+                        id="imageUrl"
+                        type="url"
+                        value={formData.imageUrl}
+                        onChange={(e) => handleImageUrlChange(e.target.value)}
+                        placeholder="https://example.com/image.jpg or .png"
+                        className="mt-1"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Must be a direct image link ending with .jpg, .png, etc.
+                      </p>
                     </div>
                   </div>
+                </div>
 
-                  <div>
-                    <Label htmlFor="imageUrl" className="text-sm">Image URL (Direct Link)</Label>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="destination">Destination</Label>
                     <Input
-                      id="imageUrl"
-                      type="url"
-                      value={formData.imageUrl}
-                      onChange={(e) => handleImageUrlChange(e.target.value)}
-                      placeholder="https://example.com/image.jpg or .png"
-                      className="mt-1"
+                      id="destination"
+                      value={formData.destination}
+                      onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
+                      placeholder="e.g., Goa, Ladakh, Kerala"
+                      required
                     />
-                    <p className="text-xs text-gray-500 mt-1">
-                      Must be a direct image link ending with .jpg, .png, etc.
-                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="region">Region</Label>
+                    <Select value={formData.region} onValueChange={(value) => setFormData({ ...formData, region: value as Region })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {regions.map(region => (
+                          <SelectItem key={region} value={region}>{region} India</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                 </div>
-              </div>
 
-              <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="destination">Destination</Label>
+                  <Label htmlFor="title">Experience Title</Label>
                   <Input
-                    id="destination"
-                    value={formData.destination}
-                    onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
-                    placeholder="e.g., Goa, Ladakh, Kerala"
+                    id="title"
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    placeholder="e.g., Coastal Paradise & Beach Vibes"
                     required
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="region">Region</Label>
-                  <Select value={formData.region} onValueChange={(value) => setFormData({ ...formData, region: value as Region })}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="North">North India</SelectItem>
-                      <SelectItem value="South">South India</SelectItem>
-                      <SelectItem value="East">East India</SelectItem>
-                      <SelectItem value="West">West India</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Describe the experience in detail..."
+                    rows={4}
+                    required
+                  />
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="title">Experience Title</Label>
-                <Input
-                  id="title"
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  placeholder="e.g., Coastal Paradise & Beach Vibes"
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Describe the experience in detail..."
-                  rows={4}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="highlights">Highlights (one per line)</Label>
-                <Textarea
-                  id="highlights"
-                  value={formData.highlights}
-                  onChange={(e) => setFormData({ ...formData, highlights: e.target.value })}
-                  placeholder="Beach hopping at Baga & Anjuna&#10;Water sports & parasailing&#10;Visit historic churches"
-                  rows={6}
-                  required
-                />
-              </div>
-
-              <div className="flex gap-2 justify-end pt-4">
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit" className="bg-orange-600 hover:bg-orange-700">
-                  {editingExperience ? 'Update' : 'Add'} Experience
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+
+                <div className="space-y-2">
+                  <Label htmlFor="highlights">Highlights (one per line)</Label>
+                  <Textarea
+                    id="highlights"
+                    value={formData.highlights}
+                    onChange={(e) => setFormData({ ...formData, highlights: e.target.value })}
+                    placeholder="Beach hopping at Baga & Anjuna&#10;Water sports & parasailing&#10;Visit historic churches"
+                    rows={6}
+                    required
+                  />
+                </div>
+
+                <ScheduleFields value={schedule} onChange={setSchedule} />
+
+                <div className="flex gap-2 justify-end pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="bg-orange-600 hover:bg-orange-700">
+                    {editingExperience ? 'Update' : 'Add'} Experience
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      {!isLoading && (
+        <BulkActionBar type="experiences" items={selectable} selection={selection} onDone={listing.refresh} />
+      )}
+
       {isLoading ? (
         <div className="text-center py-12">
           <p className="text-slate-500">Loading experiences...</p>
@@ -422,22 +460,42 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
                   </div>
 
                   <div className="flex gap-2 pt-4 border-t">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleEdit(experience)}
-                    >
-                      <Edit className="w-4 h-4 mr-1" />
-                      Edit
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="destructive"
-                      onClick={() => handleDeleteExperience(experience.id)}
-                    >
-                      <Trash2 className="w-4 h-4 mr-1" />
-                      Delete
-                    </Button>
+                    {canManage(experience) && (
+                      <Checkbox
+                        checked={selection.isSelected(experience.id)}
+                        onClick={(e) => selection.toggle(experience.id, e.shiftKey)}
+                        aria-label={`Select ${experience.title}`}
+                        className="self-center"
+                      />
+                    )}
+                    <ContentStatusMenu
+                      status={experience.status}
+                      onTransition={(status) => handleStatusChange(experience, status)}
+                      onPreview={() => setPreviewTarget({ type: 'experience', item: experience })}
+                      readOnly={!canManage(experience)}
+                      className="mr-auto"
+                    />
+                    {canManage(experience) && (
+                      <>
+                        <RevisionHistory type="experiences" record={experience} client={experiencesAPI} onRestored={listing.refresh} />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleEdit(experience)}
+                        >
+                          <Edit className="w-4 h-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => setDeleteTarget(experience)}
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Delete
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -446,6 +504,10 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
         </div>
       )}
 
+      {!isLoading && (
+        <PaginationControls page={listing.page} pageCount={listing.pageCount} onPageChange={listing.setPage} />
+      )}
+
       {experiences.length === 0 && !isLoading && (
         <Card>
           <CardContent className="text-center py-12">
@@ -453,6 +515,14 @@ export function ExperienceManager({ data, onUpdateData }: ExperienceManagerProps
           </CardContent>
         </Card>
       )}
+
+      <ContentPreviewDialog target={previewTarget} onClose={() => setPreviewTarget(null)} />
+      <ConfirmDeleteDialog
+        label={deleteTarget ? deleteTarget.title : null}
+        noun="Experience"
+        onConfirm={handleDeleteExperience}
+        onCancel={() => setDeleteTarget(null)}
+      />
     </div>
   );
 }
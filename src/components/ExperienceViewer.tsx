@@ -2,12 +2,21 @@ import { Experience } from '../App';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { MapPin } from 'lucide-react';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { HighlightedText } from './HighlightedText';
+import { FavouriteButton } from './FavouriteButton';
 
 type ExperienceViewerProps = {
   experiences: Experience[];
+  // Infinite scroll: provided when the list is paged from the server
+  hasMore?: boolean;
+  isLoading?: boolean;
+  onLoadMore?: () => void;
+  highlight?: string[]; // search terms to mark in titles, descriptions and highlights
+  canFavourite?: boolean; // heart toggles for travellers saving items to My Trips
 };
 
-export function ExperienceViewer({ experiences }: ExperienceViewerProps) {
+export function ExperienceViewer({ experiences, hasMore = false, isLoading = false, onLoadMore, highlight, canFavourite = false }: ExperienceViewerProps) {
   const isNew = (createdAt: number) => {
     const twoDaysAgo = Date.now() - (2 * 24 * 60 * 60 * 1000);
     return createdAt > twoDaysAgo;
@@ -52,6 +61,9 @@ export function ExperienceViewer({ experiences }: ExperienceViewerProps) {
                   e.currentTarget.src = 'https://images.unsplash.com/photo-1524492412937-b28074a5d7da?w=400&h=250&fit=crop';
                 }}
               />
+              {canFavourite && (
+                <FavouriteButton type="experiences" record={experience} className="absolute top-3 left-3" />
+              )}
               {/* NEW badge in top-right */}
               {isNew(experience.createdAt) && (
                 <div className="absolute top-3 right-3">
@@ -72,18 +84,22 @@ export function ExperienceViewer({ experiences }: ExperienceViewerProps) {
 
             {/* Content Section */}
             <CardHeader className="pb-3">
-              <CardTitle className="text-lg line-clamp-2">{experience.title}</CardTitle>
-              <CardDescription className="text-sm line-clamp-3">{experience.description}</CardDescription>
+              <CardTitle className="text-lg line-clamp-2">
+                <HighlightedText text={experience.title} terms={highlight} />
+              </CardTitle>
+              <CardDescription className="text-sm line-clamp-3">
+                <HighlightedText text={experience.description} terms={highlight} />
+              </CardDescription>
             </CardHeader>
             
             <CardContent className="pt-0">
               <div>
                 <p className="text-slate-700 mb-2 text-sm font-medium">Highlights:</p>
                 <ul className="space-y-1">
-                  {experience.highlights.map((highlight, idx) => (
+                  {experience.highlights.map((item, idx) => (
                     <li key={idx} className="text-slate-600 flex items-start gap-2 text-sm">
                       <span className="text-orange-500 mt-1 text-xs">•</span>
-                      <span className="line-clamp-1">{highlight}</span>
+                      <HighlightedText text={item} terms={highlight} className="line-clamp-1" />
                     </li>
                   ))}
                 </ul>
@@ -93,7 +109,11 @@ export function ExperienceViewer({ experiences }: ExperienceViewerProps) {
         ))}
       </div>
 
-      {experiences.length === 0 && (
+      {onLoadMore && (
+        <LoadMoreTrigger hasMore={hasMore} isLoading={isLoading} onLoadMore={onLoadMore} />
+      )}
+
+      {experiences.length === 0 && !isLoading && (
         <Card>
           <CardContent className="text-center py-12">
             <p className="text-slate-500">No experiences available.</p>
@@ -0,0 +1,34 @@
+import { Heart } from 'lucide-react';
+import { toast } from 'sonner';
+import { useTrips } from '../hooks/useTrips';
+import type { FavouriteInput } from '../services/trips';
+
+type FavouriteButtonProps = FavouriteInput & {
+  className?: string;
+};
+
+// Heart toggle laid over a card image; favourites are collected under My Trips
+export function FavouriteButton({ type, record, className }: FavouriteButtonProps) {
+  const { isFavourite, toggleFavourite } = useTrips();
+  const saved = isFavourite(type, record.id);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards such as itineraries open on click
+    e.stopPropagation();
+    const nowSaved = toggleFavourite({ type, record });
+    toast.success(nowSaved ? 'Saved to My Trips' : 'Removed from My Trips');
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={saved}
+      aria-label={saved ? 'Remove from favourites' : 'Add to favourites'}
+      title={saved ? 'Remove from favourites' : 'Add to favourites'}
+      className={`inline-flex h-9 w-9 items-center justify-center rounded-full bg-white/90 shadow-sm transition-colors hover:bg-white ${className || ''}`}
+    >
+      <Heart className={`h-5 w-5 ${saved ? 'fill-rose-500 text-rose-500' : 'text-slate-600'}`} />
+    </button>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertCircle, Loader2, MailCheck } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { AuthCard, AuthLink } from './AuthCard';
+
+type ForgotPasswordPageProps = {
+  initialEmail?: string;
+};
+
+// First half of the reset flow: email a link that opens ResetPasswordPage
+export function ForgotPasswordPage({ initialEmail = '' }: ForgotPasswordPageProps) {
+  const [email, setEmail] = useState(initialEmail);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!email.trim()) {
+      setError('Please enter your email');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authAPI.requestPasswordReset(email.trim());
+      setSentTo(email.trim());
+    } catch (error: any) {
+      setError(error.message || 'Failed to send the reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title="Reset your password"
+      subtitle="We will email you a link to choose a new one"
+      footer={<p>Remembered it? <AuthLink to="/login">Back to log in</AuthLink></p>}
+    >
+      {sentTo ? (
+        <Alert>
+          <MailCheck className="h-4 w-4" />
+          <AlertDescription>
+            If an account exists for <strong>{sentTo}</strong>, a reset link is on its way. It expires in one hour.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="forgot-email">Email</Label>
+            <Input
+              id="forgot-email"
+              type="email"
+              placeholder="Enter your email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white"
+            disabled={loading}
+          >
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              'Send reset link'
+            )}
+          </Button>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
@@ -0,0 +1,34 @@
+type HighlightedTextProps = {
+  text: string;
+  terms?: string[];
+  className?: string;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Renders `text` with every occurrence of the search terms wrapped in <mark>
+export function HighlightedText({ text, terms = [], className }: HighlightedTextProps) {
+  const activeTerms = terms.filter(Boolean);
+  if (activeTerms.length === 0 || !text) {
+    return <span className={className}>{text}</span>;
+  }
+
+  // Longest terms first so "goa" does not split a "goan" match
+  const pattern = new RegExp(
+    `(${[...activeTerms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+  const lowerTerms = activeTerms.map(term => term.toLowerCase());
+
+  return (
+    <span className={className}>
+      {text.split(pattern).map((part, idx) =>
+        lowerTerms.includes(part.toLowerCase()) ? (
+          <mark key={idx} className="bg-yellow-200 text-inherit rounded px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+}
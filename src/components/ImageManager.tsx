@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react';
-import { AppData, DestinationImage, Region } from '../App';
+import { DestinationImage, Region, ContentStatus, Schedule } from '../App';
 import { imagesAPI } from '../services/api';
+import { PaginatedListing } from '../hooks/usePaginatedResource';
+import { useTrash, useSoftDelete } from '../hooks/useTrash';
+import { useSelection } from '../hooks/useSelection';
+import { usePermissions } from '../hooks/usePermissions';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -8,13 +12,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Card, CardContent } from './ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
 import { Plus, Edit, Trash2, MapPin, Filter } from 'lucide-react';
 import { ImageWithFallback } from './figma/ImageWithFallback';
 import { toast } from 'sonner';
+import { PaginationControls } from './PaginationControls';
+import { BulkImportWizard } from './BulkImportWizard';
+import { ContentStatusMenu } from './ContentStatusMenu';
+import { ContentPreviewDialog, PreviewTarget } from './ContentPreviewDialog';
+import { ScheduleFields } from './ScheduleFields';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { BulkActionBar } from './BulkActionBar';
+import { STATUS_LABELS, scheduleProblem, pickSchedule, appendSchedule, transitionProblem } from '../services/workflow';
 
 type ImageManagerProps = {
-  data: AppData;
-  onUpdateData: (data: AppData) => void;
+  listing: PaginatedListing<DestinationImage>;
 };
 
 interface ImageUploadData {
@@ -25,25 +37,36 @@ interface ImageUploadData {
   file?: File;
 }
 
-export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
-  const [images, setImages] = useState(data.images || []);
+export function ImageManager({ listing }: ImageManagerProps) {
+  const { can, regions, defaultRegion } = usePermissions();
+  const canManage = (image?: DestinationImage) => can('images.manage', image);
+  // Images deleted moments ago stay hidden while their undo toast is showing
+  const { isPending } = useTrash();
+  const images = listing.items.filter(image => !isPending('images', image.id));
+  const deleteImage = useSoftDelete('images', 'Image', listing.refresh);
+  const [deleteTarget, setDeleteTarget] = useState<DestinationImage | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingImage, setEditingImage] = useState<DestinationImage | null>(null);
   const [orientationFilter, setOrientationFilter] = useState<'all' | 'landscape' | 'portrait'>('all');
   const [imageOrientations, setImageOrientations] = useState<Record<string, 'landscape' | 'portrait'>>({});
   const [formData, setFormData] = useState({
     destination: '',
-    region: 'North' as Region,
+    region: defaultRegion,
     url: '',
     caption: ''
   });
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [schedule, setSchedule] = useState<Schedule>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const isLoading = listing.isLoading || isSaving;
 
   useEffect(() => {
-    fetchImages();
-  }, []);
+    if (listing.error) {
+      toast.error('Failed to load images');
+    }
+  }, [listing.error]);
 
   const isNew = (createdAt: number) => {
     const twoDaysAgo = Date.now() - (2 * 24 * 60 * 60 * 1000);
@@ -64,8 +87,14 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
     });
   };
 
+  // Select all covers the images left after the orientation filter
+  const filteredImages = getFilteredImages();
+  const selectable = filteredImages.filter(image => canManage(image));
+  const selection = useSelection(selectable.map(image => image.id));
+
   const resetForm = () => {
-    setFormData({ destination: '', region: 'North', url: '', caption: '' });
+    setFormData({ destination: '', region: defaultRegion, url: '', caption: '' });
+    setSchedule({});
     setEditingImage(null);
     setUploadedFile(null);
   };
@@ -83,28 +112,33 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
       url: image.url,
       caption: image.caption
     });
+    setSchedule(pickSchedule(image));
     setUploadedFile(null);
     setIsDialogOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this image?')) {
-      setIsLoading(true);
-      try {
-        await imagesAPI.delete(id);
-        const newImages = images.filter(img => img.id !== id);
-        setImages(newImages);
-        onUpdateData({ ...data, images: newImages });
-        toast.success('Image deleted successfully');
-      } catch (error) {
-        toast.error('Failed to delete image');
-        console.error('Error deleting image:', error);
-      } finally {
-        setIsLoading(false);
-      }
+  const handleStatusChange = async (image: DestinationImage, status: ContentStatus) => {
+    const problem = transitionProblem(image.status, status);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    try {
+      await imagesAPI.patch(image.id, { status });
+      await listing.refresh();
+      toast.success(`Image moved to ${STATUS_LABELS[status]}`);
+    } catch (error) {
+      console.error('Error changing image status:', error);
+      toast.error('Failed to change image status');
     }
   };
 
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+    deleteImage(deleteTarget);
+    setDeleteTarget(null);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -122,27 +156,8 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
     }
   };
 
-  const fetchImages = async () => {
-    setIsLoading(true);
-    try {
-      const response = await imagesAPI.getAll();
-      const imageData = response.data || response || [];
-      setImages(imageData);
-      onUpdateData({
-        ...data,
-        images: imageData
-      });
-    } catch (error) {
-      toast.error('Failed to load images');
-      console.error('Error fetching images:', error);
-      setImages([]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const handleUploadImage = async (imageData: ImageUploadData) => {
-    setIsLoading(true);
+    setIsSaving(true);
     setUploadProgress(0);
 
     try {
@@ -151,6 +166,8 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
       formData.append('destination', imageData.destination);
       formData.append('region', imageData.region);
       formData.append('caption', imageData.caption);
+      formData.append('status', 'draft');
+      appendSchedule(formData, schedule);
       
       // If user uploaded a file, send it to Cloudinary via backend
       if (imageData.file) {
@@ -165,29 +182,13 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
       }
 
       // Upload to backend (which will upload to Cloudinary if file is provided)
-      const response = await fetch(`${process.env.REACT_APP_API_URL}/images`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
-          // Don't set Content-Type for FormData - browser will set it with boundary
-        },
-        body: formData
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Upload failed' }));
-        throw new Error(errorData.error || 'Failed to upload image');
-      }
-      
-      const result = await response.json();
-      console.log('Upload response:', result);
+      const createdImage = await imagesAPI.create(formData);
+      console.log('Upload response:', createdImage);
       
-      if (!result.success || !result.data) {
+      if (!createdImage) {
         throw new Error('Invalid response from server');
       }
 
-      const createdImage = result.data;
-
       // Validate that we got a proper URL
       if (!createdImage.url) {
         throw new Error('No image URL received from server');
@@ -202,13 +203,13 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
       }
 
       // Refresh images from backend to ensure sync
-      await fetchImages();
+      await listing.refresh();
       
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to upload image');
       console.error('Error uploading image:', error);
     } finally {
-      setIsLoading(false);
+      setIsSaving(false);
       setUploadProgress(0);
     }
   };
@@ -222,14 +223,21 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
       return;
     }
 
+    const scheduleError = scheduleProblem(schedule);
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+
     if (editingImage) {
       // Handle update
       try {
-        setIsLoading(true);
+        setIsSaving(true);
         const formDataToSend = new FormData();
         formDataToSend.append('destination', formData.destination);
         formDataToSend.append('region', formData.region);
         formDataToSend.append('caption', formData.caption);
+        appendSchedule(formDataToSend, schedule);
         
         if (uploadedFile) {
           formDataToSend.append('image', uploadedFile);
@@ -239,36 +247,23 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
           console.log('Updating with URL:', formData.url);
         }
 
-        const response = await fetch(`${process.env.REACT_APP_API_URL}/images/${editingImage.id}`, {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('authToken')}`
-          },
-          body: formDataToSend
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: 'Update failed' }));
-          throw new Error(errorData.error || 'Failed to update');
-        }
-        
-        const result = await response.json();
-        console.log('Update response:', result);
+        const updatedImage = await imagesAPI.update(editingImage.id, formDataToSend);
+        console.log('Update response:', updatedImage);
         
-        if (!result.success || !result.data) {
+        if (!updatedImage) {
           throw new Error('Invalid response from server');
         }
 
         toast.success('Image updated successfully');
         
         // Refresh images from backend
-        await fetchImages();
+        await listing.refresh();
         
       } catch (error) {
         toast.error(error instanceof Error ? error.message : 'Failed to update image');
         console.error('Update error:', error);
       } finally {
-        setIsLoading(false);
+        setIsSaving(false);
       }
     } else {
       // Handle create - use handleUploadImage
@@ -315,18 +310,21 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
               </SelectContent>
             </Select>
           </div>
+          {canManage() && <BulkImportWizard kind="images" onImported={listing.refresh} />}
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={handleAdd} className="bg-cyan-600 hover:bg-cyan-700">
-                <Plus className="w-4 h-4 mr-2" />
-                Add Image
-              </Button>
-            </DialogTrigger>
+            {canManage() && (
+              <DialogTrigger asChild>
+                <Button onClick={handleAdd} className="bg-cyan-600 hover:bg-cyan-700">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Image
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="max-w-2xl">
             <DialogHeader>
               <DialogTitle>{editingImage ? 'Edit Image' : 'Add New Image'}</DialogTitle>
               <DialogDescription>
-                {editingImage ? 'Update the image details' : 'Upload an image from your computer or provide a URL'}
+                {editingImage ? 'Update the image details' : 'Upload an image from your computer or provide a URL. It stays a draft until published.'}
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -349,10 +347,9 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="North">North India</SelectItem>
-                      <SelectItem value="South">South India</SelectItem>
-                      <SelectItem value="East">East India</SelectItem>
-                      <SelectItem value="West">West India</SelectItem>
+                      {regions.map(region => (
+                        <SelectItem key={region} value={region}>{region} India</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -429,6 +426,8 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
                 </div>
               )}
 
+              <ScheduleFields value={schedule} onChange={setSchedule} />
+
               <div className="flex gap-2 justify-end pt-4">
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancel
@@ -443,8 +442,10 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
         </div>
       </div>
 
+      <BulkActionBar type="images" items={selectable} selection={selection} onDone={listing.refresh} />
+
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {getFilteredImages().map((image) => (
+        {filteredImages.map((image) => (
           <Card key={image.id} className="overflow-hidden hover:shadow-lg transition-shadow">
             <div className="relative group h-64">
               <ImageWithFallback
@@ -467,28 +468,51 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
             <CardContent className="p-4">
               <p className="text-slate-700 mb-4">{image.caption}</p>
               <div className="flex gap-2">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => handleEdit(image)}
-                >
-                  <Edit className="w-4 h-4 mr-1" />
-                  Edit
-                </Button>
-                <Button
-                  size="sm"
-                  variant="destructive"
-                  onClick={() => handleDelete(image.id)}
-                >
-                  <Trash2 className="w-4 h-4 mr-1" />
-                  Delete
-                </Button>
+                {canManage(image) && (
+                  <Checkbox
+                    checked={selection.isSelected(image.id)}
+                    onClick={(e) => selection.toggle(image.id, e.shiftKey)}
+                    aria-label={`Select ${image.caption}`}
+                    className="self-center"
+                  />
+                )}
+                <ContentStatusMenu
+                  status={image.status}
+                  onTransition={(status) => handleStatusChange(image, status)}
+                  onPreview={() => setPreviewTarget({ type: 'image', item: image })}
+                  readOnly={!canManage(image)}
+                  className="mr-auto"
+                />
+                {canManage(image) && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleEdit(image)}
+                    >
+                      <Edit className="w-4 h-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => setDeleteTarget(image)}
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Delete
+                    </Button>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      {!isLoading && (
+        <PaginationControls page={listing.page} pageCount={listing.pageCount} onPageChange={listing.setPage} />
+      )}
+
       {images.length === 0 && !isLoading && (
         <Card>
           <CardContent className="text-center py-12">
@@ -498,6 +522,14 @@ export function ImageManager({ data, onUpdateData }: ImageManagerProps) {
       )}
         </>
       )}
+
+      <ContentPreviewDialog target={previewTarget} onClose={() => setPreviewTarget(null)} />
+      <ConfirmDeleteDialog
+        label={deleteTarget ? deleteTarget.caption : null}
+        noun="Image"
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
     </div>
   );
 }
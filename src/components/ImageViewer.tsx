@@ -7,12 +7,21 @@ import { MapPin, Download, Filter } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { ImageWithFallback } from './figma/ImageWithFallback';
 import { toast } from 'sonner';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { HighlightedText } from './HighlightedText';
+import { FavouriteButton } from './FavouriteButton';
 
 type ImageViewerProps = {
   images: DestinationImage[];
+  // Infinite scroll: provided when the list is paged from the server
+  hasMore?: boolean;
+  isLoading?: boolean;
+  onLoadMore?: () => void;
+  highlight?: string[]; // search terms to mark in captions
+  canFavourite?: boolean; // heart toggles for travellers saving items to My Trips
 };
 
-export function ImageViewer({ images }: ImageViewerProps) {
+export function ImageViewer({ images, hasMore = false, isLoading = false, onLoadMore, highlight, canFavourite = false }: ImageViewerProps) {
   const [orientationFilter, setOrientationFilter] = useState<'all' | 'landscape' | 'portrait'>('all');
   const [imageOrientations, setImageOrientations] = useState<Record<string, 'landscape' | 'portrait'>>({});
 
@@ -100,6 +109,9 @@ export function ImageViewer({ images }: ImageViewerProps) {
                   {image.region}
                 </Badge>
               </div>
+              {canFavourite && (
+                <FavouriteButton type="images" record={image} className="absolute top-3 left-3 z-10" />
+              )}
               {/* NEW badge in top-right */}
               {isNew(image.createdAt) && (
                 <div className="absolute top-3 right-3">
@@ -119,12 +131,18 @@ export function ImageViewer({ images }: ImageViewerProps) {
               </div>
             </div>
             <CardContent className="p-4">
-              <p className="text-slate-700">{image.caption}</p>
+              <p className="text-slate-700">
+                <HighlightedText text={image.caption} terms={highlight} />
+              </p>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      {onLoadMore && (
+        <LoadMoreTrigger hasMore={hasMore} isLoading={isLoading} onLoadMore={onLoadMore} />
+      )}
+
       {filteredImages.length === 0 && images.length > 0 && (
         <Card>
           <CardContent className="text-center py-12">
@@ -141,7 +159,7 @@ export function ImageViewer({ images }: ImageViewerProps) {
         </Card>
       )}
 
-      {images.length === 0 && (
+      {images.length === 0 && !isLoading && (
         <Card>
           <CardContent className="text-center py-12">
             <p className="text-slate-500">No images available.</p>
@@ -0,0 +1,445 @@
+import { useEffect, useState } from 'react';
+import { Experience, Region } from '../App';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { AlertTriangle, ChevronDown, ChevronUp, GripVertical, Heart, MapPin, Plus, Compass, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useTrips } from '../hooks/useTrips';
+import {
+  PlanDraft,
+  PlanDay,
+  PlanActivity,
+  activityFromExperience,
+  emptyPlanDay,
+  findRegionJumps,
+  toItinerary,
+  validatePlan
+} from '../services/itineraryBuilder';
+
+type ItineraryBuilderProps = {
+  // Where the builder starts: a blank plan, a copy of a published itinerary or one of the traveller's own.
+  // The dialog is open while it is set.
+  start: PlanDraft | null;
+  experiences: Experience[];
+  onClose: () => void;
+  onSaved: () => void;
+};
+
+// What is being dragged; only one thing can be at a time
+type DragItem =
+  | { kind: 'experience'; experience: Experience }
+  | { kind: 'activity'; dayKey: string; activityKey: string }
+  | { kind: 'day'; dayKey: string };
+
+// Dropping on this key starts a new day at the end of the plan
+const NEW_DAY = 'new-day';
+
+const REGIONS: Region[] = ['North', 'South', 'East', 'West'];
+
+export function ItineraryBuilder({ start, experiences, onClose, onSaved }: ItineraryBuilderProps) {
+  const { isFavourite, savePlan } = useTrips();
+  const [plan, setPlan] = useState<PlanDraft | null>(start);
+  const [search, setSearch] = useState('');
+  const [regionFilter, setRegionFilter] = useState<Region | 'All'>('All');
+  const [customActivity, setCustomActivity] = useState<Record<string, string>>({});
+  const [showProblem, setShowProblem] = useState(false);
+  // Only the grip handle starts a day drag, so the rest of the card stays a drop target
+  const [dragHandleKey, setDragHandleKey] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlan(start);
+    setSearch('');
+    setShowProblem(false);
+    setCustomActivity({});
+  }, [start]);
+
+  if (!plan) return null;
+
+  // Favourite experiences first, then by title
+  const term = search.trim().toLowerCase();
+  const palette = experiences
+    .filter(experience => regionFilter === 'All' || experience.region === regionFilter)
+    .filter(experience => !term || `${experience.title} ${experience.destination}`.toLowerCase().includes(term))
+    .sort((a, b) =>
+      Number(isFavourite('experiences', b.id)) - Number(isFavourite('experiences', a.id)) || a.title.localeCompare(b.title)
+    );
+
+  const days = plan.days;
+  const jumps = findRegionJumps(days);
+  const problem = validatePlan(plan);
+
+  const update = (changes: Partial<PlanDraft>) => setPlan({ ...plan, ...changes });
+  const setDays = (next: PlanDay[]) => update({ days: next });
+
+  const updateDay = (key: string, activities: PlanActivity[]) => {
+    setDays(days.map(day => (day.key === key ? { ...day, activities } : day)));
+  };
+
+  const moveDay = (fromIndex: number, toIndex: number) => {
+    if (toIndex < 0 || toIndex >= days.length || fromIndex === toIndex) return;
+    const next = [...days];
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(toIndex, 0, moved);
+    setDays(next);
+  };
+
+  // Puts an activity on a day, before `beforeKey` or at the end; moving one takes it off its old day first
+  const placeActivity = (activity: PlanActivity, dayKey: string, beforeKey: string | null) => {
+    let next = days.map(day => ({
+      ...day,
+      activities: day.activities.filter(item => item.key !== activity.key)
+    }));
+    let targetKey = dayKey;
+    if (dayKey === NEW_DAY) {
+      const newDay = emptyPlanDay();
+      next = [...next, newDay];
+      targetKey = newDay.key;
+    }
+    setDays(next.map(day => {
+      if (day.key !== targetKey) return day;
+      const index = beforeKey ? day.activities.findIndex(item => item.key === beforeKey) : -1;
+      const activities = [...day.activities];
+      activities.splice(index === -1 ? activities.length : index, 0, activity);
+      return { ...day, activities };
+    }));
+  };
+
+  const handleDrop = (dayKey: string, beforeKey: string | null = null) => {
+    if (dragging?.kind === 'experience') {
+      placeActivity(activityFromExperience(dragging.experience), dayKey, beforeKey);
+    } else if (dragging?.kind === 'activity') {
+      const activity = days
+        .find(day => day.key === dragging.dayKey)
+        ?.activities.find(item => item.key === dragging.activityKey);
+      if (activity && activity.key !== beforeKey) placeActivity(activity, dayKey, beforeKey);
+    } else if (dragging?.kind === 'day' && dayKey !== NEW_DAY) {
+      moveDay(days.findIndex(day => day.key === dragging.dayKey), days.findIndex(day => day.key === dayKey));
+    }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setDragHandleKey(null);
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const startDrag = (e: React.DragEvent, item: DragItem) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = 'move';
+    // Firefox only starts a drag when some data is set
+    e.dataTransfer.setData('text/plain', item.kind);
+    setDragging(item);
+  };
+
+  const dropZone = (key: string, beforeKey: string | null = null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging || (dragging.kind === 'day' && key === NEW_DAY)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(key);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleDrop(key, beforeKey);
+    }
+  });
+
+  // Keyboard and touch fallback for dragging: adds to the last day
+  const addToLastDay = (experience: Experience) => {
+    const last = days[days.length - 1];
+    placeActivity(activityFromExperience(experience), last ? last.key : NEW_DAY, null);
+  };
+
+  const addCustomActivity = (day: PlanDay) => {
+    const title = (customActivity[day.key] || '').trim();
+    if (!title) return;
+    updateDay(day.key, [...day.activities, { key: `${day.key}-${Date.now()}`, title }]);
+    setCustomActivity({ ...customActivity, [day.key]: '' });
+  };
+
+  const handleSave = () => {
+    if (problem) {
+      setShowProblem(true);
+      return;
+    }
+    const id = plan.id || `private-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    savePlan(toItinerary(plan, id));
+    toast.success('Itinerary saved to My Trips');
+    onSaved();
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Compass className="w-5 h-5" />
+            {plan.id ? 'Edit your itinerary' : 'Build your own itinerary'}
+          </DialogTitle>
+          <DialogDescription>
+            Drag experiences onto days, and drag days by the handle to reorder them. Only you can see this itinerary.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[18rem_1fr]">
+          {/* Experience palette */}
+          <div className="space-y-3">
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search experiences" />
+            <Select value={regionFilter} onValueChange={(value) => setRegionFilter(value as Region | 'All')}>
+              <SelectTrigger aria-label="Region">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="All">All regions</SelectItem>
+                {REGIONS.map(region => (
+                  <SelectItem key={region} value={region}>{region}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="space-y-2 md:max-h-[60vh] overflow-y-auto pr-1">
+              {palette.map(experience => (
+                <div
+                  key={experience.id}
+                  draggable
+                  onDragStart={(e) => startDrag(e, { kind: 'experience', experience })}
+                  onDragEnd={handleDragEnd}
+                  className="flex items-start gap-2 rounded-md border bg-white p-2 cursor-grab hover:border-purple-400"
+                >
+                  <GripVertical className="w-4 h-4 mt-0.5 flex-shrink-0 text-slate-400" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-slate-900 line-clamp-2">
+                      {isFavourite('experiences', experience.id) && (
+                        <Heart className="inline w-3 h-3 mr-1 fill-rose-500 text-rose-500" />
+                      )}
+                      {experience.title}
+                    </p>
+                    <p className="text-xs text-slate-500">{experience.destination} • {experience.region}</p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => addToLastDay(experience)}
+                    aria-label={`Add ${experience.title} to the last day`}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              {palette.length === 0 && (
+                <p className="text-sm text-slate-500 text-center py-6">No experiences match.</p>
+              )}
+            </div>
+          </div>
+
+          {/* The plan */}
+          <div className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="plan-title">Name</Label>
+                <Input
+                  id="plan-title"
+                  value={plan.title}
+                  onChange={(e) => update({ title: e.target.value })}
+                  placeholder="e.g. Honeymoon in Kerala"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="plan-destination">Destination</Label>
+                <Input
+                  id="plan-destination"
+                  value={plan.destination}
+                  onChange={(e) => update({ destination: e.target.value })}
+                  placeholder="Taken from the first stop when empty"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-description">Notes</Label>
+              <Textarea
+                id="plan-description"
+                value={plan.description}
+                onChange={(e) => update({ description: e.target.value })}
+                placeholder="Anything to remember about this trip (optional)"
+                rows={2}
+              />
+            </div>
+
+            {days.map((day, dayIndex) => {
+              const jump = jumps.find(item => item.dayIndex === dayIndex);
+              return (
+                <div key={day.key} className="space-y-3">
+                  <div
+                    draggable={dragHandleKey === day.key}
+                    onDragStart={(e) => startDrag(e, { kind: 'day', dayKey: day.key })}
+                    onDragEnd={handleDragEnd}
+                    {...dropZone(day.key)}
+                    className={`rounded-lg border p-3 space-y-2 bg-white transition-colors ${
+                      dropTarget === day.key ? 'border-purple-500 bg-purple-50' : ''
+                    } ${dragging?.kind === 'day' && dragging.dayKey === day.key ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        className="cursor-grab text-slate-400 hover:text-slate-600"
+                        onMouseDown={() => setDragHandleKey(day.key)}
+                        onMouseUp={() => setDragHandleKey(null)}
+                        aria-label={`Drag to reorder day ${dayIndex + 1}`}
+                      >
+                        <GripVertical className="w-4 h-4" />
+                      </button>
+                      <span className="font-medium text-slate-900">Day {dayIndex + 1}</span>
+                      <div className="ml-auto flex items-center gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveDay(dayIndex, dayIndex - 1)}
+                          disabled={dayIndex === 0}
+                          aria-label="Move day up"
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveDay(dayIndex, dayIndex + 1)}
+                          disabled={dayIndex === days.length - 1}
+                          aria-label="Move day down"
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDays(days.filter(other => other.key !== day.key))}
+                          aria-label={`Remove day ${dayIndex + 1}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {day.activities.map(activity => (
+                      <div
+                        key={activity.key}
+                        draggable
+                        onDragStart={(e) => startDrag(e, { kind: 'activity', dayKey: day.key, activityKey: activity.key })}
+                        onDragEnd={handleDragEnd}
+                        {...dropZone(day.key, activity.key)}
+                        className={`flex items-center gap-2 rounded-md bg-slate-50 px-2 py-1.5 cursor-grab ${
+                          dragging?.kind === 'activity' && dragging.activityKey === activity.key ? 'opacity-50' : ''
+                        }`}
+                      >
+                        <GripVertical className="w-4 h-4 flex-shrink-0 text-slate-400" />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm text-slate-900 truncate">{activity.title}</p>
+                          {activity.place && (
+                            <p className="flex items-center gap-1 text-xs text-slate-500">
+                              <MapPin className="w-3 h-3" />
+                              {activity.place}
+                            </p>
+                          )}
+                        </div>
+                        {activity.region && (
+                          <Badge variant="secondary" className="text-xs">{activity.region}</Badge>
+                        )}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateDay(day.key, day.activities.filter(item => item.key !== activity.key))}
+                          aria-label="Remove activity"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+
+                    {day.activities.length === 0 && (
+                      <p className="rounded-md border border-dashed py-4 text-center text-sm text-slate-500">
+                        Drop experiences here
+                      </p>
+                    )}
+
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        addCustomActivity(day);
+                      }}
+                      className="flex gap-2"
+                    >
+                      <Input
+                        value={customActivity[day.key] || ''}
+                        onChange={(e) => setCustomActivity({ ...customActivity, [day.key]: e.target.value })}
+                        placeholder="Add your own, e.g. Free afternoon at the beach"
+                        className="h-8 text-sm"
+                      />
+                      <Button type="submit" variant="outline" size="sm" disabled={!(customActivity[day.key] || '').trim()}>
+                        Add
+                      </Button>
+                    </form>
+                  </div>
+
+                  {jump && (
+                    <Alert>
+                      <AlertTriangle className="w-4 h-4" />
+                      <AlertDescription>
+                        Day {dayIndex + 1} ends in the {jump.from} and day {dayIndex + 2} starts in the {jump.to}.
+                        That is a long journey; consider a travel day in between or reordering the days.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+              );
+            })}
+
+            <div
+              {...dropZone(NEW_DAY)}
+              className={`rounded-lg border border-dashed p-3 text-center text-sm text-slate-500 transition-colors ${
+                dropTarget === NEW_DAY ? 'border-purple-500 bg-purple-50' : ''
+              }`}
+            >
+              {dragging && dragging.kind !== 'day' ? (
+                'Drop here to start a new day'
+              ) : (
+                <Button type="button" variant="outline" size="sm" onClick={() => setDays([...days, emptyPlanDay()])}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Day
+                </Button>
+              )}
+            </div>
+
+            {showProblem && problem && (
+              <Alert variant="destructive">
+                <AlertTriangle className="w-4 h-4" />
+                <AlertDescription>{problem}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-2 border-t pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleSave} className="bg-purple-600 hover:bg-purple-700">
+                Save to My Trips
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,390 @@
+import { useState } from 'react';
+import { ItineraryActivity, ActivityCategory, TransportLeg, TransportMode, MealInclusions } from '../App';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Alert, AlertDescription } from './ui/alert';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, Trash2, GripVertical, ChevronUp, ChevronDown, AlertTriangle, X, Hotel, Bus, Utensils } from 'lucide-react';
+import {
+  DraftDay,
+  ACTIVITY_CATEGORIES,
+  TRANSPORT_MODES,
+  emptyActivity,
+  emptyDraftDay,
+  emptyTransportLeg,
+  parseDurationDays,
+  validateDays
+} from '../services/itineraryDays';
+
+type ItineraryDayEditorProps = {
+  days: DraftDay[];
+  duration: string;
+  onChange: (days: DraftDay[]) => void;
+};
+
+const MEALS: (keyof MealInclusions)[] = ['breakfast', 'lunch', 'dinner'];
+
+// Empty input clears the value; negatives are clamped to zero
+const toAmount = (value: string) => (value ? Math.max(0, parseInt(value, 10) || 0) : undefined);
+
+export function ItineraryDayEditor({ days, duration, onChange }: ItineraryDayEditorProps) {
+  // Only the grip handle starts a drag, so selecting text inside the inputs still works
+  const [dragHandleKey, setDragHandleKey] = useState<string | null>(null);
+  const [draggedKey, setDraggedKey] = useState<string | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+
+  const expectedDays = parseDurationDays(duration);
+  const problem = validateDays(days, duration);
+
+  const updateDay = (key: string, changes: Partial<DraftDay>) => {
+    onChange(days.map(day => (day.key === key ? { ...day, ...changes } : day)));
+  };
+
+  const updateActivity = (day: DraftDay, index: number, changes: Partial<ItineraryActivity>) => {
+    updateDay(day.key, {
+      activities: day.activities.map((activity, idx) => (idx === index ? { ...activity, ...changes } : activity))
+    });
+  };
+
+  const updateTransportLeg = (day: DraftDay, index: number, changes: Partial<TransportLeg>) => {
+    updateDay(day.key, {
+      transport: day.transport.map((leg, idx) => (idx === index ? { ...leg, ...changes } : leg))
+    });
+  };
+
+  const moveDay = (fromIndex: number, toIndex: number) => {
+    if (toIndex < 0 || toIndex >= days.length || fromIndex === toIndex) return;
+    const next = [...days];
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(toIndex, 0, moved);
+    onChange(next);
+  };
+
+  const handleDrop = (targetKey: string) => {
+    if (draggedKey) {
+      moveDay(days.findIndex(day => day.key === draggedKey), days.findIndex(day => day.key === targetKey));
+    }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setDragHandleKey(null);
+    setDraggedKey(null);
+    setDropTargetKey(null);
+  };
+
+  const addDaysToMatch = () => {
+    if (expectedDays === null || expectedDays <= days.length) return;
+    onChange([...days, ...Array.from({ length: expectedDays - days.length }, emptyDraftDay)]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {days.map((day, dayIndex) => (
+        <div
+          key={day.key}
+          draggable={dragHandleKey === day.key}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggedKey(day.key);
+          }}
+          onDragOver={(e) => {
+            if (!draggedKey) return;
+            e.preventDefault();
+            setDropTargetKey(day.key);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(day.key);
+          }}
+          onDragEnd={handleDragEnd}
+          className={`rounded-lg border p-3 space-y-3 bg-white transition-colors ${
+            dropTargetKey === day.key && draggedKey !== day.key ? 'border-purple-500 bg-purple-50' : ''
+          } ${draggedKey === day.key ? 'opacity-50' : ''}`}
+        >
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              className="cursor-grab text-slate-400 hover:text-slate-600"
+              onMouseDown={() => setDragHandleKey(day.key)}
+              onMouseUp={() => setDragHandleKey(null)}
+              aria-label={`Drag to reorder day ${dayIndex + 1}`}
+            >
+              <GripVertical className="w-4 h-4" />
+            </button>
+            <span className="font-medium text-slate-900">Day {dayIndex + 1}</span>
+            <div className="ml-auto flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveDay(dayIndex, dayIndex - 1)}
+                disabled={dayIndex === 0}
+                aria-label="Move day up"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveDay(dayIndex, dayIndex + 1)}
+                disabled={dayIndex === days.length - 1}
+                aria-label="Move day down"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(days.filter(other => other.key !== day.key))}
+                aria-label={`Remove day ${dayIndex + 1}`}
+              >
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </Button>
+            </div>
+          </div>
+
+          {day.activities.map((activity, idx) => (
+            <div key={idx} className="rounded-md bg-slate-50 p-2 space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  type="time"
+                  value={activity.startTime || ''}
+                  onChange={(e) => updateActivity(day, idx, { startTime: e.target.value || undefined })}
+                  className="w-28 flex-shrink-0"
+                  aria-label="Start time"
+                />
+                <Input
+                  value={activity.title}
+                  onChange={(e) => updateActivity(day, idx, { title: e.target.value })}
+                  placeholder="Activity, e.g. Sunset cruise on the backwaters"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateDay(day.key, { activities: day.activities.filter((_, other) => other !== idx) })}
+                  aria-label="Remove activity"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={activity.place || ''}
+                  onChange={(e) => updateActivity(day, idx, { place: e.target.value })}
+                  placeholder="Place (optional)"
+                />
+                <Select
+                  value={activity.category || 'none'}
+                  onValueChange={(value) => updateActivity(day, idx, {
+                    category: value === 'none' ? undefined : value as ActivityCategory
+                  })}
+                >
+                  <SelectTrigger className="w-36 flex-shrink-0" aria-label="Category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No category</SelectItem>
+                    {(Object.keys(ACTIVITY_CATEGORIES) as ActivityCategory[]).map(category => (
+                      <SelectItem key={category} value={category}>{ACTIVITY_CATEGORIES[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  step={15}
+                  value={activity.durationMinutes ?? ''}
+                  onChange={(e) => updateActivity(day, idx, { durationMinutes: toAmount(e.target.value) })}
+                  placeholder="Minutes"
+                  aria-label="Duration in minutes"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={activity.cost ?? ''}
+                  onChange={(e) => updateActivity(day, idx, { cost: toAmount(e.target.value) })}
+                  placeholder="Cost per person (₹)"
+                  aria-label="Cost per person in rupees"
+                />
+              </div>
+              <Input
+                value={activity.notes || ''}
+                onChange={(e) => updateActivity(day, idx, { notes: e.target.value })}
+                placeholder="Notes (optional)"
+              />
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => updateDay(day.key, { activities: [...day.activities, emptyActivity()] })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Activity
+          </Button>
+
+          {/* Getting there */}
+          <div className="space-y-2 border-t pt-3">
+            <p className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <Bus className="w-4 h-4" />
+              Transport
+            </p>
+            {day.transport.map((leg, idx) => (
+              <div key={idx} className="flex flex-wrap gap-2">
+                <Select
+                  value={leg.mode}
+                  onValueChange={(value) => updateTransportLeg(day, idx, { mode: value as TransportMode })}
+                >
+                  <SelectTrigger className="w-28" aria-label="Transport mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TRANSPORT_MODES) as TransportMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{TRANSPORT_MODES[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={leg.from}
+                  onChange={(e) => updateTransportLeg(day, idx, { from: e.target.value })}
+                  placeholder="From"
+                  className="flex-1 min-w-24"
+                />
+                <Input
+                  value={leg.to}
+                  onChange={(e) => updateTransportLeg(day, idx, { to: e.target.value })}
+                  placeholder="To"
+                  className="flex-1 min-w-24"
+                />
+                <Input
+                  type="time"
+                  value={leg.departureTime || ''}
+                  onChange={(e) => updateTransportLeg(day, idx, { departureTime: e.target.value || undefined })}
+                  className="w-28"
+                  aria-label="Departure time"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step={15}
+                  value={leg.durationMinutes ?? ''}
+                  onChange={(e) => updateTransportLeg(day, idx, { durationMinutes: toAmount(e.target.value) })}
+                  placeholder="Minutes"
+                  className="w-24"
+                  aria-label="Travel time in minutes"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={leg.cost ?? ''}
+                  onChange={(e) => updateTransportLeg(day, idx, { cost: toAmount(e.target.value) })}
+                  placeholder="₹"
+                  className="w-24"
+                  aria-label="Fare per person in rupees"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateDay(day.key, { transport: day.transport.filter((_, other) => other !== idx) })}
+                  aria-label="Remove transport"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => updateDay(day.key, { transport: [...day.transport, emptyTransportLeg()] })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Transport
+            </Button>
+          </div>
+
+          {/* Where they stay */}
+          <div className="space-y-2 border-t pt-3">
+            <p className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <Hotel className="w-4 h-4" />
+              Accommodation
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Input
+                value={day.accommodation.name}
+                onChange={(e) => updateDay(day.key, { accommodation: { ...day.accommodation, name: e.target.value } })}
+                placeholder="Hotel, homestay or camp"
+                className="flex-1 min-w-40"
+              />
+              <Input
+                value={day.accommodation.location || ''}
+                onChange={(e) => updateDay(day.key, { accommodation: { ...day.accommodation, location: e.target.value } })}
+                placeholder="Location"
+                className="flex-1 min-w-32"
+              />
+              <Input
+                type="number"
+                min={0}
+                value={day.accommodation.nightlyCost ?? ''}
+                onChange={(e) => updateDay(day.key, {
+                  accommodation: { ...day.accommodation, nightlyCost: toAmount(e.target.value) }
+                })}
+                placeholder="₹ per night"
+                className="w-32"
+                aria-label="Nightly cost per person in rupees"
+              />
+            </div>
+          </div>
+
+          {/* Meals */}
+          <div className="flex flex-wrap items-center gap-4 border-t pt-3">
+            <p className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <Utensils className="w-4 h-4" />
+              Meals included
+            </p>
+            {MEALS.map(meal => (
+              <label key={meal} className="flex items-center gap-2 text-sm text-slate-700 capitalize">
+                <Checkbox
+                  checked={day.meals[meal]}
+                  onCheckedChange={(checked) => updateDay(day.key, { meals: { ...day.meals, [meal]: checked === true } })}
+                />
+                {meal}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...days, emptyDraftDay()])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Day
+        </Button>
+        {expectedDays !== null && expectedDays > days.length && (
+          <Button type="button" variant="ghost" size="sm" onClick={addDaysToMatch}>
+            Add {expectedDays - days.length} day{expectedDays - days.length !== 1 ? 's' : ''} to match duration
+          </Button>
+        )}
+      </div>
+
+      {problem && (
+        <Alert>
+          <AlertTriangle className="w-4 h-4" />
+          <AlertDescription>{problem}</AlertDescription>
+        </Alert>
+      )}
+
+      <p className="text-sm text-slate-500">Drag days by the handle or use the arrows to reorder them; days are renumbered automatically</p>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Itinerary } from '../App';
+import { Button } from './ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { AddToCalendarDialog } from './AddToCalendarDialog';
+import { Download, ChevronDown, FileText, FileJson, Loader2, CalendarPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { itineraryToText } from '../services/itineraryDays';
+import { downloadItineraryPdf, itineraryFileName } from '../services/itineraryPdf';
+import { saveBlob } from '../services/download';
+
+type ItineraryDownloadMenuProps = {
+  itinerary: Itinerary;
+  label?: string;
+  variant?: 'default' | 'outline';
+  size?: 'default' | 'sm';
+  className?: string;
+  buttonClassName?: string;
+};
+
+// PDF is the main action; the plain text, JSON and calendar versions sit in the menu next to it
+export function ItineraryDownloadMenu({
+  itinerary,
+  label = 'Download PDF',
+  variant = 'default',
+  size = 'default',
+  className = '',
+  buttonClassName = ''
+}: ItineraryDownloadMenuProps) {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+
+  const handlePdf = async () => {
+    setIsGenerating(true);
+    try {
+      await downloadItineraryPdf(itinerary);
+      toast.success('Itinerary downloaded successfully');
+    } catch (error) {
+      console.error('Error generating itinerary PDF:', error);
+      toast.error('Failed to generate PDF');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleText = () => {
+    saveBlob(new Blob([itineraryToText(itinerary)], { type: 'text/plain' }), itineraryFileName(itinerary, 'txt'));
+    toast.success('Itinerary downloaded successfully');
+  };
+
+  const handleJson = () => {
+    saveBlob(new Blob([JSON.stringify(itinerary, null, 2)], { type: 'application/json' }), itineraryFileName(itinerary, 'json'));
+    toast.success('Itinerary downloaded successfully');
+  };
+
+  return (
+    // Card clicks open the detail dialog; downloading should not
+    <div className={`flex ${className}`} onClick={(e) => e.stopPropagation()}>
+      <Button
+        variant={variant}
+        size={size}
+        onClick={handlePdf}
+        disabled={isGenerating}
+        className={`flex-1 rounded-r-none ${buttonClassName}`}
+      >
+        {isGenerating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+        {isGenerating ? 'Preparing PDF...' : label}
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={variant}
+            size={size}
+            className={`rounded-l-none px-2 ${variant === 'outline' ? 'border-l-0' : 'border-l border-white/30'} ${buttonClassName}`}
+            aria-label="More download formats"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={handleText}>
+            <FileText />
+            Plain text (.txt)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleJson}>
+            <FileJson />
+            Data file (.json)
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setCalendarOpen(true)}>
+            <CalendarPlus />
+            Add to calendar (.ics)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <AddToCalendarDialog itinerary={itinerary} open={calendarOpen} onOpenChange={setCalendarOpen} />
+    </div>
+  );
+}
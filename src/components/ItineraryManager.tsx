@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react';
-import { AppData, Itinerary, Region } from '../App';
-import { itinerariesAPI } from '../services/api';
+import { Itinerary, Region, ContentStatus, Schedule } from '../App';
+import { itinerariesAPI, ResourceInput } from '../services/api';
+import { PaginatedListing } from '../hooks/usePaginatedResource';
+import { useTrash, useSoftDelete } from '../hooks/useTrash';
+import { useSelection } from '../hooks/useSelection';
+import { usePermissions } from '../hooks/usePermissions';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -9,52 +13,68 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
 import { Plus, Edit, Trash2, Calendar, MapPin, Clock, Upload, X } from 'lucide-react';
 import { toast } from 'sonner';
+import { PaginationControls } from './PaginationControls';
+import { BulkImportWizard } from './BulkImportWizard';
+import { ContentStatusMenu } from './ContentStatusMenu';
+import { ContentPreviewDialog, PreviewTarget } from './ContentPreviewDialog';
+import { ScheduleFields } from './ScheduleFields';
+import { RevisionHistory } from './RevisionHistory';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { BulkActionBar } from './BulkActionBar';
+import { STATUS_LABELS, scheduleProblem, pickSchedule, appendSchedule, transitionProblem } from '../services/workflow';
+import { ItineraryDayEditor } from './ItineraryDayEditor';
+import {
+  DraftDay,
+  emptyDraftDay,
+  toDraftDays,
+  fromDraftDays,
+  validateDays,
+  parseDurationDays,
+  getItineraryImage,
+  getOverviewText,
+  DEFAULT_ITINERARY_IMAGE
+} from '../services/itineraryDays';
 
 type ItineraryManagerProps = {
-  data: AppData;
-  onUpdateData: (data: AppData) => void;
+  listing: PaginatedListing<Itinerary>;
 };
 
-export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps) {
-  const [itineraries, setItineraries] = useState(data.itineraries || []);
+export function ItineraryManager({ listing }: ItineraryManagerProps) {
+  const { can, regions, defaultRegion } = usePermissions();
+  const canManage = (itinerary?: Itinerary) => can('itineraries.manage', itinerary);
+  // Itineraries deleted moments ago stay hidden while their undo toast is showing
+  const { isPending } = useTrash();
+  const itineraries = listing.items.filter(itinerary => !isPending('itineraries', itinerary.id));
+  const deleteItinerary = useSoftDelete('itineraries', 'Itinerary', listing.refresh);
+  const selectable = itineraries.filter(itinerary => canManage(itinerary));
+  const selection = useSelection(selectable.map(itinerary => itinerary.id));
+  const [deleteTarget, setDeleteTarget] = useState<Itinerary | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingItinerary, setEditingItinerary] = useState<Itinerary | null>(null);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string>('');
   const [formData, setFormData] = useState({
     destination: '',
-    region: 'North' as Region,
+    region: defaultRegion,
     title: '',
     duration: '',
     description: '',
-    daysData: '',
     imageUrl: ''
   });
-  const [isLoading, setIsLoading] = useState(false);
+  const [draftDays, setDraftDays] = useState<DraftDay[]>(() => [emptyDraftDay()]);
+  const [schedule, setSchedule] = useState<Schedule>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
+  const isLoading = listing.isLoading || isSaving;
 
   useEffect(() => {
-    fetchItineraries();
-  }, []);
-  
-  const fetchItineraries = async () => {
-    setIsLoading(true);
-    try {
-      const response = await itinerariesAPI.getAll();
-      const itinerariesData = response.data || response;
-      setItineraries(itinerariesData);
-      onUpdateData({
-        ...data,
-        itineraries: itinerariesData
-      });
-    } catch (error) {
+    if (listing.error) {
       toast.error('Failed to load itineraries');
-      console.error('Error fetching itineraries:', error);
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [listing.error]);
 
   const isNew = (createdAt: number) => {
     const twoDaysAgo = Date.now() - (2 * 24 * 60 * 60 * 1000);
@@ -62,7 +82,9 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
   };
 
   const resetForm = () => {
-    setFormData({ destination: '', region: 'North', title: '', duration: '', description: '', daysData: '', imageUrl: '' });
+    setFormData({ destination: '', region: defaultRegion, title: '', duration: '', description: '', imageUrl: '' });
+    setDraftDays([emptyDraftDay()]);
+    setSchedule({});
     setEditingItinerary(null);
     setSelectedImage(null);
     setImagePreview('');
@@ -75,17 +97,14 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
 
   const handleEdit = (itinerary: Itinerary) => {
     setEditingItinerary(itinerary);
-    const daysData = itinerary.days.map(day =>
-      `Day ${day.day}:\n${day.activities.join('\n')}`
-    ).join('\n\n');
-    
+    setDraftDays(itinerary.days.length > 0 ? toDraftDays(itinerary.days) : [emptyDraftDay()]);
+    setSchedule(pickSchedule(itinerary));
     setFormData({
       destination: itinerary.destination,
       region: itinerary.region,
       title: itinerary.title,
       duration: itinerary.duration,
       description: itinerary.description || '',
-      daysData,
       imageUrl: itinerary.imageUrl || ''
     });
     setImagePreview(itinerary.imageUrl || '');
@@ -137,49 +156,45 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
     setFormData({ ...formData, imageUrl: '' });
   };
 
-  const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this itinerary?')) {
-      try {
-        await itinerariesAPI.delete(id);
-        await fetchItineraries(); // Refresh the list
-        toast.success('Itinerary deleted successfully');
-      } catch (error) {
-        toast.error('Failed to delete itinerary');
-        console.error('Error deleting itinerary:', error);
-      }
+  const handleStatusChange = async (itinerary: Itinerary, status: ContentStatus) => {
+    const problem = transitionProblem(itinerary.status, status);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    try {
+      await itinerariesAPI.patch(itinerary.id, { status });
+      await listing.refresh();
+      toast.success(`Itinerary moved to ${STATUS_LABELS[status]}`);
+    } catch (error) {
+      console.error('Error changing itinerary status:', error);
+      toast.error('Failed to change itinerary status');
     }
   };
 
-  const getItineraryImage = (itinerary: Itinerary) => {
-    if (itinerary.imageUrl) {
-      return itinerary.imageUrl;
-    }
-    
-    // Fallback images based on destination
-    const imageMap: { [key: string]: string } = {
-      'Ladakh': 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=400&h=250&fit=crop',
-      'Goa': 'https://images.unsplash.com/photo-1512343879784-a960bf40e7f2?w=400&h=250&fit=crop',
-      'Kerala': 'https://images.unsplash.com/photo-1602216056096-3b40cc0c9944?w=400&h=250&fit=crop',
-      'Rajasthan': 'https://images.unsplash.com/photo-1477587458883-47145ed94245?w=400&h=250&fit=crop',
-      'Kashmir': 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=400&h=250&fit=crop',
-    };
-    
-    return imageMap[itinerary.destination] || 'https://images.unsplash.com/photo-1524492412937-b28074a5d7da?w=400&h=250&fit=crop';
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+    deleteItinerary(deleteTarget);
+    setDeleteTarget(null);
   };
 
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
+
+    const problem = validateDays(draftDays, formData.duration) || scheduleProblem(schedule);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setIsSaving(true);
 
     try {
-      // Parse days data
-      const dayBlocks = formData.daysData.split(/Day \d+:/i).filter(b => b.trim());
-      const days = dayBlocks.map((block, idx) => ({
-        day: idx + 1,
-        activities: block.trim().split('\n').filter(a => a.trim())
-      }));
+      const days = fromDraftDays(draftDays);
+      const durationDays = parseDurationDays(formData.duration) || days.length;
 
-      let itineraryData: any;
+      let itineraryData: FormData | ResourceInput<Itinerary>;
 
       // If there's a selected image file, use FormData
       if (selectedImage) {
@@ -189,8 +204,11 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
         formDataToSend.append('region', formData.region);
         formDataToSend.append('title', formData.title);
         formDataToSend.append('duration', formData.duration);
+        formDataToSend.append('durationDays', String(durationDays));
         formDataToSend.append('description', formData.description);
         formDataToSend.append('days', JSON.stringify(days));
+        formDataToSend.append('status', editingItinerary?.status || 'draft');
+        appendSchedule(formDataToSend, schedule);
         
         itineraryData = formDataToSend;
       } else {
@@ -200,9 +218,12 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
           region: formData.region,
           title: formData.title,
           duration: formData.duration,
+          durationDays,
           description: formData.description,
           days,
-          imageUrl: formData.imageUrl || ''
+          imageUrl: formData.imageUrl || '',
+          status: editingItinerary?.status || 'draft',
+          ...pickSchedule(schedule)
         };
       }
 
@@ -217,28 +238,17 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
       }
 
       // Refresh the list
-      await fetchItineraries();
+      await listing.refresh();
       setIsDialogOpen(false);
       resetForm();
     } catch (error) {
       console.error('Error saving itinerary:', error);
       toast.error(`Failed to ${editingItinerary ? 'update' : 'add'} itinerary`);
     } finally {
-      setIsLoading(false);
+      setIsSaving(false);
     }
   };
 
-  const getOverviewText = (itinerary: Itinerary) => {
-    // Use custom description if available, otherwise generate one
-    if (itinerary.description) {
-      return itinerary.description;
-    }
-    
-    const totalActivities = itinerary.days.reduce((acc, day) => acc + day.activities.length, 0);
-    const firstFewActivities = itinerary.days.slice(0, 2).map(day => day.activities[0]).filter(Boolean);
-    
-    return `${itinerary.days.length}-day journey featuring ${totalActivities} curated activities. Experience ${firstFewActivities.join(', ')} and much more in this comprehensive ${itinerary.destination} adventure.`;
-  };
 
   return (
     <div>
@@ -247,178 +257,180 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
           <h2 className="text-slate-900 font-semibold text-xl">Itineraries</h2>
           <p className="text-slate-600">Manage day-wise travel plans</p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={handleAdd} className="bg-purple-600 hover:bg-purple-700">
-              <Plus className="w-4 h-4 mr-2" />
-              Add Itinerary
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>{editingItinerary ? 'Edit Itinerary' : 'Add New Itinerary'}</DialogTitle>
-              <DialogDescription>
-                {editingItinerary ? 'Update the itinerary details' : 'Fill in the details for the new itinerary'}
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {/* Image Upload Section */}
-              <div className="space-y-3">
-                <Label>Itinerary Image *</Label>
-                
-                {imagePreview ? (
-                  <div className="relative">
-                    <img 
-                      src={imagePreview} 
-                      alt="Preview" 
-                      className="w-full h-48 object-cover rounded-lg border"
-                    />
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="sm"
-                      className="absolute top-2 right-2"
-                      onClick={removeImage}
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                ) : (
-                  <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
-                    <Upload className="w-8 h-8 mx-auto text-gray-400 mb-2" />
-                    <p className="text-sm text-gray-600 mb-3">Upload an image or enter image URL</p>
-                  </div>
-                )}
-
-                <div className="grid grid-cols-1 gap-3">
-                  <div>
-                    <Label htmlFor="imageFile" className="text-sm">Upload Image File</Label>
-                    <Input
-                      id="imageFile"
-                      type="file"
-                      accept="image/*"
-                      onChange={handleImageSelect}
-                      className="mt-1"
-                    />
-                  </div>
+        <div className="flex items-center gap-2">
+          {canManage() && <BulkImportWizard kind="itineraries" onImported={listing.refresh} />}
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            {canManage() && (
+              <DialogTrigger asChild>
+                <Button onClick={handleAdd} className="bg-purple-600 hover:bg-purple-700">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Itinerary
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingItinerary ? 'Edit Itinerary' : 'Add New Itinerary'}</DialogTitle>
+                <DialogDescription>
+                  {editingItinerary ? 'Update the itinerary details' : 'Fill in the details for the new itinerary. It stays a draft until published.'}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {/* Image Upload Section */}
+                <div className="space-y-3">
+                  <Label>Itinerary Image *</Label>
                   
-                  <div className="relative">
-                    <div className="absolute inset-0 flex items-center">
-                      <span className="w-full border-t" />
+                  {imagePreview ? (
+                    <div className="relative">
+                      <img 
+                        src={imagePreview} 
+                        alt="Preview" 
+                        className="w-full h-48 object-cover rounded-lg border"
+                      />
+                      <Button
+                        type="button"
+                        variant="destructive"
+                        size="sm"
+                        className="absolute top-2 right-2"
+                        onClick={removeImage}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+                      <Upload className="w-8 h-8 mx-auto text-gray-400 mb-2" />
+                      <p className="text-sm text-gray-600 mb-3">Upload an image or enter image URL</p>
                     </div>
-                    <div className="relative flex justify-center text-xs uppercase">
-                      <span className="bg-background px-2 text-muted-foreground">Or</span>
+                  )}
+
+                  <div className="grid grid-cols-1 gap-3">
+                    <div>
+                      <Label htmlFor="imageFile" className="text-sm">Upload Image File</Label>
+                      <Input
+                        id="imageFile"
+                        type="file"
+                        accept="image/*"
+                        onChange={handleImageSelect}
+                        className="mt-1"
+                      />
+                    </div>
+                    
+                    <div className="relative">
+                      <div className="absolute inset-0 flex items-center">
+                        <span className="w-full border-t" />
+                      </div>
+                      <div className="relative flex justify-center text-xs uppercase">
+                        <span className="bg-background px-2 text-muted-foreground">Or</span>
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="imageUrl" className="text-sm">Image URL (Direct Link)</Label>
+                      <Input
+                        id="imageUrl"
+                        type="url"
+                        value={formData.imageUrl}
+                        onChange={(e) => handleImageUrlChange(e.target.value)}
+                        placeholder="https://example.com/image.jpg or .png"
+                        className="mt-1"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Must be a direct image link ending with .jpg, .png, etc.
+                      </p>
                     </div>
                   </div>
+                </div>
 
-                  <div>
-                    <Label htmlFor="imageUrl" className="text-sm">Image URL (Direct Link)</Label>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="destination">Destination</Label>
                     <Input
-                      id="imageUrl"
-                      type="url"
-                      value={formData.imageUrl}
-                      onChange={(e) => handleImageUrlChange(e.target.value)}
-                      placeholder="https://example.com/image.jpg or .png"
-                      className="mt-1"
+                      id="destination"
+                      value={formData.destination}
+                      onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
+                      placeholder="e.g., Goa, Ladakh, Kerala"
+                      required
                     />
-                    <p className="text-xs text-gray-500 mt-1">
-                      Must be a direct image link ending with .jpg, .png, etc.
-                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="region">Region</Label>
+                    <Select value={formData.region} onValueChange={(value) => setFormData({ ...formData, region: value as Region })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {regions.map(region => (
+                          <SelectItem key={region} value={region}>{region} India</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                 </div>
-              </div>
 
-              <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="destination">Destination</Label>
+                  <Label htmlFor="title">Itinerary Title</Label>
                   <Input
-                    id="destination"
-                    value={formData.destination}
-                    onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
-                    placeholder="e.g., Goa, Ladakh, Kerala"
+                    id="title"
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    placeholder="e.g., Coastal Paradise & Beach Vibes"
                     required
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="region">Region</Label>
-                  <Select value={formData.region} onValueChange={(value) => setFormData({ ...formData, region: value as Region })}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="North">North India</SelectItem>
-                      <SelectItem value="South">South India</SelectItem>
-                      <SelectItem value="East">East India</SelectItem>
-                      <SelectItem value="West">West India</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="duration">Duration</Label>
+                  <Input
+                    id="duration"
+                    value={formData.duration}
+                    onChange={(e) => setFormData({ ...formData, duration: e.target.value })}
+                    placeholder="e.g., 7 Days / 6 Nights"
+                    required
+                  />
                 </div>
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="title">Itinerary Title</Label>
-                <Input
-                  id="title"
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  placeholder="e.g., Coastal Paradise & Beach Vibes"
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="duration">Duration</Label>
-                <Input
-                  id="duration"
-                  value={formData.duration}
-                  onChange={(e) => setFormData({ ...formData, duration: e.target.value })}
-                  placeholder="e.g., 7 Days / 6 Nights"
-                  required
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Card Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Brief description that will appear on the itinerary card (2-3 lines)"
+                    rows={3}
+                    required
+                  />
+                  <p className="text-xs text-gray-500">
+                    This description will be shown on the card instead of auto-generated content
+                  </p>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description">Card Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Brief description that will appear on the itinerary card (2-3 lines)"
-                  rows={3}
-                  required
-                />
-                <p className="text-xs text-gray-500">
-                  This description will be shown on the card instead of auto-generated content
-                </p>
-              </div>
+                <div className="space-y-2">
+                  <Label>Day-wise Plan</Label>
+                  <ItineraryDayEditor days={draftDays} duration={formData.duration} onChange={setDraftDays} />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="daysData">Day-wise Plan</Label>
-                <Textarea
-                  id="daysData"
-                  value={formData.daysData}
-                  onChange={(e) => setFormData({ ...formData, daysData: e.target.value })}
-                  placeholder="Day 1:&#10;Arrival at airport&#10;Check-in to hotel&#10;Welcome dinner&#10;&#10;Day 2:&#10;Beach activities&#10;Lunch by the sea"
-                  rows={12}
-                  required
-                />
-                <p className="text-sm text-slate-500">Format: "Day X:" followed by activities, one per line</p>
-              </div>
+                <ScheduleFields value={schedule} onChange={setSchedule} />
 
-              <div className="flex gap-2 justify-end pt-4">
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit" className="bg-purple-600 hover:bg-purple-700">
-                  {editingItinerary ? 'Update' : 'Add'} Itinerary
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="flex gap-2 justify-end pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="bg-purple-600 hover:bg-purple-700">
+                    {editingItinerary ? 'Update' : 'Add'} Itinerary
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      {!isLoading && (
+        <BulkActionBar type="itineraries" items={selectable} selection={selection} onDone={listing.refresh} />
+      )}
+
       {isLoading ? (
         <div className="text-center py-12">
           <p className="text-slate-500">Loading itineraries...</p>
@@ -434,7 +446,7 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
                   alt={itinerary.destination}
                   className="w-full h-full object-cover"
                   onError={(e) => {
-                    e.currentTarget.src = 'https://images.unsplash.com/photo-1524492412937-b28074a5d7da?w=400&h=250&fit=crop';
+                    e.currentTarget.src = DEFAULT_ITINERARY_IMAGE;
                   }}
                 />
                 {/* NEW badge in top-right */}
@@ -469,22 +481,42 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
               
               <CardContent className="pt-0">
                 <div className="flex gap-2 pt-4 border-t">
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => handleEdit(itinerary)}
-                  >
-                    <Edit className="w-4 h-4 mr-1" />
-                    Edit
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="destructive"
-                    onClick={() => handleDelete(itinerary.id)}
-                  >
-                    <Trash2 className="w-4 h-4 mr-1" />
-                    Delete
-                  </Button>
+                  {canManage(itinerary) && (
+                    <Checkbox
+                      checked={selection.isSelected(itinerary.id)}
+                      onClick={(e) => selection.toggle(itinerary.id, e.shiftKey)}
+                      aria-label={`Select ${itinerary.title}`}
+                      className="self-center"
+                    />
+                  )}
+                  <ContentStatusMenu
+                    status={itinerary.status}
+                    onTransition={(status) => handleStatusChange(itinerary, status)}
+                    onPreview={() => setPreviewTarget({ type: 'itinerary', item: itinerary })}
+                    readOnly={!canManage(itinerary)}
+                    className="mr-auto"
+                  />
+                  {canManage(itinerary) && (
+                    <>
+                      <RevisionHistory type="itineraries" record={itinerary} client={itinerariesAPI} onRestored={listing.refresh} />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleEdit(itinerary)}
+                      >
+                        <Edit className="w-4 h-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => setDeleteTarget(itinerary)}
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete
+                      </Button>
+                    </>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -492,6 +524,10 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
         </div>
       )}
 
+      {!isLoading && (
+        <PaginationControls page={listing.page} pageCount={listing.pageCount} onPageChange={listing.setPage} />
+      )}
+
       {itineraries.length === 0 && !isLoading && (
         <Card>
           <CardContent className="text-center py-12">
@@ -499,6 +535,14 @@ export function ItineraryManager({ data, onUpdateData }: ItineraryManagerProps)
           </CardContent>
         </Card>
       )}
+
+      <ContentPreviewDialog target={previewTarget} onClose={() => setPreviewTarget(null)} />
+      <ConfirmDeleteDialog
+        label={deleteTarget ? deleteTarget.title : null}
+        noun="Itinerary"
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
     </div>
   );
 }
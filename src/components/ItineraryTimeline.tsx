@@ -0,0 +1,117 @@
+import { ItineraryDay, TransportMode } from '../App';
+import { Badge } from './ui/badge';
+import { HighlightedText } from './HighlightedText';
+import { MapPin, Clock, Hotel, Utensils, IndianRupee, Plane, Train, Car, Ship } from 'lucide-react';
+import { ACTIVITY_CATEGORIES, dayCost, formatINR, formatMeals, formatMinutes, TRANSPORT_MODES } from '../services/itineraryDays';
+
+type ItineraryTimelineProps = {
+  days: ItineraryDay[];
+  highlight?: string[];
+};
+
+const transportIcons: Record<TransportMode, typeof Plane> = {
+  flight: Plane,
+  train: Train,
+  road: Car,
+  boat: Ship
+};
+
+// Day-by-day timeline: transport first, then the activities in order, then where the night is spent
+export function ItineraryTimeline({ days, highlight }: ItineraryTimelineProps) {
+  return (
+    <div className="space-y-6">
+      {days.map((day) => {
+        const cost = dayCost(day);
+        const meals = formatMeals(day.meals);
+
+        return (
+          <div key={day.day} className="bg-purple-50/50 rounded-lg p-4">
+            <div className="flex items-center gap-2 flex-wrap mb-4">
+              <h4 className="text-purple-700 font-semibold text-lg">Day {day.day}</h4>
+              {meals && (
+                <Badge variant="secondary" className="text-xs">
+                  <Utensils className="w-3 h-3 mr-1" />
+                  {meals}
+                </Badge>
+              )}
+              {cost > 0 && (
+                <span className="ml-auto text-sm text-slate-600">{formatINR(cost)} per person</span>
+              )}
+            </div>
+
+            <ol className="relative border-l-2 border-purple-200 ml-2 space-y-4">
+              {day.transport.map((leg, idx) => {
+                const Icon = transportIcons[leg.mode] || Car;
+                return (
+                  <li key={`leg-${idx}`} className="ml-6">
+                    <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-blue-100 ring-4 ring-white">
+                      <Icon className="w-3 h-3 text-blue-700" />
+                    </span>
+                    <p className="text-slate-800">
+                      {leg.departureTime && <span className="font-medium text-blue-700 mr-2">{leg.departureTime}</span>}
+                      {TRANSPORT_MODES[leg.mode] || leg.mode}: {leg.from} → {leg.to}
+                    </p>
+                    <p className="text-xs text-slate-500 flex items-center gap-3">
+                      {leg.durationMinutes ? <span>{formatMinutes(leg.durationMinutes)}</span> : null}
+                      {leg.cost ? <span>{formatINR(leg.cost)}</span> : null}
+                      {leg.notes && <span>{leg.notes}</span>}
+                    </p>
+                  </li>
+                );
+              })}
+
+              {day.schedule.map((activity, idx) => (
+                <li key={`activity-${idx}`} className="ml-6">
+                  <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-purple-500 ring-4 ring-white" />
+                  <p className="text-slate-800">
+                    {activity.startTime && <span className="font-medium text-purple-700 mr-2">{activity.startTime}</span>}
+                    <HighlightedText text={activity.title} terms={highlight} />
+                  </p>
+                  <div className="flex items-center gap-3 flex-wrap text-xs text-slate-500 mt-1">
+                    {activity.place && (
+                      <span className="inline-flex items-center gap-1">
+                        <MapPin className="w-3 h-3" />
+                        <HighlightedText text={activity.place} terms={highlight} />
+                      </span>
+                    )}
+                    {activity.durationMinutes ? (
+                      <span className="inline-flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {formatMinutes(activity.durationMinutes)}
+                      </span>
+                    ) : null}
+                    {activity.cost ? (
+                      <span className="inline-flex items-center gap-1">
+                        <IndianRupee className="w-3 h-3" />
+                        {activity.cost.toLocaleString('en-IN')}
+                      </span>
+                    ) : null}
+                    {activity.category && (
+                      <Badge variant="outline" className="text-xs">{ACTIVITY_CATEGORIES[activity.category]}</Badge>
+                    )}
+                  </div>
+                  {activity.notes && <p className="text-sm text-slate-600 mt-1">{activity.notes}</p>}
+                </li>
+              ))}
+
+              {day.accommodation && (
+                <li className="ml-6">
+                  <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-amber-100 ring-4 ring-white">
+                    <Hotel className="w-3 h-3 text-amber-700" />
+                  </span>
+                  <p className="text-slate-800">
+                    Stay: <HighlightedText text={day.accommodation.name} terms={highlight} />
+                    {day.accommodation.location && <span className="text-slate-500">, {day.accommodation.location}</span>}
+                  </p>
+                  {day.accommodation.nightlyCost ? (
+                    <p className="text-xs text-slate-500">{formatINR(day.accommodation.nightlyCost)} per night</p>
+                  ) : null}
+                </li>
+              )}
+            </ol>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,92 +1,121 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Itinerary } from '../App';
-import { Button } from './ui/button';
+import { itinerariesAPI } from '../services/api';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { Calendar, Download, MapPin, Clock } from 'lucide-react';
+import { Button } from './ui/button';
+import { Calendar, MapPin, Clock, Compass, Copy } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
 import { toast } from 'sonner';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { HighlightedText } from './HighlightedText';
+import { FavouriteButton } from './FavouriteButton';
+import { ItineraryTimeline } from './ItineraryTimeline';
+import { ItineraryDownloadMenu } from './ItineraryDownloadMenu';
+import { isLive } from '../services/workflow';
+import { itineraryCost, formatINR, getItineraryImage, getOverviewText, DEFAULT_ITINERARY_IMAGE } from '../services/itineraryDays';
 
 type ItineraryViewerProps = {
   itineraries: Itinerary[];
+  // When provided, the detail dialog is driven by the caller (e.g. the /itineraries/:id route)
+  openItineraryId?: string | null;
+  onOpenItinerary?: (id: string | null) => void;
+  // Infinite scroll: provided when the list is paged from the server
+  hasMore?: boolean;
+  isLoading?: boolean;
+  onLoadMore?: () => void;
+  highlight?: string[]; // search terms to mark in titles, overviews and day activities
+  canFavourite?: boolean; // heart toggles for travellers saving items to My Trips
+  onCustomise?: (itinerary: Itinerary | null) => void; // opens the traveller's itinerary builder, blank when null
 };
 
-export function ItineraryViewer({ itineraries }: ItineraryViewerProps) {
+export function ItineraryViewer({
+  itineraries,
+  openItineraryId,
+  onOpenItinerary,
+  hasMore = false,
+  isLoading = false,
+  onLoadMore,
+  highlight,
+  canFavourite = false,
+  onCustomise
+}: ItineraryViewerProps) {
   const [selectedItinerary, setSelectedItinerary] = useState<Itinerary | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const isControlled = onOpenItinerary !== undefined;
 
-  const isNew = (createdAt: number) => {
-    const twoDaysAgo = Date.now() - (2 * 24 * 60 * 60 * 1000);
-    return createdAt > twoDaysAgo;
-  };
+  // Sync the dialog with the requested id; deep links may point at an itinerary outside the current list
+  useEffect(() => {
+    if (!isControlled) return;
 
-  // Fallback image function for itineraries without images
-  const getItineraryImage = (itinerary: Itinerary) => {
-    if (itinerary.imageUrl) {
-      return itinerary.imageUrl;
+    if (!openItineraryId) {
+      setIsDialogOpen(false);
+      return;
     }
-    
-    // Fallback images based on destination
-    const imageMap: { [key: string]: string } = {
-      'Ladakh': 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=400&h=250&fit=crop',
-      'Goa': 'https://images.unsplash.com/photo-1512343879784-a960bf40e7f2?w=400&h=250&fit=crop',
-      'Kerala': 'https://images.unsplash.com/photo-1602216056096-3b40cc0c9944?w=400&h=250&fit=crop',
-      'Rajasthan': 'https://images.unsplash.com/photo-1477587458883-47145ed94245?w=400&h=250&fit=crop',
-      'Kashmir': 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=400&h=250&fit=crop',
-    };
-    
-    return imageMap[itinerary.destination] || 'https://images.unsplash.com/photo-1524492412937-b28074a5d7da?w=400&h=250&fit=crop';
-  };
 
-  const getOverviewText = (itinerary: Itinerary) => {
-    // Use custom description if available, otherwise generate one
-    if (itinerary.description) {
-      return itinerary.description;
+    const listed = itineraries.find(it => it.id === openItineraryId);
+    if (listed) {
+      setSelectedItinerary(listed);
+      setIsDialogOpen(true);
+      return;
     }
-    
-    const totalActivities = itinerary.days.reduce((acc, day) => acc + day.activities.length, 0);
-    const firstFewActivities = itinerary.days.slice(0, 2).map(day => day.activities[0]).filter(Boolean);
-    
-    return `${itinerary.days.length}-day journey featuring ${totalActivities} curated activities. Experience ${firstFewActivities.join(', ')} and much more in this comprehensive ${itinerary.destination} adventure.`;
+
+    let cancelled = false;
+    itinerariesAPI.getById(openItineraryId)
+      .then(itinerary => {
+        if (cancelled) return;
+        // Drafts, archived and out-of-schedule itineraries are not reachable by link
+        if (!isLive(itinerary)) throw new Error(`Itinerary ${itinerary.id} is not live`);
+        setSelectedItinerary(itinerary);
+        setIsDialogOpen(true);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error fetching itinerary:', error);
+        toast.error('That itinerary could not be found');
+        onOpenItinerary?.(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isControlled, openItineraryId, itineraries, onOpenItinerary]);
+
+  const isNew = (createdAt: number) => {
+    const twoDaysAgo = Date.now() - (2 * 24 * 60 * 60 * 1000);
+    return createdAt > twoDaysAgo;
   };
 
   const handleCardClick = (itinerary: Itinerary) => {
+    if (isControlled) {
+      onOpenItinerary?.(itinerary.id);
+      return;
+    }
     setSelectedItinerary(itinerary);
     setIsDialogOpen(true);
   };
 
-  const handleDownload = (itinerary: Itinerary) => {
-    const content = `${itinerary.title}\n${itinerary.destination}\n${itinerary.duration}\n\n${itinerary.days.map(day => 
-      `Day ${day.day}:\n${day.activities.map(a => `- ${a}`).join('\n')}`
-    ).join('\n\n')}`;
-
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${itinerary.destination}-Itinerary.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    toast.success('Itinerary downloaded successfully');
-  };
-
-  const handleJsonDownload = (itinerary: Itinerary) => {
-    const fileData = JSON.stringify(itinerary, null, 2);
-    const blob = new Blob([fileData], {type: 'application/json'});
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.download = `itinerary-${itinerary.destination}.json`;
-    link.href = url;
-    link.click();
+  const handleDialogOpenChange = (open: boolean) => {
+    if (isControlled && !open) {
+      onOpenItinerary?.(null);
+      return;
+    }
+    setIsDialogOpen(open);
   };
 
   return (
     <div>
-      <div className="mb-6">
-        <h2 className="text-slate-900 font-semibold text-xl">Itineraries</h2>
-        <p className="text-slate-600">View and download day-wise travel plans</p>
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-slate-900 font-semibold text-xl">Itineraries</h2>
+          <p className="text-slate-600">View and download day-wise travel plans</p>
+        </div>
+        {onCustomise && (
+          <Button variant="outline" onClick={() => onCustomise(null)} className="flex-shrink-0">
+            <Compass className="w-4 h-4 mr-2" />
+            Build your own
+          </Button>
+        )}
       </div>
 
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
@@ -103,9 +132,12 @@ export function ItineraryViewer({ itineraries }: ItineraryViewerProps) {
                 alt={itinerary.destination}
                 className="w-full h-full object-cover"
                 onError={(e) => {
-                  e.currentTarget.src = 'https://images.unsplash.com/photo-1524492412937-b28074a5d7da?w=400&h=250&fit=crop';
+                  e.currentTarget.src = DEFAULT_ITINERARY_IMAGE;
                 }}
               />
+              {canFavourite && (
+                <FavouriteButton type="itineraries" record={itinerary} className="absolute top-3 left-3" />
+              )}
               {/* NEW badge in top-right */}
               {isNew(itinerary.createdAt) && (
                 <div className="absolute top-3 right-3">
@@ -130,32 +162,28 @@ export function ItineraryViewer({ itineraries }: ItineraryViewerProps) {
 
             {/* Content Section */}
             <CardHeader className="pb-3">
-              <CardTitle className="text-lg line-clamp-2">{itinerary.title}</CardTitle>
+              <CardTitle className="text-lg line-clamp-2">
+                <HighlightedText text={itinerary.title} terms={highlight} />
+              </CardTitle>
               <CardDescription className="text-sm line-clamp-4">
-                {itinerary.description || getOverviewText(itinerary)}
+                <HighlightedText text={itinerary.description || getOverviewText(itinerary)} terms={highlight} />
               </CardDescription>
             </CardHeader>
 
             {/* Download Button in Card */}
             <div className="p-4 border-t">
-              <Button 
-                size="sm" 
-                variant="outline" 
-                onClick={(e) => {
-                  e.stopPropagation();
-                  handleDownload(itinerary);
-                }}
-                className="w-full"
-              >
-                <Download className="w-4 h-4 mr-2" /> Download
-              </Button>
+              <ItineraryDownloadMenu itinerary={itinerary} variant="outline" size="sm" className="w-full" />
             </div>
           </Card>
         ))}
       </div>
 
+      {onLoadMore && (
+        <LoadMoreTrigger hasMore={hasMore} isLoading={isLoading} onLoadMore={onLoadMore} />
+      )}
+
       {/* Dialog for Full Itinerary View */}
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
@@ -185,43 +213,50 @@ export function ItineraryViewer({ itineraries }: ItineraryViewerProps) {
               {/* Overview */}
               <div className="bg-purple-50/50 p-4 rounded-lg">
                 <h3 className="text-lg font-semibold text-slate-900 mb-2">Trip Overview</h3>
-                <p className="text-slate-700">{getOverviewText(selectedItinerary)}</p>
+                <p className="text-slate-700">
+                  <HighlightedText text={getOverviewText(selectedItinerary)} terms={highlight} />
+                </p>
+                {itineraryCost(selectedItinerary) > 0 && (
+                  <p className="text-sm text-slate-600 mt-2">
+                    Estimated cost: <span className="font-medium">{formatINR(itineraryCost(selectedItinerary))}</span> per person
+                  </p>
+                )}
               </div>
 
               {/* Day-wise Details */}
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold text-slate-900">Day-wise Itinerary</h3>
-                {selectedItinerary.days.map((day) => (
-                  <div key={day.day} className="border-l-4 border-purple-500 pl-6 py-4 bg-purple-50/50 rounded-r-lg">
-                    <h4 className="text-purple-700 font-semibold mb-3 text-lg">Day {day.day}</h4>
-                    <ul className="space-y-2">
-                      {day.activities.map((activity, idx) => (
-                        <li key={idx} className="text-slate-700 flex items-start gap-3">
-                          <span className="text-purple-500 mt-1 text-sm">•</span>
-                          <span>{activity}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                ))}
+                <ItineraryTimeline days={selectedItinerary.days} highlight={highlight} />
               </div>
 
               {/* Download Button */}
               <div className="pt-4 border-t">
-                <Button
-                  onClick={() => selectedItinerary && handleDownload(selectedItinerary)}
-                  className="w-full bg-purple-600 hover:bg-purple-700"
-                >
-                  <Download className="w-4 h-4 mr-2" />
-                  Download Complete Itinerary
-                </Button>
+                <ItineraryDownloadMenu
+                  itinerary={selectedItinerary}
+                  label="Download Complete Itinerary"
+                  className="w-full"
+                  buttonClassName="bg-purple-600 hover:bg-purple-700"
+                />
+                {onCustomise && (
+                  <Button
+                    variant="outline"
+                    className="w-full mt-2"
+                    onClick={() => {
+                      handleDialogOpenChange(false);
+                      onCustomise(selectedItinerary);
+                    }}
+                  >
+                    <Copy className="w-4 h-4 mr-2" />
+                    Customise a copy of this itinerary
+                  </Button>
+                )}
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
 
-      {itineraries.length === 0 && (
+      {itineraries.length === 0 && !isLoading && (
         <Card>
           <CardContent className="text-center py-12">
             <p className="text-slate-500">No itineraries available.</p>
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import { Button } from './ui/button';
+import { Loader2 } from 'lucide-react';
+
+type LoadMoreTriggerProps = {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+};
+
+// Infinite-scroll sentinel: loads the next page when it scrolls into view, with a button as fallback
+export function LoadMoreTrigger({ hasMore, isLoading, onLoadMore }: LoadMoreTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
+
+  if (!hasMore && !isLoading) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center pt-8">
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-slate-500 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading more...
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" onClick={onLoadMore}>
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
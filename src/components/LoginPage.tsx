@@ -2,22 +2,29 @@ import { useState } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { Card, CardContent, CardHeader } from './ui/card';
 import { Alert, AlertDescription } from './ui/alert';
-import { AlertCircle, Loader2 } from 'lucide-react';
+import { AlertCircle, Clock, Loader2, ShieldCheck } from 'lucide-react';
+import { User } from '../App';
 import { authAPI } from '../services/api';
-import elephantLogo from '../logo.png';
-import bgImage from '../bg.jpg';
+import { AuthCard, AuthLink } from './AuthCard';
+import { MfaCodeInput, MFA_CODE_LENGTH } from './MfaCodeInput';
 
 type LoginPageProps = {
-  onLogin: (user: any, token: string) => void;
+  onLogin: (user: User, token: string) => void;
+  initialEmail?: string;
+  notice?: string; // Informational message shown above the form, e.g. after the session expired
 };
 
-export function LoginPage({ onLogin }: LoginPageProps) {
-  const [email, setEmail] = useState('');
+export function LoginPage({ onLogin, initialEmail = '', notice }: LoginPageProps) {
+  const [email, setEmail] = useState(initialEmail);
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  // Set once the password is accepted for an account with two-factor authentication
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,9 +39,12 @@ export function LoginPage({ onLogin }: LoginPageProps) {
 
     try {
       const response = await authAPI.login(email, password);
-      // Backend returns: { message, user, token }
+      // Backend returns: { message, user, token }, or { mfaRequired, mfaToken } when a code is needed too
       // Check if we have user and token (successful login)
-      if (response.user && response.token) {
+      if (response.mfaRequired && response.mfaToken) {
+        setMfaToken(response.mfaToken);
+        setPassword('');
+      } else if (response.user && response.token) {
         onLogin(response.user, response.token);
       } else {
         setError('Invalid email or password');
@@ -47,79 +57,187 @@ export function LoginPage({ onLogin }: LoginPageProps) {
     }
   };
 
-  return (
-    <div 
-      className="min-h-screen flex items-center justify-center p-4 bg-cover bg-center bg-no-repeat"
-      style={{ backgroundImage: `url(${bgImage})` }}>
-      {/* Optional overlay for better readability */}
-      <div className="absolute inset-0 bg-black bg-opacity-30"></div>
-      
-      <div className="relative z-10 w-full max-w-md">
-        <Card className="w-full max-w-md backdrop-blur-sm bg-white/95">
-          <CardHeader className="text-center pb-0">
-            <div className="flex justify-center mb-0 mt-0 p-0">
-              <img src={elephantLogo} alt="Immersive Tours" className="w-40 h-30 object-contain" />
-            </div>
-            <div className="text-center mb-5 mt-2">
-              <p className="text-black drop-shadow-md">Discover the beauty of Incredible India</p>
-            </div>
-            <div className="w-full border-t border-gray-200 mb-4"></div>
-            <div className="pb-4">
-              <h2 className="text-2xl font-bold text-gray-900">Welcome Back</h2>
-              <p className="mt-2 text-gray-600">Sign in to access your dashboard</p>
+  const handleVerify = async (code: string) => {
+    if (!mfaToken) return;
+    setError('');
+
+    if (!code) {
+      setError(useRecoveryCode ? 'Please enter one of your recovery codes' : 'Please enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await authAPI.verifyMfa(mfaToken, code);
+      if (response.user && response.token) {
+        onLogin(response.user, response.token);
+      } else {
+        setError('That code did not work');
+      }
+    } catch (error: any) {
+      setError(error.message || 'That code did not work');
+      setMfaCode('');
+      setRecoveryCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backToPassword = () => {
+    setMfaToken(null);
+    setMfaCode('');
+    setRecoveryCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
+  if (mfaToken) {
+    return (
+      <AuthCard
+        title="Two-factor authentication"
+        subtitle={useRecoveryCode ? 'Enter one of the recovery codes you saved' : 'Enter the code from your authenticator app'}
+        footer={
+          <p>
+            <button type="button" onClick={backToPassword} className="font-medium text-orange-600 hover:text-orange-700 hover:underline">
+              Back to log in
+            </button>
+          </p>
+        }
+      >
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleVerify(useRecoveryCode ? recoveryCode.trim() : mfaCode);
+          }}
+          className="space-y-4"
+        >
+          {useRecoveryCode ? (
+            <div className="space-y-2">
+              <Label htmlFor="recovery-code">Recovery code</Label>
+              <Input
+                id="recovery-code"
+                placeholder="xxxxx-xxxxx"
+                value={recoveryCode}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRecoveryCode(e.target.value)}
+                autoComplete="off"
+                autoFocus
+              />
             </div>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="Enter your email"
-                  value={email}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
-                  autoComplete="email"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password"
-                  value={password}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
-                  autoComplete="current-password"
-                />
-              </div>
-
-              {error && (
-                <Alert variant="destructive">
-                  <AlertCircle className="h-4 w-4" />
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              )}
-
-              <Button 
-                type="submit" 
-                className="w-full bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white"
-                disabled={loading}
-              >
-                {loading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Logging in...
-                  </>
-                ) : (
-                  "Log in"
-                )}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-      </div>
-    </div>
+          ) : (
+            <MfaCodeInput
+              value={mfaCode}
+              onChange={setMfaCode}
+              onComplete={handleVerify}
+              disabled={loading}
+              autoFocus
+            />
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white"
+            disabled={loading || (!useRecoveryCode && mfaCode.length !== MFA_CODE_LENGTH)}
+          >
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Verifying...
+              </>
+            ) : (
+              <>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Verify
+              </>
+            )}
+          </Button>
+
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setError('');
+            }}
+            className="w-full text-center text-sm text-slate-600 hover:underline"
+          >
+            {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your phone? Use a recovery code'}
+          </button>
+        </form>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Welcome Back"
+      subtitle="Sign in to access your dashboard"
+      footer={
+        <>
+          <p><AuthLink to="/forgot-password">Forgot your password?</AuthLink></p>
+          <p>New here? <AuthLink to="/register">Create an account</AuthLink></p>
+        </>
+      }
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {notice && !error && (
+          <Alert>
+            <Clock className="h-4 w-4" />
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="email">Email</Label>
+          <Input
+            id="email"
+            type="email"
+            placeholder="Enter your email"
+            value={email}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+            autoComplete="email"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="password">Password</Label>
+          <Input
+            id="password"
+            type="password"
+            placeholder="Enter your password"
+            value={password}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+            autoComplete="current-password"
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button 
+          type="submit" 
+          className="w-full bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white"
+          disabled={loading}
+        >
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Logging in...
+            </>
+          ) : (
+            "Log in"
+          )}
+        </Button>
+      </form>
+    </AuthCard>
   );
 }
@@ -0,0 +1,43 @@
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from './ui/input-otp';
+
+export const MFA_CODE_LENGTH = 6;
+
+type MfaCodeInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once all six digits are in, so the code can be submitted without pressing a button
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+};
+
+// Six-digit authenticator code, shown as two groups of three like most authenticator apps
+export function MfaCodeInput({ value, onChange, onComplete, disabled, autoFocus }: MfaCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={MFA_CODE_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus={autoFocus}
+      autoComplete="one-time-code"
+      aria-label="Authentication code"
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
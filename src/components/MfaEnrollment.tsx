@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertCircle, Copy, Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { authAPI, MfaSetup } from '../services/api';
+import { saveBlob } from '../services/download';
+import { MfaCodeInput, MFA_CODE_LENGTH } from './MfaCodeInput';
+
+type MfaEnrollmentProps = {
+  onEnrolled: () => void;
+  onCancel?: () => void;
+};
+
+type Step = 'loading' | 'scan' | 'codes';
+
+// "JBSWY3DPEHPK3PXP" -> "JBSW Y3DP EHPK 3PXP", easier to type into an app by hand
+const groupSecret = (secret: string) => (secret.match(/.{1,4}/g) || []).join(' ');
+
+// Set up an authenticator app: scan the secret, confirm with a first code, then save the recovery codes
+export function MfaEnrollment({ onEnrolled, onCancel }: MfaEnrollmentProps) {
+  const [step, setStep] = useState<Step>('loading');
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [hasSavedCodes, setHasSavedCodes] = useState(false);
+  const [error, setError] = useState('');
+  const [verifying, setVerifying] = useState(false);
+
+  const startSetup = useCallback(async (isCancelled: () => boolean = () => false) => {
+    setError('');
+    setStep('loading');
+    try {
+      const result = await authAPI.mfa.setup();
+      if (isCancelled()) return;
+      setSetup(result);
+      setStep('scan');
+    } catch (error: any) {
+      if (isCancelled()) return;
+      setError(error.message || 'Failed to start two-factor setup');
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    startSetup(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [startSetup]);
+
+  const handleVerify = async (value = code) => {
+    if (value.length !== MFA_CODE_LENGTH) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setError('');
+    setVerifying(true);
+    try {
+      const { recoveryCodes: codes } = await authAPI.mfa.enable(value);
+      setRecoveryCodes(codes);
+      setStep('codes');
+    } catch (error: any) {
+      setError(error.message || 'That code did not match. Try the newest code in your app.');
+      setCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied successfully');
+    } catch (error) {
+      toast.error('Failed to copy recovery codes');
+    }
+  };
+
+  const handleDownload = () => {
+    const text = ['Immerse India recovery codes', 'Each code works once.', '', ...recoveryCodes, ''].join('\n');
+    saveBlob(new Blob([text], { type: 'text/plain' }), 'immerse-india-recovery-codes.txt');
+  };
+
+  if (step === 'loading') {
+    return error ? (
+      <div className="space-y-4">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+        <Button onClick={() => startSetup()} className="w-full">Try again</Button>
+      </div>
+    ) : (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-8 w-8 animate-spin text-orange-600" />
+      </div>
+    );
+  }
+
+  if (step === 'codes') {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600">
+          Two-factor authentication is on. If you lose your phone, each of these codes lets you sign in once.
+          Keep them somewhere safe; they will not be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 rounded-md border bg-slate-50 p-4 font-mono text-sm">
+          {recoveryCodes.map(recoveryCode => (
+            <li key={recoveryCode} className="text-center">{recoveryCode}</li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={handleCopy}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={handleDownload}>
+            <Download className="w-4 h-4 mr-2" />
+            Download
+          </Button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <Checkbox checked={hasSavedCodes} onCheckedChange={(checked) => setHasSavedCodes(checked === true)} />
+          I have saved my recovery codes
+        </label>
+        <Button onClick={onEnrolled} disabled={!hasSavedCodes} className="w-full">
+          Done
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleVerify();
+      }}
+      className="space-y-4"
+    >
+      <ol className="list-decimal space-y-1 pl-5 text-sm text-slate-600">
+        <li>Open an authenticator app such as Google Authenticator, 1Password or Authy.</li>
+        <li>Scan the QR code, or enter the setup key by hand.</li>
+        <li>Type the 6-digit code the app shows.</li>
+      </ol>
+
+      {setup?.qrCode && (
+        <div className="flex justify-center">
+          <img src={setup.qrCode} alt="QR code for your authenticator app" className="h-44 w-44 rounded-md border bg-white p-2" />
+        </div>
+      )}
+
+      <div className="rounded-md border bg-slate-50 px-3 py-2 text-center">
+        <p className="text-xs text-slate-500">Setup key</p>
+        <p className="font-mono text-sm tracking-wider text-slate-900 break-all">{setup ? groupSecret(setup.secret) : ''}</p>
+        {setup?.otpauthUrl && (
+          <a href={setup.otpauthUrl} className="text-xs font-medium text-orange-600 hover:underline">
+            Open in an authenticator app on this device
+          </a>
+        )}
+      </div>
+
+      <MfaCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={verifying} autoFocus />
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" className="flex-1" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" className="flex-1" disabled={verifying}>
+          {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Turn on
+        </Button>
+      </div>
+    </form>
+  );
+}
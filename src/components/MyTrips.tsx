@@ -0,0 +1,324 @@
+import { useMemo, useState } from 'react';
+import { AppData, Itinerary } from '../App';
+import { Button, buttonVariants } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog';
+import { Check, Compass, FolderPlus, Heart, MapPin, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { FavouriteButton } from './FavouriteButton';
+import { ItineraryDownloadMenu } from './ItineraryDownloadMenu';
+import { useTrips } from '../hooks/useTrips';
+import { boardFavourites, favouriteKey, freshFavourites, Favourite, FavouriteType } from '../services/trips';
+
+type MyTripsProps = {
+  data: AppData; // the loaded content, whose records replace the copies saved with each favourite
+  now: number; // favourites that are not live at this time are hidden
+  boardId: string | null; // null shows every favourite
+  onSelectBoard: (boardId: string | null) => void;
+  onOpenItinerary: (id: string) => void;
+  onEditPlan: (plan: Itinerary | null) => void; // opens the builder on one of the traveller's itineraries, or a blank one
+};
+
+const TYPE_LABELS: Record<FavouriteType, string> = {
+  experiences: 'Experience',
+  itineraries: 'Itinerary',
+  images: 'Image'
+};
+
+// Experiences and itineraries without an image of their own
+const FALLBACK_IMAGE = 'https://images.unsplash.com/photo-1524492412937-b28074a5d7da?w=400&h=250&fit=crop';
+
+const describe = (favourite: Favourite) => {
+  switch (favourite.type) {
+    case 'experiences':
+      return { title: favourite.record.title, imageUrl: favourite.record.imageUrl };
+    case 'itineraries':
+      return { title: favourite.record.title, imageUrl: favourite.record.imageUrl };
+    case 'images':
+      return { title: favourite.record.caption, imageUrl: favourite.record.url };
+  }
+};
+
+// The traveller's own itineraries and favourites, with the favourites grouped into named trip boards
+export function MyTrips({ data, now, boardId, onSelectBoard, onOpenItinerary, onEditPlan }: MyTripsProps) {
+  const trips = useTrips();
+  const { boards, plans } = trips;
+  const favourites = useMemo(() => freshFavourites(trips.favourites, data, now), [trips.favourites, data, now]);
+  const liveTrips = { ...trips, favourites };
+  const [newBoardName, setNewBoardName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  // The board or itinerary waiting for delete confirmation
+  const [deleting, setDeleting] = useState<{ kind: 'board' | 'plan'; id: string; name: string } | null>(null);
+
+  const board = boards.find(item => item.id === boardId) || null;
+  const shown = board ? boardFavourites(liveTrips, board) : favourites;
+
+  const selectBoard = (id: string | null) => {
+    setRenaming(null);
+    onSelectBoard(id);
+  };
+
+  const handleCreateBoard = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newBoardName.trim();
+    if (!name) return;
+    const created = trips.createBoard(name);
+    setNewBoardName('');
+    toast.success(`Board "${created.name}" created successfully`);
+    selectBoard(created.id);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (board && renaming !== null && renaming.trim()) {
+      trips.renameBoard(board.id, renaming);
+    }
+    setRenaming(null);
+  };
+
+  const handleConfirmDelete = () => {
+    if (!deleting) return;
+    if (deleting.kind === 'board') {
+      trips.deleteBoard(deleting.id);
+      toast.success(`Board "${deleting.name}" deleted successfully`);
+      selectBoard(null);
+    } else {
+      trips.deletePlan(deleting.id);
+      toast.success(`Itinerary "${deleting.name}" deleted successfully`);
+    }
+    setDeleting(null);
+  };
+
+  const renderBoardMenu = (favourite: Favourite) => {
+    const key = favouriteKey(favourite.type, favourite.record.id);
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <FolderPlus className="w-4 h-4 mr-2" />
+            Boards
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Save to board</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {boards.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-slate-500">Create a board first</p>
+          )}
+          {boards.map(item => (
+            <DropdownMenuCheckboxItem
+              key={item.id}
+              checked={item.items.includes(key)}
+              onCheckedChange={(checked) => trips.setOnBoard(item.id, favourite, checked === true)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {item.name}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-slate-900 font-semibold text-xl">My Trips</h2>
+        <p className="text-slate-600">Your own itineraries, and favourites grouped into trip boards</p>
+      </div>
+
+      {/* The traveller's own itineraries */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <h3 className="text-slate-900 font-semibold text-lg">My itineraries</h3>
+          <Button variant="outline" size="sm" onClick={() => onEditPlan(null)}>
+            <Compass className="w-4 h-4 mr-2" />
+            Build your own
+          </Button>
+        </div>
+        {plans.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            Build a day-by-day plan from experiences, or customise a copy of any itinerary. Only you can see them.
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {plans.map(plan => (
+              <Card key={plan.id}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base line-clamp-1">{plan.title}</CardTitle>
+                  <CardDescription>{plan.destination} • {plan.duration}</CardDescription>
+                </CardHeader>
+                <CardContent className="pt-0 flex flex-wrap items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onEditPlan(plan)}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                  <ItineraryDownloadMenu itinerary={plan} variant="outline" size="sm" />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    aria-label="Delete itinerary"
+                    onClick={() => setDeleting({ kind: 'plan', id: plan.id, name: plan.title })}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Favourites and board tabs */}
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-slate-900 font-semibold text-lg">Favourites</h3>
+        <form onSubmit={handleCreateBoard} className="flex gap-2">
+          <Input
+            value={newBoardName}
+            onChange={(e) => setNewBoardName(e.target.value)}
+            placeholder='New board, e.g. "Honeymoon in Kerala"'
+            className="w-64"
+            maxLength={60}
+          />
+          <Button type="submit" disabled={!newBoardName.trim()} className="bg-rose-600 hover:bg-rose-700">
+            <Plus className="w-4 h-4 mr-2" />
+            Create
+          </Button>
+        </form>
+      </div>
+      <div className="flex gap-2 mb-6 overflow-x-auto pb-1">
+        <Button variant={board ? 'outline' : 'default'} size="sm" onClick={() => selectBoard(null)}>
+          <Heart className="w-4 h-4 mr-2" />
+          All favourites ({favourites.length})
+        </Button>
+        {boards.map(item => (
+          <Button
+            key={item.id}
+            variant={item.id === board?.id ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => selectBoard(item.id)}
+          >
+            {item.name} ({boardFavourites(liveTrips, item).length})
+          </Button>
+        ))}
+      </div>
+
+      {board && (
+        <div className="flex items-center gap-2 mb-4">
+          {renaming !== null ? (
+            <form onSubmit={handleRename} className="flex items-center gap-2">
+              <Input value={renaming} onChange={(e) => setRenaming(e.target.value)} className="w-64" maxLength={60} autoFocus />
+              <Button type="submit" size="sm" variant="ghost" aria-label="Save name">
+                <Check className="w-4 h-4" />
+              </Button>
+              <Button type="button" size="sm" variant="ghost" aria-label="Cancel" onClick={() => setRenaming(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </form>
+          ) : (
+            <>
+              <h3 className="text-slate-900 font-semibold text-lg">{board.name}</h3>
+              <Button size="sm" variant="ghost" aria-label="Rename board" onClick={() => setRenaming(board.name)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" aria-label="Delete board" onClick={() => setDeleting({ kind: 'board', id: board.id, name: board.name })}>
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {shown.map(favourite => {
+          const { title, imageUrl } = describe(favourite);
+          return (
+            <Card key={favouriteKey(favourite.type, favourite.record.id)} className="overflow-hidden hover:shadow-lg transition-shadow">
+              <div className="relative h-40 overflow-hidden">
+                <ImageWithFallback
+                  src={imageUrl || FALLBACK_IMAGE}
+                  fallbackSrc={FALLBACK_IMAGE}
+                  alt={title}
+                  className="w-full h-full object-cover"
+                />
+                <FavouriteButton type={favourite.type} record={favourite.record} className="absolute top-3 left-3" />
+                <div className="absolute bottom-3 left-3 flex flex-wrap gap-2">
+                  <div className="inline-flex items-center gap-1 px-2 py-1 bg-black/70 text-white rounded-full text-xs font-medium">
+                    <MapPin className="w-3 h-3" />
+                    {favourite.record.destination}
+                  </div>
+                  <Badge variant="secondary" className="bg-white/90 text-slate-700 text-xs">
+                    {TYPE_LABELS[favourite.type]}
+                  </Badge>
+                </div>
+              </div>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base line-clamp-2">{title}</CardTitle>
+                <CardDescription className="text-sm">{favourite.record.region}</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-0 flex gap-2">
+                {favourite.type === 'itineraries' && (
+                  <Button variant="outline" size="sm" onClick={() => onOpenItinerary(favourite.record.id)}>
+                    View itinerary
+                  </Button>
+                )}
+                <div className="ml-auto">{renderBoardMenu(favourite)}</div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {shown.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-slate-500">
+              {board
+                ? 'This board is empty. Use the Boards menu on any favourite to add it here.'
+                : 'Nothing saved yet. Tap the heart on an experience, itinerary or image to keep it here.'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this {deleting?.kind === 'plan' ? 'itinerary' : 'board'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.name}" will be removed.{' '}
+              {deleting?.kind === 'plan' ? 'This cannot be undone.' : 'The items on it stay in your favourites.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={handleConfirmDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { PasswordStrength } from '../services/passwordStrength';
+
+type PasswordStrengthMeterProps = {
+  strength: PasswordStrength;
+};
+
+const BAR_CLASSES = ['bg-red-500', 'bg-red-500', 'bg-amber-500', 'bg-lime-500', 'bg-green-600'];
+
+// Four-segment bar with the strength label and what still needs fixing
+export function PasswordStrengthMeter({ strength }: PasswordStrengthMeterProps) {
+  if (!strength.label) return null;
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map(segment => (
+          <div
+            key={segment}
+            className={`h-1.5 flex-1 rounded-full ${segment <= Math.max(strength.score, 1) ? BAR_CLASSES[strength.score] : 'bg-gray-200'}`}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-gray-600">Password strength: {strength.label}</p>
+      {strength.problems.length > 0 && (
+        <ul className="list-disc pl-5 text-xs text-red-600">
+          {strength.problems.map(problem => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertCircle, Loader2, MailCheck } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { checkPassword } from '../services/passwordStrength';
+import { AuthCard, AuthLink } from './AuthCard';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+import { ResendVerification } from './VerifyEmailPage';
+
+// Self-service sign-up for travellers; the account works once the emailed link has been opened
+export function RegisterPage() {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [registeredEmail, setRegisteredEmail] = useState<string | null>(null);
+
+  const strength = checkPassword(password, { email, name });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!name.trim() || !email.trim() || !password) {
+      setError('Please fill in every field');
+      return;
+    }
+    if (!strength.acceptable) {
+      setError(strength.problems[0]);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('The passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authAPI.register({ name: name.trim(), email: email.trim(), password });
+      setRegisteredEmail(email.trim());
+    } catch (error: any) {
+      setError(error.message || 'Registration failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (registeredEmail) {
+    return (
+      <AuthCard
+        title="Check your email"
+        subtitle="One more step to finish creating your account"
+        footer={<p><AuthLink to="/login">Back to log in</AuthLink></p>}
+      >
+        <div className="space-y-4">
+          <Alert>
+            <MailCheck className="h-4 w-4" />
+            <AlertDescription>
+              We sent a verification link to <strong>{registeredEmail}</strong>. Open it to activate your account.
+            </AlertDescription>
+          </Alert>
+          <ResendVerification email={registeredEmail} />
+        </div>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Create an account"
+      subtitle="Plan trips and save your favourite experiences"
+      footer={<p>Already have an account? <AuthLink to="/login">Log in</AuthLink></p>}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="register-name">Name</Label>
+          <Input
+            id="register-name"
+            placeholder="Enter your name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoComplete="name"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="register-email">Email</Label>
+          <Input
+            id="register-email"
+            type="email"
+            placeholder="Enter your email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="register-password">Password</Label>
+          <Input
+            id="register-password"
+            type="password"
+            placeholder="Choose a password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+          />
+          <PasswordStrengthMeter strength={strength} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="register-confirm">Confirm password</Label>
+          <Input
+            id="register-confirm"
+            type="password"
+            placeholder="Enter the password again"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            autoComplete="new-password"
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white"
+          disabled={loading}
+        >
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Creating account...
+            </>
+          ) : (
+            'Create account'
+          )}
+        </Button>
+      </form>
+    </AuthCard>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { checkPassword } from '../services/passwordStrength';
+import { navigate } from '../hooks/useRoute';
+import { AuthCard, AuthLink } from './AuthCard';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+
+type ResetPasswordPageProps = {
+  token: string;
+  email?: string; // included in the link so the strength check can reject passwords built from it
+};
+
+// Second half of the reset flow, opened from the emailed link; invited users set their first password here too
+export function ResetPasswordPage({ token, email = '' }: ResetPasswordPageProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const strength = checkPassword(password, { email });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!strength.acceptable) {
+      setError(strength.problems[0]);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('The passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authAPI.resetPassword(token, password);
+      setDone(true);
+    } catch (error: any) {
+      setError(error.message || 'Failed to reset your password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <AuthCard
+        title="Link incomplete"
+        subtitle="This password reset link is missing its code"
+        footer={<p><AuthLink to="/login">Back to log in</AuthLink></p>}
+      >
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Open the link from the email again, or <AuthLink to="/forgot-password">request a new one</AuthLink>.
+          </AlertDescription>
+        </Alert>
+      </AuthCard>
+    );
+  }
+
+  if (done) {
+    return (
+      <AuthCard title="Password updated" subtitle="You can now log in with your new password">
+        <div className="space-y-4">
+          <Alert>
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            <AlertDescription>Your password has been changed.</AlertDescription>
+          </Alert>
+          <Button
+            onClick={() => navigate('/login')}
+            className="w-full bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white"
+          >
+            Continue to log in
+          </Button>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Choose a new password"
+      subtitle={email ? `For ${email}` : 'Enter it twice to confirm'}
+      footer={<p>Link expired? <AuthLink to="/forgot-password">Request a new one</AuthLink></p>}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="reset-password">New password</Label>
+          <Input
+            id="reset-password"
+            type="password"
+            placeholder="Choose a password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+          />
+          <PasswordStrengthMeter strength={strength} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reset-confirm">Confirm new password</Label>
+          <Input
+            id="reset-confirm"
+            type="password"
+            placeholder="Enter the password again"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            autoComplete="new-password"
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white"
+          disabled={loading}
+        >
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Set new password'
+          )}
+        </Button>
+      </form>
+    </AuthCard>
+  );
+}
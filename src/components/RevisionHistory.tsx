@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDateTime } from './DateTimePicker';
+import type { ResourceClient } from '../services/api';
+import {
+  listRevisions,
+  diffRevisions,
+  isEmptyDiff,
+  revisionInput,
+  Revision,
+  RevisionType,
+  RevisionRecord,
+  FieldChange,
+  ListChange,
+  DayChange
+} from '../services/revisions';
+
+type RevisionHistoryProps<K extends RevisionType> = {
+  type: K;
+  record: RevisionRecord[K];
+  client: Pick<ResourceClient<RevisionRecord[K]>, 'update'>;
+  onRestored: () => void | Promise<void>;
+};
+
+const revisionLabel = (revision: Revision<unknown>) =>
+  `${formatDateTime(revision.savedAt)} · ${revision.author ? revision.author.name : 'Before history'}`;
+
+function FieldRows({ changes }: { changes: FieldChange[] }) {
+  return (
+    <>
+      {changes.map(change => (
+        <div key={change.label} className="grid grid-cols-[7rem_1fr] gap-2 text-sm">
+          <span className="text-slate-500">{change.label}</span>
+          <div className="space-y-1">
+            <p className="rounded bg-red-50 px-2 py-1 text-red-800 line-through">{change.before || <em>empty</em>}</p>
+            <p className="rounded bg-green-50 px-2 py-1 text-green-800">{change.after || <em>empty</em>}</p>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function ListRows({ changes }: { changes: ListChange[] }) {
+  return (
+    <>
+      {changes.map(change => (
+        <div key={change.label} className="grid grid-cols-[7rem_1fr] gap-2 text-sm">
+          <span className="text-slate-500">{change.label}</span>
+          <ul className="space-y-1">
+            {change.removed.map(item => (
+              <li key={`-${item}`} className="rounded bg-red-50 px-2 py-1 text-red-800">− {item}</li>
+            ))}
+            {change.added.map(item => (
+              <li key={`+${item}`} className="rounded bg-green-50 px-2 py-1 text-green-800">+ {item}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </>
+  );
+}
+
+const DAY_CHANGE_LABELS: Record<DayChange['change'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed'
+};
+
+// History panel for one experience or itinerary: every saved version, a diff between any two, and restore
+export function RevisionHistory<K extends RevisionType>({ type, record, client, onRestored }: RevisionHistoryProps<K>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<Revision<RevisionRecord[K]>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const history = (await listRevisions(type, record.id)).slice().reverse(); // newest first
+      setRevisions(history);
+      setToId(history[0]?.id || '');
+      setFromId(history[1]?.id || history[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      toast.error('Failed to load the revision history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) load();
+  };
+
+  const handleRestore = async (revision: Revision<RevisionRecord[K]>) => {
+    setRestoringId(revision.id);
+    try {
+      await client.update(record.id, revisionInput(revision, record));
+      toast.success(`Restored the version from ${formatDateTime(revision.savedAt)}`);
+      await onRestored();
+      await load();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore this version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const from = revisions.find(revision => revision.id === fromId);
+  const to = revisions.find(revision => revision.id === toId);
+  const diff = from && to ? diffRevisions(type, from.snapshot, to.snapshot) : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <Button size="sm" variant="outline" onClick={() => handleOpenChange(true)} title="History" aria-label="History">
+        <History className="w-4 h-4" />
+      </Button>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History of {record.title}</DialogTitle>
+          <DialogDescription>
+            Every save is kept as a version. Restoring brings back the content; status and schedule stay as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && revisions.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-slate-500">No versions recorded yet. The next save starts the history.</p>
+        ) : (
+          <div className="space-y-6">
+            <ol className="max-h-56 overflow-y-auto divide-y rounded-md border">
+              {revisions.map((revision, index) => (
+                <li key={revision.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                  <div>
+                    <p className="text-slate-900">{formatDateTime(revision.savedAt)}</p>
+                    <p className="text-xs text-slate-500">
+                      {revision.author ? `${revision.author.name} (${revision.author.email})` : 'Before history was kept'}
+                    </p>
+                  </div>
+                  {index === 0 ? (
+                    <Badge variant="outline">Latest</Badge>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoringId !== null}
+                    >
+                      {restoringId === revision.id ? (
+                        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                      )}
+                      Restore
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ol>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Compare</Label>
+                <Select value={fromId} onValueChange={setFromId}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {revisions.map(revision => (
+                      <SelectItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>With</Label>
+                <Select value={toId} onValueChange={setToId}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {revisions.map(revision => (
+                      <SelectItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {diff && isEmptyDiff(diff) && <p className="text-sm text-slate-500">No differences between these versions.</p>}
+
+            {diff && !isEmptyDiff(diff) && (
+              <div className="space-y-3">
+                <FieldRows changes={diff.fields} />
+                <ListRows changes={diff.lists} />
+                {diff.days.map(day => (
+                  <div key={day.day} className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <h4 className="text-sm font-semibold text-slate-900">Day {day.day}</h4>
+                      <Badge variant="outline" className="text-xs">{DAY_CHANGE_LABELS[day.change]}</Badge>
+                    </div>
+                    <FieldRows changes={day.fields} />
+                    <ListRows changes={day.lists} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import type { Schedule } from '../App';
+import { Label } from './ui/label';
+import { DateTimePicker } from './DateTimePicker';
+import { scheduleProblem } from '../services/workflow';
+
+type ScheduleFieldsProps = {
+  value: Schedule;
+  onChange: (value: Schedule) => void;
+};
+
+// Go-live and take-down pickers shared by the content dialogs
+export function ScheduleFields({ value, onChange }: ScheduleFieldsProps) {
+  const problem = scheduleProblem(value);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="publishAt">Go live at</Label>
+          <DateTimePicker
+            id="publishAt"
+            value={value.publishAt}
+            onChange={(publishAt) => onChange({ ...value, publishAt })}
+            placeholder="As soon as published"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="expiresAt">Take down at</Label>
+          <DateTimePicker
+            id="expiresAt"
+            value={value.expiresAt}
+            onChange={(expiresAt) => onChange({ ...value, expiresAt })}
+            placeholder="Never"
+          />
+        </div>
+      </div>
+      <p className={`text-xs ${problem ? 'text-red-600' : 'text-slate-500'}`}>
+        {problem || 'The schedule applies once the item is published; times are in your local time zone'}
+      </p>
+    </div>
+  );
+}
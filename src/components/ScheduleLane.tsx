@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import type { AppData } from '../App';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet';
+import { CalendarClock, Loader2, RefreshCw, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { StatusBadge } from './StatusBadge';
+import { fetchAllContent, CONTENT_LABELS } from '../services/backup';
+import { upcomingSchedule, ScheduleEvent, isPublished } from '../services/workflow';
+
+const formatDay = (time: number) =>
+  new Date(time).toLocaleDateString('en-IN', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+
+// Events grouped under their local calendar day, keeping the soonest-first order
+const groupByDay = (events: ScheduleEvent[]) =>
+  events.reduce<{ day: string; events: ScheduleEvent[] }[]>((groups, event) => {
+    const day = formatDay(event.time);
+    const last = groups[groups.length - 1];
+    if (last && last.day === day) last.events.push(event);
+    else groups.push({ day, events: [event] });
+    return groups;
+  }, []);
+
+// Side lane listing what goes live and what comes down, and when
+export function ScheduleLane() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [content, setContent] = useState<AppData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setContent(await fetchAllContent());
+    } catch (error) {
+      console.error('Error loading schedule:', error);
+      toast.error('Failed to load the schedule');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) load();
+  };
+
+  const groups = content ? groupByDay(upcomingSchedule(content)) : [];
+
+  return (
+    <Sheet open={isOpen} onOpenChange={handleOpenChange}>
+      <Button variant="outline" onClick={() => handleOpenChange(true)} className="flex-shrink-0">
+        <CalendarClock className="w-4 h-4 mr-2" />
+        Schedule
+      </Button>
+      <SheetContent className="sm:max-w-md w-full overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Scheduled</SheetTitle>
+          <SheetDescription>Upcoming go-lives and take-downs across all content, in your local time.</SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-4 space-y-6">
+          <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+            {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Refresh
+          </Button>
+
+          {content && groups.length === 0 && (
+            <p className="text-sm text-slate-500">Nothing is scheduled. Set a go-live or take-down time when editing content.</p>
+          )}
+
+          {groups.map(group => (
+            <section key={group.day} className="space-y-2">
+              <h4 className="text-sm font-semibold text-slate-900">{group.day}</h4>
+              <ol className="border-l-2 border-slate-200 space-y-3 pl-4">
+                {group.events.map(event => (
+                  <li key={`${event.type}-${event.id}-${event.change}`} className="space-y-1">
+                    <div className="flex items-center gap-2 text-xs text-slate-500">
+                      <span className="font-medium text-slate-700">{formatTime(event.time)}</span>
+                      <Badge
+                        variant="outline"
+                        className={event.change === 'live' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}
+                      >
+                        {event.change === 'live' ? 'Goes live' : 'Taken down'}
+                      </Badge>
+                      <span>{CONTENT_LABELS[event.type]}</span>
+                    </div>
+                    <p className="text-sm text-slate-900">{event.label}</p>
+                    {event.change === 'live' && !isPublished(event) && (
+                      <p className="flex items-center gap-1 text-xs text-amber-700">
+                        <AlertCircle className="w-3 h-3" />
+                        Still <StatusBadge status={event.status} className="text-[10px] px-1 py-0" />; it only goes live once published
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </section>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AppData } from '../App';
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { Search, MapPin, Sparkles, Calendar, Clock, X } from 'lucide-react';
+import { navigate, buildPath } from '../hooks/useRoute';
+import { suggestContent, placeVocabulary, Suggestion } from '../services/search';
+import { canonicalizeQuery } from '../services/fuzzy';
+import { getRecentSearches, addRecentSearch, clearRecentSearches } from '../services/recentSearches';
+
+type SearchCommandProps = {
+  query: string;
+  data: AppData;
+  userEmail: string;
+  // Only the user dashboard has a route that opens a single itinerary
+  canOpenItineraries: boolean;
+};
+
+const suggestionIcons: Record<Suggestion['type'], typeof Search> = {
+  destination: MapPin,
+  experience: Sparkles,
+  itinerary: Calendar
+};
+
+// cmdk tracks the highlighted item by value, so each value has to be unique
+const suggestionValue = (suggestion: Suggestion) =>
+  `${suggestion.type}-${suggestion.type === 'destination' ? suggestion.label : suggestion.item.id}`;
+
+export function SearchCommand({ query, data, userEmail, canOpenItineraries }: SearchCommandProps) {
+  const [value, setValue] = useState(query);
+  const [isOpen, setIsOpen] = useState(false);
+  const [recentSearches, setRecentSearches] = useState(() => getRecentSearches(userEmail));
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setValue(query);
+  }, [query]);
+
+  useEffect(() => {
+    setRecentSearches(getRecentSearches(userEmail));
+  }, [userEmail]);
+
+  const suggestions = useMemo(() => suggestContent(value, data), [value, data]);
+  const trimmed = value.trim();
+
+  const close = () => {
+    setIsOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const runSearch = (text: string) => {
+    if (!text.trim()) return;
+    // Misspelled and old place names ("Ladak", "Bombay") are searched under the names we use
+    const nextQuery = canonicalizeQuery(text, placeVocabulary(data));
+    setRecentSearches(addRecentSearch(userEmail, nextQuery));
+    setValue(nextQuery);
+    navigate(buildPath({ section: 'search', query: nextQuery }));
+    close();
+  };
+
+  const handleSuggestion = (suggestion: Suggestion) => {
+    if (suggestion.type === 'itinerary' && canOpenItineraries) {
+      setRecentSearches(addRecentSearch(userEmail, suggestion.label));
+      navigate(buildPath({ section: 'itineraries', itemId: suggestion.item.id }));
+      close();
+      return;
+    }
+    runSearch(suggestion.label);
+  };
+
+  const handleClearRecent = () => {
+    clearRecentSearches(userEmail);
+    setRecentSearches([]);
+  };
+
+  const renderGroup = (type: Suggestion['type'], heading: string) => {
+    const group = suggestions.filter(suggestion => suggestion.type === type);
+    if (group.length === 0) return null;
+    const Icon = suggestionIcons[type];
+
+    return (
+      <CommandGroup heading={heading}>
+        {group.map(suggestion => (
+          <CommandItem
+            key={suggestionValue(suggestion)}
+            value={suggestionValue(suggestion)}
+            onSelect={() => handleSuggestion(suggestion)}
+          >
+            <Icon className="w-4 h-4" />
+            <span className="truncate">{suggestion.label}</span>
+            <span className="ml-auto text-xs text-slate-500 flex-shrink-0">
+              {suggestion.type === 'destination'
+                ? `${suggestion.region} • ${suggestion.count} item${suggestion.count !== 1 ? 's' : ''}`
+                : suggestion.item.destination}
+            </span>
+          </CommandItem>
+        ))}
+      </CommandGroup>
+    );
+  };
+
+  const showRecent = !trimmed && recentSearches.length > 0;
+
+  return (
+    <Command
+      shouldFilter={false}
+      className="relative overflow-visible bg-transparent"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          close();
+        } else if (e.key === 'Enter' && !isOpen) {
+          // The list is closed, so there is no highlighted item to pick
+          e.preventDefault();
+          runSearch(value);
+        }
+      }}
+    >
+      <div className="rounded-md border bg-input-background [&_[data-slot=command-input-wrapper]]:border-0 [&_[data-slot=command-input-wrapper]]:h-9">
+        <CommandInput
+          ref={inputRef}
+          placeholder="Search by destination (e.g., Goa, Ladakh, Kerala...)"
+          value={value}
+          onValueChange={(nextValue) => {
+            setValue(nextValue);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          className="h-9"
+        />
+      </div>
+
+      {isOpen && (trimmed || showRecent) && (
+        // Keep focus in the input while clicking an item, otherwise the blur closes the list first
+        <div
+          className="absolute left-0 right-0 top-full mt-1 z-50 rounded-md border bg-white shadow-lg"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandList>
+            {trimmed ? (
+              <>
+                <CommandGroup>
+                  <CommandItem value="search-query" onSelect={() => runSearch(trimmed)}>
+                    <Search className="w-4 h-4" />
+                    <span className="truncate">Search for "{trimmed}"</span>
+                  </CommandItem>
+                </CommandGroup>
+                {renderGroup('destination', 'Destinations')}
+                {renderGroup('experience', 'Experiences')}
+                {renderGroup('itinerary', 'Itineraries')}
+              </>
+            ) : (
+              <CommandGroup heading="Recent searches">
+                {recentSearches.map(recent => (
+                  <CommandItem key={recent} value={`recent-${recent}`} onSelect={() => runSearch(recent)}>
+                    <Clock className="w-4 h-4" />
+                    <span className="truncate">{recent}</span>
+                  </CommandItem>
+                ))}
+                <CommandItem value="clear-recent" onSelect={handleClearRecent} className="text-slate-500">
+                  <X className="w-4 h-4" />
+                  Clear recent searches
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </div>
+      )}
+    </Command>
+  );
+}
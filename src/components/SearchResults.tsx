@@ -1,6 +1,7 @@
-import { useMemo } from 'react';
+import { useEffect, useState } from 'react';
 import { AppData } from '../App';
 import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { ExperienceViewer } from './ExperienceViewer';
 import { ItineraryViewer } from './ItineraryViewer';
@@ -8,42 +9,120 @@ import { ImageViewer } from './ImageViewer';
 import { ExperienceManager } from './ExperienceManager';
 import { ItineraryManager } from './ItineraryManager';
 import { ImageManager } from './ImageManager';
-import { Search } from 'lucide-react';
+import { HighlightedText } from './HighlightedText';
+import { Search, Sparkles, Calendar, Image as ImageIcon, BookOpen, MapPin } from 'lucide-react';
+import { useSearch } from '../hooks/useSearch';
+import { staticListing } from '../hooks/usePaginatedResource';
+import { navigate, buildPath } from '../hooks/useRoute';
+import { SearchHit } from '../services/search';
 
 type SearchResultsProps = {
   searchQuery: string;
   data: AppData;
   isAdmin: boolean;
-  onUpdateData?: (data: AppData) => void;
 };
 
-export function SearchResults({ searchQuery, data, isAdmin, onUpdateData }: SearchResultsProps) {
-  const filteredData = useMemo(() => {
-    const query = searchQuery.toLowerCase().trim();
-    
-    return {
-      experiences: data.experiences.filter(exp =>
-        exp.destination.toLowerCase().includes(query) ||
-        exp.title.toLowerCase().includes(query) ||
-        exp.description.toLowerCase().includes(query) ||
-        exp.region.toLowerCase().includes(query)
-      ),
-      itineraries: data.itineraries.filter(it =>
-        it.destination.toLowerCase().includes(query) ||
-        it.title.toLowerCase().includes(query) ||
-        it.region.toLowerCase().includes(query)
-      ),
-      images: data.images.filter(img =>
-        img.destination.toLowerCase().includes(query) ||
-        img.caption.toLowerCase().includes(query) ||
-        img.region.toLowerCase().includes(query)
-      )
-    };
-  }, [searchQuery, data]);
-
-  const totalResults = filteredData.experiences.length + 
-                      filteredData.itineraries.length + 
-                      filteredData.images.length;
+type ResultTab = 'all' | 'experiences' | 'itineraries' | 'images' | 'updates';
+
+const hitTabs: Record<SearchHit['type'], ResultTab> = {
+  experience: 'experiences',
+  itinerary: 'itineraries',
+  image: 'images',
+  update: 'updates'
+};
+
+const hitStyles: Record<SearchHit['type'], { label: string; icon: typeof Search; className: string }> = {
+  experience: { label: 'Experience', icon: Sparkles, className: 'bg-orange-100 text-orange-800' },
+  itinerary: { label: 'Itinerary', icon: Calendar, className: 'bg-purple-100 text-purple-800' },
+  image: { label: 'Image', icon: ImageIcon, className: 'bg-cyan-100 text-cyan-800' },
+  update: { label: 'Update', icon: BookOpen, className: 'bg-blue-100 text-blue-800' }
+};
+
+const getHitTitle = (hit: SearchHit) => (hit.type === 'image' ? hit.item.caption : hit.item.title);
+
+const getHitPlace = (hit: SearchHit) => (hit.type === 'update' ? null : `${hit.item.destination} • ${hit.item.region}`);
+
+export function SearchResults({ searchQuery, data, isAdmin }: SearchResultsProps) {
+  const { results, isLoading, refresh } = useSearch(searchQuery, data, !isAdmin);
+  const [activeTab, setActiveTab] = useState<ResultTab>('all');
+
+  useEffect(() => {
+    setActiveTab('all');
+  }, [searchQuery]);
+
+  const terms = results?.terms || [];
+  const suggestion = results?.suggestion || null;
+  const hits = results?.hits || [];
+  const totalResults = hits.length;
+
+  const handleHitClick = (hit: SearchHit) => {
+    if (hit.type === 'itinerary' && !isAdmin) {
+      navigate(buildPath({ section: 'itineraries', itemId: hit.item.id }));
+      return;
+    }
+    if (hit.type === 'update' && hit.item.externalUrl) {
+      window.open(hit.item.externalUrl, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    setActiveTab(hitTabs[hit.type]);
+  };
+
+  const didYouMean = suggestion && (
+    <>
+      Did you mean{' '}
+      <button
+        type="button"
+        className="font-medium text-orange-600 hover:underline"
+        onClick={() => navigate(buildPath({ section: 'search', query: suggestion }))}
+      >
+        {suggestion}
+      </button>
+      ?
+    </>
+  );
+
+  const renderHit = (hit: SearchHit) => {
+    const style = hitStyles[hit.type];
+    const Icon = style.icon;
+    const place = getHitPlace(hit);
+    // The headline already shows the title, so snippets come from the other matched fields
+    const snippets = hit.matches.filter(match => !['title', 'caption', 'destination', 'region'].includes(match.field)).slice(0, 2);
+
+    return (
+      <Card
+        key={`${hit.type}-${hit.item.id}`}
+        className="cursor-pointer hover:shadow-md transition-shadow"
+        onClick={() => handleHitClick(hit)}
+      >
+        <CardContent className="p-4 space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge className={`text-xs ${style.className}`}>
+              <span className="flex items-center gap-1">
+                <Icon className="w-3 h-3" />
+                {style.label}
+              </span>
+            </Badge>
+            {place && (
+              <span className="inline-flex items-center gap-1 text-xs text-slate-500">
+                <MapPin className="w-3 h-3" />
+                <HighlightedText text={place} terms={terms} />
+              </span>
+            )}
+          </div>
+          <p className="font-medium text-slate-900">
+            <HighlightedText text={getHitTitle(hit)} terms={terms} />
+          </p>
+          {snippets.map((match, idx) => (
+            <p key={idx} className="text-sm text-slate-600 line-clamp-2">
+              <HighlightedText text={match.text} terms={terms} />
+            </p>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const listingOptions = { isLoading, refresh };
 
   return (
     <div>
@@ -53,64 +132,84 @@ export function SearchResults({ searchQuery, data, isAdmin, onUpdateData }: Sear
           <h2 className="text-slate-900">Search Results for "{searchQuery}"</h2>
         </div>
         <p className="text-slate-600">
-          Found {totalResults} result{totalResults !== 1 ? 's' : ''} across all categories
+          {isLoading && !results
+            ? 'Searching...'
+            : `Found ${totalResults} result${totalResults !== 1 ? 's' : ''} across all categories`}
         </p>
+        {totalResults > 0 && didYouMean && (
+          <p className="text-sm text-slate-500 mt-1">{didYouMean}</p>
+        )}
       </div>
 
-      {totalResults === 0 ? (
+      {!results && isLoading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-orange-600 mx-auto mb-4"></div>
+          <p className="text-slate-500">Searching...</p>
+        </div>
+      ) : totalResults === 0 || !results ? (
         <Card>
           <CardContent className="text-center py-12">
             <p className="text-slate-500">
-              No results found for "{searchQuery}". Try searching for destinations like Goa, Ladakh, Kerala, or Darjeeling.
+              No results found for "{searchQuery}".{' '}
+              {didYouMean || 'Try searching for destinations like Goa, Ladakh, Kerala, or Darjeeling.'}
             </p>
           </CardContent>
         </Card>
       ) : (
-        <Tabs defaultValue="experiences" className="space-y-6">
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ResultTab)} className="space-y-6">
           <TabsList>
+            <TabsTrigger value="all">
+              All ({totalResults})
+            </TabsTrigger>
             <TabsTrigger value="experiences">
-              Experiences ({filteredData.experiences.length})
+              Experiences ({results.experiences.length})
             </TabsTrigger>
             <TabsTrigger value="itineraries">
-              Itineraries ({filteredData.itineraries.length})
+              Itineraries ({results.itineraries.length})
             </TabsTrigger>
             <TabsTrigger value="images">
-              Images ({filteredData.images.length})
+              Images ({results.images.length})
+            </TabsTrigger>
+            <TabsTrigger value="updates">
+              Updates ({results.updates.length})
             </TabsTrigger>
           </TabsList>
 
+          <TabsContent value="all">
+            <div className="space-y-3">
+              {hits.map(renderHit)}
+            </div>
+          </TabsContent>
+
           <TabsContent value="experiences">
-            {isAdmin && onUpdateData ? (
-              <ExperienceManager
-                data={{ ...data, experiences: filteredData.experiences }}
-                onUpdateData={onUpdateData}
-              />
+            {isAdmin ? (
+              <ExperienceManager listing={staticListing(results.experiences, listingOptions)} />
             ) : (
-              <ExperienceViewer experiences={filteredData.experiences} />
+              <ExperienceViewer experiences={results.experiences} highlight={terms} canFavourite={true} />
             )}
           </TabsContent>
 
           <TabsContent value="itineraries">
-            {isAdmin && onUpdateData ? (
-              <ItineraryManager
-                data={{ ...data, itineraries: filteredData.itineraries }}
-                onUpdateData={onUpdateData}
-              />
+            {isAdmin ? (
+              <ItineraryManager listing={staticListing(results.itineraries, listingOptions)} />
             ) : (
-              <ItineraryViewer itineraries={filteredData.itineraries} />
+              <ItineraryViewer itineraries={results.itineraries} highlight={terms} canFavourite={true} />
             )}
           </TabsContent>
 
           <TabsContent value="images">
-            {isAdmin && onUpdateData ? (
-              <ImageManager
-                data={{ ...data, images: filteredData.images }}
-                onUpdateData={onUpdateData}
-              />
+            {isAdmin ? (
+              <ImageManager listing={staticListing(results.images, listingOptions)} />
             ) : (
-              <ImageViewer images={filteredData.images} />
+              <ImageViewer images={results.images} highlight={terms} canFavourite={true} />
             )}
           </TabsContent>
+
+          <TabsContent value="updates">
+            <div className="space-y-3">
+              {hits.filter(hit => hit.type === 'update').map(renderHit)}
+            </div>
+          </TabsContent>
         </Tabs>
       )}
     </div>
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { AlertCircle, Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { authAPI } from '../services/api';
+import { requiresMfa } from '../services/permissions';
+import { useAuth } from '../hooks/useAuth';
+import { MfaCodeInput, MFA_CODE_LENGTH } from './MfaCodeInput';
+import { MfaEnrollment } from './MfaEnrollment';
+
+type Mode = 'overview' | 'enroll' | 'disable';
+
+// Two-factor authentication for the signed-in account
+export function SecuritySettings() {
+  const { user, updateUser } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<Mode>('overview');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [disabling, setDisabling] = useState(false);
+
+  if (!user) return null;
+
+  const isRequired = requiresMfa(user);
+
+  const reset = () => {
+    setMode('overview');
+    setCode('');
+    setError('');
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    // The recovery codes must not be dismissed by a stray click outside the dialog
+    if (!open && mode === 'enroll') return;
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleEnrolled = () => {
+    updateUser({ ...user, mfaEnabled: true });
+    toast.success('Two-factor authentication turned on successfully');
+    reset();
+  };
+
+  const handleDisable = async (value = code) => {
+    if (value.length !== MFA_CODE_LENGTH) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setError('');
+    setDisabling(true);
+    try {
+      await authAPI.mfa.disable(value);
+      updateUser({ ...user, mfaEnabled: false });
+      toast.success('Two-factor authentication turned off successfully');
+      reset();
+    } catch (error: any) {
+      setError(error.message || 'Failed to turn off two-factor authentication');
+      setCode('');
+    } finally {
+      setDisabling(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <Button variant="outline" onClick={() => setIsOpen(true)} className="flex-shrink-0">
+        <ShieldCheck className="w-4 h-4 mr-2" />
+        Security
+      </Button>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Two-factor authentication</DialogTitle>
+          <DialogDescription>
+            Sign in with a code from an authenticator app as well as your password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === 'enroll' ? (
+          <MfaEnrollment onEnrolled={handleEnrolled} onCancel={reset} />
+        ) : mode === 'disable' ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleDisable();
+            }}
+            className="space-y-4"
+          >
+            <p className="text-sm text-slate-600">Enter a code from your authenticator app to turn two-factor authentication off.</p>
+            <MfaCodeInput value={code} onChange={setCode} onComplete={handleDisable} disabled={disabling} autoFocus />
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={reset}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" className="flex-1" disabled={disabling}>
+                {disabling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Turn off
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <p className="font-medium text-slate-900">Authenticator app</p>
+                <p className="text-sm text-slate-500">
+                  {isRequired ? 'Required for your role' : 'Optional for traveller accounts'}
+                </p>
+              </div>
+              {user.mfaEnabled ? (
+                <Badge className="bg-green-100 text-green-800">On</Badge>
+              ) : (
+                <Badge variant="outline">Off</Badge>
+              )}
+            </div>
+
+            {user.mfaEnabled ? (
+              !isRequired && (
+                <Button variant="outline" className="w-full" onClick={() => setMode('disable')}>
+                  Turn off
+                </Button>
+              )
+            ) : (
+              <Button className="w-full bg-orange-600 hover:bg-orange-700" onClick={() => setMode('enroll')}>
+                Turn on
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
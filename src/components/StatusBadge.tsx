@@ -0,0 +1,16 @@
+import { ContentStatus } from '../App';
+import { Badge } from './ui/badge';
+import { STATUS_BADGE_CLASSES, STATUS_LABELS } from '../services/workflow';
+
+type StatusBadgeProps = {
+  status: ContentStatus;
+  className?: string;
+};
+
+export function StatusBadge({ status, className = '' }: StatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={`text-xs ${STATUS_BADGE_CLASSES[status]} ${className}`}>
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,28 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ListFilter } from 'lucide-react';
+import { CONTENT_STATUSES, STATUS_LABELS, StatusFilter as StatusFilterValue } from '../services/workflow';
+
+type StatusFilterProps = {
+  value: StatusFilterValue;
+  onChange: (value: StatusFilterValue) => void;
+  className?: string;
+};
+
+export function StatusFilter({ value, onChange, className = 'w-40' }: StatusFilterProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <ListFilter className="w-4 h-4 text-slate-600" />
+      <Select value={value} onValueChange={(next) => onChange(next as StatusFilterValue)}>
+        <SelectTrigger className={className} aria-label="Filter by status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All statuses</SelectItem>
+          {CONTENT_STATUSES.map(status => (
+            <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { Button, buttonVariants } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog';
+import { Trash2, RotateCcw, Loader2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useTrash } from '../hooks/useTrash';
+import { usePermissions } from '../hooks/usePermissions';
+import { formatDateTime } from './DateTimePicker';
+import { StatusBadge } from './StatusBadge';
+import { CONTENT_TYPES, CONTENT_LABELS, recordLabel } from '../services/backup';
+import { restoreFromTrash, purgeFromTrash, emptyTrash, TrashEntry, TrashType } from '../services/trash';
+import { MANAGE_CAPABILITY } from '../services/permissions';
+
+type TrashManagerProps = {
+  onRestored: (type: TrashType) => void | Promise<void>;
+};
+
+// Deleted content of every type, kept for 30 days in this browser
+export function TrashManager({ onRestored }: TrashManagerProps) {
+  const { entries: allEntries } = useTrash();
+  const { can } = usePermissions();
+  // Users only see deleted content they would be allowed to restore
+  const entries = allEntries.filter(entry =>
+    can(MANAGE_CAPABILITY[entry.type], 'region' in entry.record ? entry.record : undefined)
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setRestoringId(entry.id);
+    try {
+      await restoreFromTrash(entry);
+      await onRestored(entry.type);
+      toast.success(`${recordLabel(entry.record)} restored successfully`);
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      toast.error('Failed to restore from trash');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleEmpty = () => {
+    emptyTrash(entries.length === allEntries.length ? undefined : entries.map(entry => entry.id));
+    setIsConfirmingEmpty(false);
+    toast.success('Trash emptied successfully');
+  };
+
+  const groups = CONTENT_TYPES.map(type => ({ type, entries: entries.filter(entry => entry.type === type) }))
+    .filter(group => group.entries.length > 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <Button variant="outline" onClick={() => setIsOpen(true)} className="flex-shrink-0">
+        <Trash2 className="w-4 h-4 mr-2" />
+        Trash
+        {entries.length > 0 && <Badge variant="secondary" className="ml-2">{entries.length}</Badge>}
+      </Button>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted content stays here for 30 days. Restoring creates it again; deleting it forever removes the last copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-slate-500">The trash is empty.</p>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => (
+              <section key={group.type} className="space-y-2">
+                <h4 className="text-sm font-semibold text-slate-900">{CONTENT_LABELS[group.type]}</h4>
+                <ul className="divide-y rounded-md border">
+                  {group.entries.map(entry => (
+                    <li key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate text-slate-900">{recordLabel(entry.record)}</p>
+                        <p className="flex items-center gap-2 text-xs text-slate-500">
+                          <StatusBadge status={entry.record.status} className="text-[10px] px-1 py-0" />
+                          Deleted {formatDateTime(entry.deletedAt)}
+                          {entry.deletedBy && ` by ${entry.deletedBy}`}
+                        </p>
+                      </div>
+                      <div className="flex flex-shrink-0 gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore(entry)}
+                          disabled={restoringId !== null}
+                        >
+                          {restoringId === entry.id ? (
+                            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                          ) : (
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                          )}
+                          Restore
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => purgeFromTrash(entry.id)}
+                          disabled={restoringId === entry.id}
+                          title="Delete forever"
+                          aria-label="Delete forever"
+                        >
+                          <XCircle className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+
+            <div className="flex justify-end">
+              <Button variant="destructive" onClick={() => setIsConfirmingEmpty(true)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Empty trash
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <AlertDialog open={isConfirmingEmpty} onOpenChange={setIsConfirmingEmpty}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {entries.length} deleted item{entries.length === 1 ? '' : 's'} will be gone for good. This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={handleEmpty}>
+                Empty trash
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
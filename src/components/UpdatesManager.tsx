@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { AppData, Update, UpdateType } from '../App';
-import { updatesAPI } from '../services/api';
+import { AppData, Update, UpdateType, ContentStatus, Schedule } from '../App';
+import { updatesAPI, fetchAll } from '../services/api';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -11,6 +11,14 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Badge } from './ui/badge';
 import { Plus, Edit, Trash2, Calendar, TrendingUp, Sparkles, BookOpen } from 'lucide-react';
 import { toast } from 'sonner';
+import { useTrash, useSoftDelete } from '../hooks/useTrash';
+import { usePermissions } from '../hooks/usePermissions';
+import { StatusFilter } from './StatusFilter';
+import { ContentStatusMenu } from './ContentStatusMenu';
+import { ContentPreviewDialog, PreviewTarget } from './ContentPreviewDialog';
+import { ScheduleFields } from './ScheduleFields';
+import { ConfirmDeleteDialog } from './ConfirmDeleteDialog';
+import { STATUS_LABELS, StatusFilter as StatusFilterValue, matchesStatus, scheduleProblem, pickSchedule, transitionProblem } from '../services/workflow';
 
 type UpdatesManagerProps = {
   data: AppData;
@@ -27,17 +35,28 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
     content: '',
     externalUrl: ''
   });
+  const [schedule, setSchedule] = useState<Schedule>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilterValue>('all');
+  const [previewTarget, setPreviewTarget] = useState<PreviewTarget | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Update | null>(null);
+  const { isPending } = useTrash();
+  const { can } = usePermissions();
+  const canManage = can('updates.manage');
   
   useEffect(() => {
     fetchUpdates();
   }, []);
-  
+
+  // Follow changes made elsewhere, e.g. a backup restore
+  useEffect(() => {
+    setUpdates(data.updates || []);
+  }, [data.updates]);
+
   const fetchUpdates = async () => {
     setIsLoading(true);
     try {
-      const response = await updatesAPI.getAll();
-      const updatesData = response.data || response;
+      const updatesData = await fetchAll(updatesAPI);
       setUpdates(updatesData);
       onUpdateData({
         ...data,
@@ -53,6 +72,7 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
 
   const resetForm = () => {
     setFormData({ type: 'newsletter', title: '', content: '', externalUrl: '' });
+    setSchedule({});
     setEditingUpdate(null);
   };
 
@@ -69,24 +89,43 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
       content: update.content,
       externalUrl: update.externalUrl || ''
     });
+    setSchedule(pickSchedule(update));
     setIsDialogOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this update?')) {
-      try {
-        await updatesAPI.delete(id);
-        await fetchUpdates(); // Refresh the list
-        toast.success('Update deleted successfully');
-      } catch (error) {
-        toast.error('Failed to delete update');
-        console.error('Error deleting update:', error);
-      }
+  const handleStatusChange = async (update: Update, status: ContentStatus) => {
+    const problem = transitionProblem(update.status, status);
+    if (problem) {
+      toast.error(problem);
+      return;
     }
+    try {
+      await updatesAPI.patch(update.id, { status });
+      await fetchUpdates();
+      toast.success(`Update moved to ${STATUS_LABELS[status]}`);
+    } catch (error) {
+      console.error('Error changing update status:', error);
+      toast.error('Failed to change update status');
+    }
+  };
+
+  const deleteUpdate = useSoftDelete('updates', 'Update', fetchUpdates);
+
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+    deleteUpdate(deleteTarget);
+    setDeleteTarget(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const scheduleError = scheduleProblem(schedule);
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+
     setIsLoading(true);
 
     try {
@@ -94,7 +133,9 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
         type: formData.type,
         title: formData.title,
         content: formData.content,
-        externalUrl: formData.externalUrl || undefined
+        externalUrl: formData.externalUrl || undefined,
+        status: editingUpdate?.status || 'draft',
+        ...pickSchedule(schedule)
       };
 
       if (editingUpdate) {
@@ -172,7 +213,10 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
     return 'Just now';
   };
 
-  const sortedUpdates = [...updates].sort((a, b) => b.createdAt - a.createdAt);
+  // Updates deleted moments ago stay hidden while their undo toast is showing
+  const sortedUpdates = updates
+    .filter(update => !isPending('updates', update.id) && matchesStatus(update, statusFilter))
+    .sort((a, b) => b.createdAt - a.createdAt);
 
   return (
     <div className="space-y-4 h-full flex flex-col">
@@ -182,17 +226,19 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
           <p className="text-sm text-slate-600">Create and manage news, trends, and announcements</p>
         </div>
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={handleAdd} size="sm" className="bg-indigo-600 hover:bg-indigo-700">
-              <Plus className="w-4 h-4 mr-1" />
-              Add Update
-            </Button>
-          </DialogTrigger>
+          {canManage && (
+            <DialogTrigger asChild>
+              <Button onClick={handleAdd} size="sm" className="bg-indigo-600 hover:bg-indigo-700">
+                <Plus className="w-4 h-4 mr-1" />
+                Add Update
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-w-lg">
             <DialogHeader>
               <DialogTitle>{editingUpdate ? 'Edit Update' : 'Add New Update'}</DialogTitle>
               <DialogDescription>
-                {editingUpdate ? 'Modify the update details' : 'Create a new update for users'}
+                {editingUpdate ? 'Modify the update details' : 'Create a new update for users. It stays a draft until published.'}
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -247,6 +293,8 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
                 </p>
               </div>
 
+              <ScheduleFields value={schedule} onChange={setSchedule} />
+
               <div className="flex gap-2 justify-end pt-4">
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancel
@@ -260,6 +308,10 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
         </Dialog>
       </div>
 
+      <div className="flex-shrink-0">
+        <StatusFilter value={statusFilter} onChange={setStatusFilter} className="h-8 w-full text-xs" />
+      </div>
+
       <div className="space-y-3 overflow-y-auto flex-1 pr-2">
         {sortedUpdates.map((update) => (
           <Card key={update.id} className="hover:shadow-md transition-shadow flex-shrink-0">
@@ -280,24 +332,35 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
                 {update.content}
               </CardDescription>
               <div className="flex gap-2">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => handleEdit(update)}
-                  className="h-7 text-xs"
-                >
-                  <Edit className="w-3 h-3 mr-1" />
-                  Edit
-                </Button>
-                <Button
-                  size="sm"
-                  variant="destructive"
-                  onClick={() => handleDelete(update.id)}
-                  className="h-7 text-xs"
-                >
-                  <Trash2 className="w-3 h-3 mr-1" />
-                  Delete
-                </Button>
+                <ContentStatusMenu
+                  status={update.status}
+                  onTransition={(status) => handleStatusChange(update, status)}
+                  onPreview={() => setPreviewTarget({ type: 'update', item: update })}
+                  readOnly={!canManage}
+                  className="h-7 text-xs mr-auto"
+                />
+                {canManage && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleEdit(update)}
+                      className="h-7 text-xs"
+                    >
+                      <Edit className="w-3 h-3 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => setDeleteTarget(update)}
+                      className="h-7 text-xs"
+                    >
+                      <Trash2 className="w-3 h-3 mr-1" />
+                      Delete
+                    </Button>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -311,6 +374,14 @@ export function UpdatesManager({ data, onUpdateData }: UpdatesManagerProps) {
           </CardContent>
         </Card>
       )}
+
+      <ContentPreviewDialog target={previewTarget} onClose={() => setPreviewTarget(null)} />
+      <ConfirmDeleteDialog
+        label={deleteTarget ? deleteTarget.title : null}
+        noun="Update"
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,15 +1,26 @@
-import { useState } from 'react';
-import { User, AppData, Region } from '../App';
+import { useCallback, useMemo, useState } from 'react';
+import { User, AppData, Region, Itinerary } from '../App';
 import { Button } from './ui/button';
-import { Input } from './ui/input';
 import { Card, CardHeader, CardTitle, CardDescription } from './ui/card';
-import { LogOut, Search, Sparkles, Calendar, Image as ImageIcon } from 'lucide-react';
+import { LogOut, Sparkles, Calendar, Image as ImageIcon, Heart } from 'lucide-react';
 import { ExperienceViewer } from './ExperienceViewer';
 import { ItineraryViewer } from './ItineraryViewer';
 import { ImageViewer } from './ImageViewer';
 import { SearchResults } from './SearchResults';
+import { SearchCommand } from './SearchCommand';
 import { RegionFilter } from './RegionFilter';
 import { UpdatesViewer } from './UpdatesViewer';
+import { MyTrips } from './MyTrips';
+import { ItineraryBuilder } from './ItineraryBuilder';
+import { SecuritySettings } from './SecuritySettings';
+import { useRoute, navigate, buildPath, Section } from '../hooks/useRoute';
+import { usePaginatedResource } from '../hooks/usePaginatedResource';
+import { useTrips } from '../hooks/useTrips';
+import { experiencesAPI, itinerariesAPI, imagesAPI } from '../services/api';
+import { freshFavourites } from '../services/trips';
+import { useScheduleClock } from '../hooks/useScheduleClock';
+import { isLive, liveContent } from '../services/workflow';
+import { emptyPlan, planFromItinerary, PlanDraft } from '../services/itineraryBuilder';
 import elephantLogo from '../logo1.png';
 
 type UserDashboardProps = {
@@ -18,30 +29,61 @@ type UserDashboardProps = {
   onLogout: () => void;
 };
 
-type Section = 'experiences' | 'itineraries' | 'images' | 'search';
-
 export function UserDashboard({ user, data, onLogout }: UserDashboardProps) {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [activeSection, setActiveSection] = useState<Section>('experiences');
-  const [selectedRegion, setSelectedRegion] = useState<Region | 'All'>('All');
-
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      setActiveSection('search');
-    }
+  // Section, region and search all live in the URL so views can be bookmarked and shared
+  const route = useRoute();
+  const { section: activeSection, region: selectedRegion } = route;
+
+  const setActiveSection = (section: Section) => {
+    navigate(buildPath({ section, region: selectedRegion }));
+  };
+
+  const setSelectedRegion = (region: Region | 'All') => {
+    navigate(buildPath({ section: activeSection, region }));
   };
 
-  const filteredData = {
-    experiences: selectedRegion === 'All' 
-      ? data.experiences 
-      : data.experiences.filter(exp => exp.region === selectedRegion),
-    itineraries: selectedRegion === 'All' 
-      ? data.itineraries 
-      : data.itineraries.filter(it => it.region === selectedRegion),
-    images: selectedRegion === 'All' 
-      ? data.images 
-      : data.images.filter(img => img.region === selectedRegion)
+  // Stable across renders: the itinerary viewer refetches deep-linked itineraries whenever it changes
+  const handleOpenItinerary = useCallback((id: string | null) => {
+    navigate(buildPath({ section: 'itineraries', region: selectedRegion, itemId: id }));
+  }, [selectedRegion]);
+
+  const handleSelectBoard = (boardId: string | null) => {
+    navigate(buildPath({ section: 'trips', itemId: boardId }));
+  };
+
+  const { favourites, plans } = useTrips();
+
+  // The itinerary builder is open while a plan is being edited
+  const [builderPlan, setBuilderPlan] = useState<PlanDraft | null>(null);
+
+  // Each grid pages through the API with the region filter applied server-side; users only ever see published content
+  const experiences = usePaginatedResource(experiencesAPI, { region: selectedRegion, status: 'published', filter: isLive, mode: 'append' });
+  const itineraries = usePaginatedResource(itinerariesAPI, { region: selectedRegion, status: 'published', filter: isLive, mode: 'append' });
+  const images = usePaginatedResource(imagesAPI, { region: selectedRegion, status: 'published', filter: isLive, mode: 'append' });
+
+  // Scheduled content appears and disappears on time while the page stays open
+  const now = useScheduleClock([
+    ...data.experiences,
+    ...data.itineraries,
+    ...data.images,
+    ...data.updates,
+    ...experiences.items,
+    ...itineraries.items,
+    ...images.items
+  ]);
+  const visibleData = useMemo(() => liveContent(data, now), [data, now]);
+  const liveExperiences = useMemo(() => experiences.items.filter(item => isLive(item, now)), [experiences.items, now]);
+  const liveItineraries = useMemo(() => itineraries.items.filter(item => isLive(item, now)), [itineraries.items, now]);
+  const liveImages = useMemo(() => images.items.filter(item => isLive(item, now)), [images.items, now]);
+
+  // Published itineraries are copied into the builder; the traveller's own are edited in place
+  const openBuilder = (itinerary: Itinerary | null, { copy }: { copy: boolean }) => {
+    setBuilderPlan(itinerary ? planFromItinerary(itinerary, visibleData.experiences, { copy }) : emptyPlan());
+  };
+
+  const handlePlanSaved = () => {
+    setBuilderPlan(null);
+    navigate(buildPath({ section: 'trips' }));
   };
 
   return (
@@ -60,27 +102,21 @@ export function UserDashboard({ user, data, onLogout }: UserDashboardProps) {
               </div>
             </div>
       
-            {/* Right: Logout button */}
-            <Button onClick={onLogout} variant="outline" className="flex-shrink-0">
-              <LogOut className="w-4 h-4 mr-2" />
-              Logout
-            </Button>
+            {/* Right: Account security and logout */}
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <SecuritySettings />
+              <Button onClick={onLogout} variant="outline" className="flex-shrink-0">
+                <LogOut className="w-4 h-4 mr-2" />
+                Logout
+              </Button>
+            </div>
           </div>
 
           {/* Bottom Row: Search Bar (full width on mobile, inline on desktop) */}
           <div className="md:flex md:items-center md:justify-center md:absolute md:left-1/2 md:top-1/2 md:-translate-x-1/2 md:-translate-y-1/2 md:w-full md:max-w-3xl md:px-4">
-            <form onSubmit={handleSearch} className="w-full md:max-w-3xl">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                <Input
-                  type="text"
-                  placeholder="Search by destination (e.g., Goa, Ladakh, Kerala...)"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10 w-full"
-                />
-              </div>
-            </form>
+            <div className="w-full md:max-w-3xl">
+              <SearchCommand query={route.query} data={visibleData} userEmail={user.email} canOpenItineraries={true} />
+            </div>
           </div>
         </div>
       </header>
@@ -103,7 +139,7 @@ export function UserDashboard({ user, data, onLogout }: UserDashboardProps) {
                     </div>
                     <div className="flex flex-col justify-center">
                       <CardTitle className="leading-tight font-semibold text-lg">Experiences</CardTitle>
-                      <CardDescription className="text-base">{filteredData.experiences.length} items</CardDescription>
+                      <CardDescription className="text-base">{experiences.total} items</CardDescription>
                     </div>
                   </div>
                 </CardHeader>
@@ -120,7 +156,7 @@ export function UserDashboard({ user, data, onLogout }: UserDashboardProps) {
                     </div>
                     <div className="flex flex-col justify-center">
                       <CardTitle className="leading-tight font-semibold text-lg">Itineraries</CardTitle>
-                      <CardDescription className="text-base">{filteredData.itineraries.length} items</CardDescription>
+                      <CardDescription className="text-base">{itineraries.total} items</CardDescription>
                     </div>
                   </div>
                 </CardHeader>
@@ -137,7 +173,24 @@ export function UserDashboard({ user, data, onLogout }: UserDashboardProps) {
                     </div>
                     <div className="flex flex-col justify-center">
                       <CardTitle className="leading-tight font-semibold text-lg">Images</CardTitle>
-                      <CardDescription className="text-base">{filteredData.images.length} items</CardDescription>
+                      <CardDescription className="text-base">{images.total} items</CardDescription>
+                    </div>
+                  </div>
+                </CardHeader>
+              </Card>
+
+              <Card 
+                className={`cursor-pointer transition-all hover:shadow-lg min-w-[290px] ${activeSection === 'trips' ? ' bg-rose-50' : ''}`}
+                onClick={() => setActiveSection('trips')}
+              >
+                <CardHeader className="flex items-center h-full p-8">
+                  <div className="flex items-center gap-4">
+                    <div className="p-3 bg-rose-100 rounded-lg flex items-center justify-center">
+                      <Heart className="w-7 h-7 text-rose-600" />
+                    </div>
+                    <div className="flex flex-col justify-center">
+                      <CardTitle className="leading-tight font-semibold text-lg">My Trips</CardTitle>
+                      <CardDescription className="text-base">{freshFavourites(favourites, data, now).length + plans.length} saved</CardDescription>
                     </div>
                   </div>
                 </CardHeader>
@@ -145,7 +198,7 @@ export function UserDashboard({ user, data, onLogout }: UserDashboardProps) {
             </div>
 
             {/* Region Filter */}
-            {activeSection !== 'search' && (
+            {activeSection !== 'search' && activeSection !== 'trips' && (
               <div className="mb-6">
                 <RegionFilter selectedRegion={selectedRegion} onRegionChange={setSelectedRegion} />
               </div>
@@ -156,19 +209,51 @@ export function UserDashboard({ user, data, onLogout }: UserDashboardProps) {
               {/* Content Area */}
               <div className="bg-white rounded-lg border shadow-sm p-6">
                 {activeSection === 'experiences' && (
-                  <ExperienceViewer experiences={filteredData.experiences} />
+                  <ExperienceViewer
+                    experiences={liveExperiences}
+                    hasMore={experiences.hasMore}
+                    isLoading={experiences.isLoading}
+                    onLoadMore={experiences.loadMore}
+                    canFavourite={true}
+                  />
                 )}
 
                 {activeSection === 'itineraries' && (
-                  <ItineraryViewer itineraries={filteredData.itineraries} />
+                  <ItineraryViewer
+                    itineraries={liveItineraries}
+                    openItineraryId={route.itemId}
+                    onOpenItinerary={handleOpenItinerary}
+                    hasMore={itineraries.hasMore}
+                    isLoading={itineraries.isLoading}
+                    onLoadMore={itineraries.loadMore}
+                    canFavourite={true}
+                    onCustomise={(itinerary) => openBuilder(itinerary, { copy: true })}
+                  />
                 )}
 
                 {activeSection === 'images' && (
-                  <ImageViewer images={filteredData.images} />
+                  <ImageViewer
+                    images={liveImages}
+                    hasMore={images.hasMore}
+                    isLoading={images.isLoading}
+                    onLoadMore={images.loadMore}
+                    canFavourite={true}
+                  />
+                )}
+
+                {activeSection === 'trips' && (
+                  <MyTrips
+                    data={data}
+                    now={now}
+                    boardId={route.itemId}
+                    onSelectBoard={handleSelectBoard}
+                    onOpenItinerary={handleOpenItinerary}
+                    onEditPlan={(plan) => openBuilder(plan, { copy: false })}
+                  />
                 )}
 
                 {activeSection === 'search' && (
-                  <SearchResults searchQuery={searchQuery} data={data} isAdmin={false} />
+                  <SearchResults searchQuery={route.query} data={visibleData} isAdmin={false} />
                 )}
               </div>
             </div>
@@ -177,11 +262,18 @@ export function UserDashboard({ user, data, onLogout }: UserDashboardProps) {
           {/* Right Sidebar - Updates */}
           <div className="lg:col-span-1">
             <div className="sticky top-24 h-[calc(100vh-7rem)] mb-2.5">
-              <UpdatesViewer updates={data.updates} />
+              <UpdatesViewer updates={visibleData.updates} />
             </div>
           </div>
         </div>
       </main>
+
+      <ItineraryBuilder
+        start={builderPlan}
+        experiences={visibleData.experiences}
+        onClose={() => setBuilderPlan(null)}
+        onSaved={handlePlanSaved}
+      />
     </div>
   );
 }
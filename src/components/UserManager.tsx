@@ -0,0 +1,355 @@
+import { useState, useEffect, useCallback } from 'react';
+import { User, UserAccount, AccountStatus, Region, Role } from '../App';
+import { authAPI, fetchAll } from '../services/api';
+import { ROLES, ALL_REGIONS } from '../services/permissions';
+import { Button, buttonVariants } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog';
+import { UserPlus, UserX, UserCheck, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDateTime } from './DateTimePicker';
+
+type UserManagerProps = {
+  currentUser: User;
+};
+
+const ACCOUNT_STATUS_LABELS: Record<AccountStatus, string> = {
+  invited: 'Invited',
+  active: 'Active',
+  deactivated: 'Deactivated'
+};
+
+const ACCOUNT_STATUS_CLASSES: Record<AccountStatus, string> = {
+  invited: 'bg-amber-100 text-amber-800 border-amber-200',
+  active: 'bg-green-100 text-green-800 border-green-200',
+  deactivated: 'bg-zinc-200 text-zinc-600 border-zinc-300'
+};
+
+const ROLE_OPTIONS = Object.keys(ROLES) as Role[];
+
+const emptyInvite: User = { email: '', name: '', role: 'editor' };
+
+// Team accounts: invite people, change what they may do and switch off access
+export function UserManager({ currentUser }: UserManagerProps) {
+  const [accounts, setAccounts] = useState<UserAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [invite, setInvite] = useState<User>(emptyInvite);
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deactivateTarget, setDeactivateTarget] = useState<UserAccount | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Every page, so accounts past the backend's default page size can be managed too
+      setAccounts(await fetchAll({ getAll: authAPI.users.list }));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast.error('Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const replaceAccount = (account: UserAccount) => {
+    setAccounts(current => current.map(item => (item.id === account.id ? account : item)));
+  };
+
+  // A regional manager always needs a region, so switching to that role starts them in the first one
+  const handleRoleChange = async (account: UserAccount, role: Role) => {
+    setBusyId(account.id);
+    try {
+      const changes = ROLES[role].regionScoped ? { role, region: account.region || ALL_REGIONS[0] } : { role };
+      replaceAccount(await authAPI.users.update(account.id, changes));
+      toast.success(`${account.name} is now ${ROLES[role].label.toLowerCase()}`);
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast.error('Failed to change role');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRegionChange = async (account: UserAccount, region: Region) => {
+    setBusyId(account.id);
+    try {
+      replaceAccount(await authAPI.users.update(account.id, { region }));
+      toast.success('Region updated successfully');
+    } catch (error) {
+      console.error('Error changing region:', error);
+      toast.error('Failed to change region');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeactivate = async () => {
+    if (!deactivateTarget) return;
+    const account = deactivateTarget;
+    setDeactivateTarget(null);
+    setBusyId(account.id);
+    try {
+      replaceAccount(await authAPI.users.deactivate(account.id));
+      toast.success(`${account.name} deactivated successfully`);
+    } catch (error) {
+      console.error('Error deactivating user:', error);
+      toast.error('Failed to deactivate user');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReactivate = async (account: UserAccount) => {
+    setBusyId(account.id);
+    try {
+      replaceAccount(await authAPI.users.reactivate(account.id));
+      toast.success(`${account.name} reactivated successfully`);
+    } catch (error) {
+      console.error('Error reactivating user:', error);
+      toast.error('Failed to reactivate user');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    try {
+      const region = ROLES[invite.role].regionScoped ? invite.region || ALL_REGIONS[0] : undefined;
+      const account = await authAPI.users.invite({ ...invite, email: invite.email.trim(), name: invite.name.trim(), region });
+      setAccounts(current => [account, ...current]);
+      toast.success(`Invitation sent to ${account.email}`);
+      setIsInviteOpen(false);
+      setInvite(emptyInvite);
+    } catch (error) {
+      console.error('Error inviting user:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to invite user');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const search = query.trim().toLowerCase();
+  const visible = accounts.filter(account =>
+    !search || account.name.toLowerCase().includes(search) || account.email.toLowerCase().includes(search)
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-slate-900 font-semibold text-xl">Users</h2>
+          <p className="text-slate-600">Invite team members, change their roles and deactivate accounts</p>
+        </div>
+        <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+          <DialogTrigger asChild>
+            <Button className="bg-slate-900 hover:bg-slate-800">
+              <UserPlus className="w-4 h-4 mr-2" />
+              Invite User
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Invite User</DialogTitle>
+              <DialogDescription>They receive an email with a link to set their password.</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleInvite} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-name">Name</Label>
+                <Input
+                  id="invite-name"
+                  value={invite.name}
+                  onChange={(e) => setInvite({ ...invite, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={invite.email}
+                  onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invite-role">Role</Label>
+                  <Select value={invite.role} onValueChange={(value) => setInvite({ ...invite, role: value as Role })}>
+                    <SelectTrigger id="invite-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLE_OPTIONS.map(role => (
+                        <SelectItem key={role} value={role}>{ROLES[role].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {ROLES[invite.role].regionScoped && (
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-region">Region</Label>
+                    <Select
+                      value={invite.region || ALL_REGIONS[0]}
+                      onValueChange={(value) => setInvite({ ...invite, region: value as Region })}
+                    >
+                      <SelectTrigger id="invite-region">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ALL_REGIONS.map(region => (
+                          <SelectItem key={region} value={region}>{region} India</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2 justify-end pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsInviteOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isInviting}>
+                  {isInviting ? 'Sending...' : 'Send Invitation'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="relative mb-4 max-w-sm">
+        <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name or email"
+          className="pl-9"
+          aria-label="Search users"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <p className="text-slate-500">Loading users...</p>
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-slate-500">{accounts.length === 0 ? 'No users yet. Invite your team!' : 'No users match your search.'}</p>
+        </div>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {visible.map(account => {
+            const isSelf = account.email === currentUser.email;
+            const isBusy = busyId === account.id;
+            return (
+              <li key={account.id} className="flex flex-wrap items-center gap-3 px-4 py-3">
+                <div className="min-w-0 flex-1">
+                  <p className="flex items-center gap-2 font-medium text-slate-900">
+                    <span className="truncate">{account.name}</span>
+                    {isSelf && <span className="text-xs text-slate-500">(you)</span>}
+                    <Badge variant="outline" className={ACCOUNT_STATUS_CLASSES[account.status]}>
+                      {ACCOUNT_STATUS_LABELS[account.status]}
+                    </Badge>
+                  </p>
+                  <p className="truncate text-sm text-slate-600">{account.email}</p>
+                  <p className="text-xs text-slate-500">
+                    Last login: {account.lastLoginAt ? formatDateTime(account.lastLoginAt) : 'Never'}
+                  </p>
+                </div>
+
+                <Select
+                  value={account.role}
+                  onValueChange={(value) => handleRoleChange(account, value as Role)}
+                  disabled={isSelf || isBusy}
+                >
+                  <SelectTrigger className="w-44" aria-label={`Role of ${account.name}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_OPTIONS.map(role => (
+                      <SelectItem key={role} value={role}>{ROLES[role].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {ROLES[account.role]?.regionScoped && (
+                  <Select
+                    value={account.region || ''}
+                    onValueChange={(value) => handleRegionChange(account, value as Region)}
+                    disabled={isBusy}
+                  >
+                    <SelectTrigger className="w-36" aria-label={`Region of ${account.name}`}>
+                      <SelectValue placeholder="Region" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALL_REGIONS.map(region => (
+                        <SelectItem key={region} value={region}>{region} India</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {account.status === 'deactivated' ? (
+                  <Button size="sm" variant="outline" onClick={() => handleReactivate(account)} disabled={isBusy}>
+                    <UserCheck className="w-4 h-4 mr-1" />
+                    Reactivate
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setDeactivateTarget(account)}
+                    disabled={isSelf || isBusy}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <UserX className="w-4 h-4 mr-1" />
+                    Deactivate
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <AlertDialog open={deactivateTarget !== null} onOpenChange={(open) => !open && setDeactivateTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate {deactivateTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They are signed out and can no longer log in. You can reactivate the account later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={handleDeactivate}>
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { AuthCard, AuthLink } from './AuthCard';
+import { navigate } from '../hooks/useRoute';
+
+type VerifyEmailPageProps = {
+  token: string;
+  email?: string; // pre-fills the resend form when the link carries it
+};
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+// Tokens are single-use, so a remount (strict mode, or going back to the page) must reuse the first request
+const verifications = new Map<string, Promise<unknown>>();
+
+const verifyOnce = (token: string) => {
+  if (!verifications.has(token)) verifications.set(token, authAPI.verifyEmail(token));
+  return verifications.get(token) as Promise<unknown>;
+};
+
+// Opened from the link in the verification email
+export function VerifyEmailPage({ token, email = '' }: VerifyEmailPageProps) {
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState(token ? '' : 'This verification link is incomplete.');
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    verifyOnce(token)
+      .then(() => {
+        if (!cancelled) setState('verified');
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        setError(error.message || 'This verification link is invalid or has expired.');
+        setState('failed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  if (state === 'verifying') {
+    return (
+      <AuthCard title="Verifying your email" subtitle="This only takes a moment">
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-orange-600" />
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (state === 'verified') {
+    return (
+      <AuthCard title="Email verified" subtitle="Your account is ready to use">
+        <div className="space-y-4">
+          <Alert>
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            <AlertDescription>Thanks for confirming your email address.</AlertDescription>
+          </Alert>
+          <Button
+            onClick={() => navigate('/login')}
+            className="w-full bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white"
+          >
+            Continue to log in
+          </Button>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Verification failed"
+      subtitle="We could not verify your email address"
+      footer={<p><AuthLink to="/login">Back to log in</AuthLink></p>}
+    >
+      <div className="space-y-4">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+        <ResendVerification email={email} />
+      </div>
+    </AuthCard>
+  );
+}
+
+type ResendVerificationProps = {
+  email: string;
+};
+
+// Sends a fresh verification link; shown after registering and when a link has expired
+export function ResendVerification({ email: initialEmail }: ResendVerificationProps) {
+  const [email, setEmail] = useState(initialEmail);
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [error, setError] = useState('');
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) {
+      setError('Please enter your email');
+      return;
+    }
+
+    setError('');
+    setStatus('sending');
+    try {
+      await authAPI.resendVerification(email.trim());
+      setStatus('sent');
+    } catch (error: any) {
+      setError(error.message || 'Failed to resend the verification email');
+      setStatus('idle');
+    }
+  };
+
+  return (
+    <form onSubmit={handleResend} className="space-y-2">
+      {!initialEmail && (
+        <>
+          <Label htmlFor="resend-email">Email</Label>
+          <Input
+            id="resend-email"
+            type="email"
+            placeholder="Enter your email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+          />
+        </>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {status === 'sent' ? (
+        <p className="text-sm text-green-700">A new verification link is on its way.</p>
+      ) : (
+        <Button type="submit" variant="outline" className="w-full" disabled={status === 'sending'}>
+          {status === 'sending' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Resend verification email
+        </Button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,141 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { User } from '../App';
+import { authAPI, ApiError, onSessionExpired } from '../services/api';
+import {
+  getToken,
+  getStoredUser,
+  saveSession,
+  setStoredUser,
+  clearSession,
+  onSessionChangedElsewhere
+} from '../services/session';
+
+type AuthStatus = 'checking' | 'authenticated' | 'anonymous';
+
+type AuthContextValue = {
+  user: User | null;
+  role: User['role'] | null;
+  status: AuthStatus;
+  // Email of the account whose session just expired, so the login form can be pre-filled
+  expiredSessionEmail: string | null;
+  login: (user: User, token: string, refreshToken?: string) => void;
+  logout: () => void;
+  // Replaces the signed-in user's details after they change, e.g. once two-factor authentication is on
+  updateUser: (user: User) => void;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// /auth/profile answers with { user }, { data } or the bare user depending on backend version
+const toUser = (payload: any): User | null => {
+  const candidate = payload?.user || payload?.data || payload;
+  return candidate && candidate.email && candidate.role ? candidate : null;
+};
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [status, setStatus] = useState<AuthStatus>(() => (getToken() ? 'checking' : 'anonymous'));
+  const [expiredSessionEmail, setExpiredSessionEmail] = useState<string | null>(null);
+
+  // Verify the stored session with the backend before trusting it
+  useEffect(() => {
+    if (!getToken()) return;
+
+    let cancelled = false;
+    const verify = async () => {
+      try {
+        const profile = toUser(await authAPI.getProfile());
+        if (cancelled) return;
+
+        if (profile) {
+          setStoredUser(profile);
+          setUser(profile);
+          setStatus('authenticated');
+        } else {
+          clearSession();
+          setStatus('anonymous');
+        }
+      } catch (error) {
+        if (cancelled) return;
+
+        // A 401 only gets here once the refresh token has been turned down too, and the session-expired
+        // listener below has already run. Anything else, a network failure or a 5xx during an outage,
+        // falls back to the stored user and lets the dashboard surface the connection problem.
+        const storedUser = getStoredUser();
+        const isRejected = error instanceof ApiError && error.status === 401;
+        if (!isRejected && storedUser && getToken()) {
+          setUser(storedUser);
+          setStatus('authenticated');
+        } else {
+          clearSession();
+          setStatus('anonymous');
+        }
+      }
+    };
+
+    verify();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    return onSessionExpired((email) => {
+      setUser(null);
+      setStatus('anonymous');
+      setExpiredSessionEmail(email);
+    });
+  }, []);
+
+  // Keep every open tab on the same session
+  useEffect(() => {
+    return onSessionChangedElsewhere((change) => {
+      if (change.type === 'logout') {
+        setUser(null);
+        setStatus('anonymous');
+      } else {
+        setUser(change.user);
+        setStatus('authenticated');
+        setExpiredSessionEmail(null);
+      }
+    });
+  }, []);
+
+  const login = useCallback((nextUser: User, token: string, refreshToken?: string) => {
+    saveSession(nextUser, token, refreshToken);
+    setUser(nextUser);
+    setStatus('authenticated');
+    setExpiredSessionEmail(null);
+  }, []);
+
+  const logout = useCallback(() => {
+    authAPI.logout();
+    setUser(null);
+    setStatus('anonymous');
+  }, []);
+
+  const updateUser = useCallback((nextUser: User) => {
+    setStoredUser(nextUser);
+    setUser(nextUser);
+  }, []);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    user,
+    role: user?.role ?? null,
+    status,
+    expiredSessionEmail,
+    login,
+    logout,
+    updateUser
+  }), [user, status, expiredSessionEmail, login, logout, updateUser]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
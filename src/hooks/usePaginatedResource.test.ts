@@ -0,0 +1,68 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { ContentStatus } from '../App';
+import type { ListParams } from '../services/api';
+import { usePaginatedResource } from './usePaginatedResource';
+
+type Row = { id: string; status: ContentStatus };
+
+const rows = (statuses: ContentStatus[]): Row[] => statuses.map((status, index) => ({ id: `r${index + 1}`, status }));
+
+// A backend that pages but ignores the status filter
+const pagingClient = (records: Row[]) => ({
+  getAll: jest.fn(async ({ page = 1, limit = 12 }: ListParams = {}) => ({
+    data: records.slice((page - 1) * limit, page * limit),
+    total: records.length,
+    page,
+    limit
+  }))
+});
+
+describe('usePaginatedResource', () => {
+  test('uses the server total when nothing is filtered out', async () => {
+    const client = pagingClient(rows(['published', 'published', 'published']));
+    const { result } = renderHook(() => usePaginatedResource(client, { limit: 2 }));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.items).toHaveLength(2);
+    expect(result.current).toMatchObject({ total: 3, pageCount: 2, hasMore: true });
+  });
+
+  test('does not count rows the status filter drops, and the total is exact on the last page', async () => {
+    const client = pagingClient(rows(['published', 'draft', 'draft', 'published', 'archived']));
+    const { result } = renderHook(() => usePaginatedResource(client, { limit: 2, status: 'published', mode: 'append' }));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.items.map(item => item.id)).toEqual(['r1']);
+    expect(result.current.total).toBe(4);
+    expect(result.current.hasMore).toBe(true);
+
+    act(() => result.current.loadMore());
+    await waitFor(() => expect(result.current.items).toHaveLength(2));
+    expect(result.current).toMatchObject({ total: 3, hasMore: true });
+
+    act(() => result.current.loadMore());
+    await waitFor(() => expect(result.current.hasMore).toBe(false));
+    expect(result.current.items.map(item => item.id)).toEqual(['r1', 'r4']);
+    expect(result.current.total).toBe(2);
+  });
+
+  test('skips server pages the filter empties instead of stopping an infinite list', async () => {
+    const client = pagingClient(rows(['draft', 'draft', 'draft', 'draft', 'published']));
+    const { result } = renderHook(() => usePaginatedResource(client, { limit: 2, status: 'published', mode: 'append' }));
+
+    await waitFor(() => expect(result.current.items).toHaveLength(1));
+    expect(client.getAll).toHaveBeenCalledTimes(3);
+    expect(result.current).toMatchObject({ total: 1, page: 3, hasMore: false });
+  });
+
+  test('applies the extra filter and counts the whole collection from backends that ignore paging', async () => {
+    const records = rows(['published', 'draft', 'published', 'published', 'published']);
+    const client = { getAll: jest.fn(async () => ({ data: records, total: records.length, page: 1, limit: records.length })) };
+    const notFirst = (row: Row) => row.id !== 'r1';
+    const { result } = renderHook(() => usePaginatedResource(client, { limit: 2, status: 'published', filter: notFirst }));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.items.map(item => item.id)).toEqual(['r3', 'r4']);
+    expect(result.current).toMatchObject({ total: 3, pageCount: 2 });
+  });
+});
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Region, ContentStatus } from '../App';
+import type { ResourceClient } from '../services/api';
+
+export const DEFAULT_PAGE_SIZE = 12;
+
+// Everything a grid needs to render one resource page by page (managers) or as an infinite list (viewers)
+export type PaginatedListing<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  pageCount: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  error: string | null;
+  setPage: (page: number) => void;
+  loadMore: () => void;
+  refresh: () => Promise<void>;
+};
+
+type PaginatedResourceOptions<T> = {
+  region?: Region | 'All';
+  search?: string;
+  status?: ContentStatus;
+  // Applied to every page in the browser as well, e.g. isLive for scheduled content; must be a stable function
+  filter?: (item: T) => boolean;
+  limit?: number;
+  // 'pages' replaces the items on every page change, 'append' accumulates them for infinite scroll
+  mode?: 'pages' | 'append';
+  enabled?: boolean;
+};
+
+export function usePaginatedResource<T extends { id: string; status?: ContentStatus }>(
+  client: Pick<ResourceClient<T>, 'getAll'>,
+  {
+    region = 'All',
+    search = '',
+    status,
+    filter,
+    limit = DEFAULT_PAGE_SIZE,
+    mode = 'pages',
+    enabled = true
+  }: PaginatedResourceOptions<T> = {}
+): PaginatedListing<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  // Pages are the server's pages; `total` may be lower when the browser filters out rows
+  const [pageCount, setPageCount] = useState(1);
+  const [page, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request may write state; older responses for a previous filter are dropped
+  const requestId = useRef(0);
+
+  // Rows the server sent that the browser-side filter dropped, since the list last started over
+  const dropped = useRef(0);
+  const loaded = useRef<T[]>([]);
+
+  const fetchPage = useCallback(async (targetPage: number, append: boolean) => {
+    const id = ++requestId.current;
+    setIsLoading(true);
+    setError(null);
+
+    // Backends without the status filter send every record; never let those through a status-filtered list
+    const keep = (item: T) => (!status || item.status === status) && (!filter || filter(item));
+
+    try {
+      let serverPage = targetPage;
+      let droppedSoFar = append ? dropped.current : 0;
+      for (;;) {
+        const response = await client.getAll({ page: serverPage, limit, region, search: search.trim() || undefined, status });
+        if (id !== requestId.current) return;
+
+        const visible = response.data.filter(keep);
+
+        // Older backends ignore page/limit and return the whole collection; page through it locally
+        if (response.data.length > limit) {
+          const pageItems = visible.slice((serverPage - 1) * limit, serverPage * limit);
+          const nextItems = append ? loaded.current.concat(pageItems) : pageItems;
+          dropped.current = 0;
+          loaded.current = nextItems;
+          setTotal(visible.length);
+          setPageCount(Math.max(1, Math.ceil(visible.length / limit)));
+          setCurrentPage(serverPage);
+          setItems(nextItems);
+          return;
+        }
+
+        // Counts must not include rows the filter hides, or they would reveal how many unpublished records exist
+        droppedSoFar += response.data.length - visible.length;
+        const serverPageCount = Math.max(1, Math.ceil(response.total / limit));
+        const isLastPage = serverPage >= serverPageCount || response.data.length < limit;
+
+        // In an infinite list a page the filter emptied would stop the scrolling; fetch the next one instead
+        if (mode === 'append' && visible.length === 0 && !isLastPage) {
+          serverPage++;
+          continue;
+        }
+
+        const seen = new Set(loaded.current.map(item => item.id));
+        const nextItems = append ? loaded.current.concat(visible.filter(item => !seen.has(item.id))) : visible;
+        dropped.current = droppedSoFar;
+        loaded.current = nextItems;
+        setTotal(mode === 'append' && isLastPage ? nextItems.length : Math.max(nextItems.length, response.total - droppedSoFar));
+        setPageCount(isLastPage ? serverPage : serverPageCount);
+        setCurrentPage(serverPage);
+        setItems(nextItems);
+        return;
+      }
+    } catch (err) {
+      if (id !== requestId.current) return;
+      console.error('Error fetching page:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load data');
+    } finally {
+      if (id === requestId.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [client, limit, region, search, status, filter, mode]);
+
+  // Filters changed: start over from the first page
+  useEffect(() => {
+    if (enabled) {
+      fetchPage(1, false);
+    }
+  }, [fetchPage, enabled]);
+
+  const hasMore = page < pageCount;
+
+  const setPage = useCallback((nextPage: number) => {
+    fetchPage(Math.min(Math.max(1, nextPage), pageCount), false);
+  }, [fetchPage, pageCount]);
+
+  const loadMore = useCallback(() => {
+    if (hasMore && !isLoading) {
+      fetchPage(page + 1, true);
+    }
+  }, [fetchPage, hasMore, isLoading, page]);
+
+  const refresh = useCallback(
+    () => (mode === 'append' ? fetchPage(1, false) : fetchPage(page, false)),
+    [fetchPage, mode, page]
+  );
+
+  return { items, total, page, limit, pageCount, hasMore, isLoading, error, setPage, loadMore, refresh };
+}
+
+// Wraps an already-loaded list (e.g. ranked search hits) so it can be handed to a manager
+export const staticListing = <T>(items: T[], { isLoading = false, refresh = async () => {} }: {
+  isLoading?: boolean;
+  refresh?: () => Promise<void>;
+} = {}): PaginatedListing<T> => ({
+  items,
+  total: items.length,
+  page: 1,
+  limit: items.length,
+  pageCount: 1,
+  hasMore: false,
+  isLoading,
+  error: null,
+  setPage: () => {},
+  loadMore: () => {},
+  refresh
+});
@@ -0,0 +1,18 @@
+import { useCallback, useMemo } from 'react';
+import type { Region } from '../App';
+import { useAuth } from './useAuth';
+import { can as userCan, regionsFor, ALL_REGIONS, Capability } from '../services/permissions';
+
+// The signed-in user's capabilities, for deciding which admin controls to show
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const can = useCallback(
+    (capability: Capability, record?: { region?: Region }) => userCan(user, capability, record),
+    [user]
+  );
+  const regions = useMemo(() => regionsFor(user), [user]);
+
+  // New content starts in the first region the user may use
+  return { can, regions, defaultRegion: regions[0] || ALL_REGIONS[0] };
+}
@@ -0,0 +1,26 @@
+import { buildPath, parseRoute } from './useRoute';
+
+describe('parseRoute', () => {
+  test('reads the section, item, region and query', () => {
+    expect(parseRoute('/itineraries/it%201', '?region=South')).toEqual({
+      section: 'itineraries',
+      region: 'South',
+      query: '',
+      itemId: 'it 1'
+    });
+    expect(parseRoute('/search', '?q=taj')).toMatchObject({ section: 'search', query: 'taj' });
+  });
+
+  test('falls back to experiences in all regions for unknown paths and regions', () => {
+    expect(parseRoute('/nowhere', '?region=Moon')).toEqual({ section: 'experiences', region: 'All', query: '', itemId: null });
+  });
+
+  test('keeps a malformed escape as typed instead of throwing', () => {
+    expect(parseRoute('/trips/%E0%A4', '')).toMatchObject({ section: 'trips', itemId: '%E0%A4' });
+  });
+
+  test('reads back the paths buildPath writes', () => {
+    const path = buildPath({ section: 'trips', itemId: 'board/1' });
+    expect(parseRoute(path, '')).toMatchObject({ section: 'trips', itemId: 'board/1' });
+  });
+});
@@ -0,0 +1,110 @@
+import { useSyncExternalStore } from 'react';
+import type { Region } from '../App';
+
+// Sections reachable from the dashboard navigation; `trips` is the traveller's favourites and boards
+export type Section = 'experiences' | 'itineraries' | 'images' | 'users' | 'trips' | 'search';
+
+export type Route = {
+  section: Section;
+  region: Region | 'All';
+  query: string;
+  itemId: string | null; // e.g. the itinerary shown in the detail dialog for /itineraries/:id, or the board at /trips/:id
+};
+
+const SECTIONS: Section[] = ['experiences', 'itineraries', 'images', 'users', 'trips', 'search'];
+const REGIONS: Region[] = ['North', 'South', 'East', 'West'];
+
+// pushState does not fire popstate, so in-app navigation announces itself with this event
+const NAVIGATE_EVENT = 'immerse:navigate';
+
+// A malformed escape such as a cut-off %E0%A4 is kept as typed instead of crashing the app
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (e) {
+    return segment;
+  }
+};
+
+export const parseRoute = (pathname: string, search: string): Route => {
+  const [first, second] = pathname.split('/').filter(Boolean).map(decodeSegment);
+  const params = new URLSearchParams(search);
+  const region = params.get('region') as Region | null;
+
+  return {
+    section: SECTIONS.includes(first as Section) ? (first as Section) : 'experiences',
+    region: region && REGIONS.includes(region) ? region : 'All',
+    query: params.get('q') || '',
+    itemId: second || null
+  };
+};
+
+export const buildPath = ({ section, region = 'All', query = '', itemId = null }: Partial<Route> & { section: Section }) => {
+  const params = new URLSearchParams();
+  if (section === 'search') {
+    if (query) params.set('q', query);
+  } else if (region !== 'All') {
+    params.set('region', region);
+  }
+
+  const path = itemId ? `/${section}/${encodeURIComponent(itemId)}` : `/${section}`;
+  const queryString = params.toString();
+  return queryString ? `${path}?${queryString}` : path;
+};
+
+export const navigate = (path: string, { replace = false }: { replace?: boolean } = {}) => {
+  if (path === window.location.pathname + window.location.search) return;
+
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+};
+
+const getLocationKey = () => window.location.pathname + window.location.search;
+
+// Current route, re-rendering on in-app navigation and browser back/forward
+export function useRoute(): Route {
+  const locationKey = useSyncExternalStore(subscribe, getLocationKey);
+  const [pathname, search = ''] = locationKey.split(/(?=\?)/);
+  return parseRoute(pathname, search);
+}
+
+// Screens shown outside the dashboards. Emailed links open /reset-password and /verify-email with a token.
+export type AuthScreen = 'login' | 'register' | 'forgot-password' | 'reset-password' | 'verify-email';
+
+export type AuthRoute = {
+  screen: AuthScreen;
+  token: string;
+  email: string;
+};
+
+const AUTH_SCREENS: AuthScreen[] = ['login', 'register', 'forgot-password', 'reset-password', 'verify-email'];
+
+export const parseAuthRoute = (pathname: string, search: string): AuthRoute => {
+  const [first] = pathname.split('/').filter(Boolean);
+  const params = new URLSearchParams(search);
+
+  return {
+    screen: AUTH_SCREENS.includes(first as AuthScreen) ? (first as AuthScreen) : 'login',
+    token: params.get('token') || '',
+    email: params.get('email') || ''
+  };
+};
+
+export function useAuthRoute(): AuthRoute {
+  const locationKey = useSyncExternalStore(subscribe, getLocationKey);
+  const [pathname, search = ''] = locationKey.split(/(?=\?)/);
+  return parseAuthRoute(pathname, search);
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import type { Schedule } from '../App';
+import { nextScheduleChange } from '../services/workflow';
+
+// Browsers fire longer timeouts immediately, so far-off changes are reached in several hops
+const MAX_TIMEOUT = 2147483647;
+
+// The current time, refreshed when the next go-live or take-down among `records` passes, so an open page
+// shows and hides scheduled content on time without polling
+export function useScheduleClock(records: Schedule[]) {
+  const [now, setNow] = useState(() => Date.now());
+  const next = nextScheduleChange(records, now);
+
+  useEffect(() => {
+    if (next === null) return;
+    const timer = window.setTimeout(() => setNow(Date.now()), Math.min(next - Date.now() + 1, MAX_TIMEOUT));
+    return () => window.clearTimeout(timer);
+  }, [next]);
+
+  return now;
+}
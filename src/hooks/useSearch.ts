@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import type { AppData } from '../App';
+import { searchContent, SearchResults, tokenize } from '../services/search';
+
+// Runs a ranked search whenever the query changes; stale responses for earlier queries are dropped
+export function useSearch(query: string, snapshot: AppData, liveOnly = false) {
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (tokenize(query).length === 0) {
+      setResults(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    searchContent(query, snapshot, { liveOnly })
+      .then(nextResults => {
+        if (!cancelled) setResults(nextResults);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Search failed:', err);
+        setError(err instanceof Error ? err.message : 'Search failed');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, snapshot, liveOnly, version]);
+
+  // Re-run the current query, e.g. after an admin edited one of the results
+  const refresh = async () => {
+    setVersion(v => v + 1);
+  };
+
+  return { results, isLoading, error, refresh };
+}
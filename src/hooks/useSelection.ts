@@ -0,0 +1,53 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+// Checkbox selection over the ids currently shown, in display order. Shift-click selects the range from the
+// last clicked item; ids that leave the list (another page, a filter) drop out of the selection.
+export function useSelection(ids: string[]) {
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const anchor = useRef<string | null>(null);
+
+  const selectedIds = useMemo(() => ids.filter(id => selected[id]), [ids, selected]);
+
+  const toggle = useCallback(
+    (id: string, range = false) => {
+      const on = !selected[id];
+      const from = anchor.current ? ids.indexOf(anchor.current) : -1;
+      const to = ids.indexOf(id);
+      const targets = range && from !== -1 && to !== -1
+        ? ids.slice(Math.min(from, to), Math.max(from, to) + 1)
+        : [id];
+
+      setSelected(current => {
+        const next = { ...current };
+        targets.forEach(target => {
+          if (on) next[target] = true;
+          else delete next[target];
+        });
+        return next;
+      });
+      anchor.current = id;
+    },
+    [ids, selected]
+  );
+
+  const selectAll = useCallback(() => {
+    setSelected(ids.reduce<Record<string, boolean>>((all, id) => ({ ...all, [id]: true }), {}));
+  }, [ids]);
+
+  const clear = useCallback(() => {
+    setSelected({});
+    anchor.current = null;
+  }, []);
+
+  return {
+    selectedIds,
+    count: selectedIds.length,
+    allSelected: ids.length > 0 && selectedIds.length === ids.length,
+    isSelected: (id: string) => !!selected[id] && ids.indexOf(id) !== -1,
+    toggle,
+    selectAll,
+    clear
+  };
+}
+
+export type Selection = ReturnType<typeof useSelection>;
@@ -0,0 +1,47 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { toast } from 'sonner';
+import {
+  subscribeTrash,
+  getTrashVersion,
+  isPendingDelete,
+  listTrash,
+  softDelete,
+  UNDO_GRACE_MS,
+  TrashType,
+  TrashRecord
+} from '../services/trash';
+
+// Trash contents and pending deletions, re-rendering whenever either changes
+export function useTrash() {
+  useSyncExternalStore(subscribeTrash, getTrashVersion);
+  return { entries: listTrash(), isPending: isPendingDelete };
+}
+
+// Deletes with an "Undo" toast; `noun` names the record in messages, e.g. "Experience"
+export function useSoftDelete(type: TrashType, noun: string, onDeleted: () => void | Promise<void>) {
+  return useCallback(
+    (record: TrashRecord) => {
+      const undo = softDelete(type, record, {
+        onDeleted,
+        onFailed: (error) => {
+          console.error(`Error deleting ${noun.toLowerCase()}:`, error);
+          toast.error(`Failed to delete ${noun.toLowerCase()}`);
+        }
+      });
+      toast(`${noun} deleted`, {
+        duration: UNDO_GRACE_MS,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            if (undo()) {
+              toast.success(`${noun} restored`);
+            } else {
+              toast.error(`${noun} was already deleted. Restore it from Trash.`);
+            }
+          }
+        }
+      });
+    },
+    [type, noun, onDeleted]
+  );
+}
@@ -0,0 +1,41 @@
+import { useSyncExternalStore } from 'react';
+import type { Itinerary } from '../App';
+import { useAuth } from './useAuth';
+import {
+  subscribeTrips,
+  getSavedTrips,
+  isSaved,
+  toggleFavourite,
+  removeFavourite,
+  createBoard,
+  renameBoard,
+  deleteBoard,
+  setOnBoard,
+  savePlan,
+  deletePlan,
+  FavouriteInput,
+  FavouriteType,
+  SavedTrips
+} from '../services/trips';
+
+const NO_TRIPS: SavedTrips = { favourites: [], boards: [], plans: [] };
+
+// The signed-in traveller's favourites, trip boards and private itineraries, re-rendering whenever they change
+export function useTrips() {
+  const { user } = useAuth();
+  const email = user?.email || '';
+  const trips = useSyncExternalStore(subscribeTrips, () => (email ? getSavedTrips(email) : NO_TRIPS));
+
+  return {
+    ...trips,
+    isFavourite: (type: FavouriteType, id: string) => isSaved(trips, type, id),
+    toggleFavourite: (favourite: FavouriteInput) => toggleFavourite(email, favourite),
+    removeFavourite: (key: string) => removeFavourite(email, key),
+    createBoard: (name: string) => createBoard(email, name),
+    renameBoard: (boardId: string, name: string) => renameBoard(email, boardId, name),
+    deleteBoard: (boardId: string) => deleteBoard(email, boardId),
+    setOnBoard: (boardId: string, favourite: FavouriteInput, onBoard: boolean) => setOnBoard(email, boardId, favourite, onBoard),
+    savePlan: (plan: Itinerary) => savePlan(email, plan),
+    deletePlan: (planId: string) => deletePlan(email, planId)
+  };
+}
@@ -1,29 +1,51 @@
+import type { Experience, Itinerary, DestinationImage, Update, Region, ContentStatus, User, UserAccount } from '../App';
+import { getToken, setToken, getRefreshToken, setRefreshToken, getStoredUser, clearSession } from './session';
+import { migrateItinerary } from './itineraryDays';
+import { normalizeStatus } from './workflow';
+import { withRevisions } from './revisions';
+import { withPermissions, assertCapability } from './permissions';
+
 // API Configuration
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
 
-// Explicit helpers to manage auth token from anywhere
-export const setAuthToken = (token: string) => {
-  try {
-    localStorage.setItem('authToken', token);
-  } catch (e) {
-    // ignore storage errors in non-browser environments
-  }
+// Fired on window once a rejected token could not be refreshed; the auth provider listens and
+// returns to the login page with the expired account's email pre-filled
+export const SESSION_EXPIRED_EVENT = 'immerse:session-expired';
+
+export const onSessionExpired = (listener: (email: string) => void) => {
+  const handleExpired = (e: Event) => listener((e as CustomEvent<{ email: string }>).detail?.email || '');
+  window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+  return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+};
+
+const expireSession = () => {
+  const email = getStoredUser()?.email || '';
+  clearSession();
+  window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT, { detail: { email } }));
 };
 
-export const clearAuthToken = () => {
-  try {
-    localStorage.removeItem('authToken');
-  } catch (e) {
-    // ignore storage errors in non-browser environments
+// Error thrown for non-2xx responses so callers can branch on the HTTP status
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
   }
+}
+
+// Helper function to get the bearer header on its own (FormData requests must not set Content-Type)
+const getAuthHeader = (): Record<string, string> => {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
 };
 
 // Helper function to get auth headers
 const getAuthHeaders = () => {
-  const token = localStorage.getItem('authToken');
   return {
     'Content-Type': 'application/json',
-    ...(token && { Authorization: `Bearer ${token}` })
+    ...getAuthHeader()
   };
 };
 
@@ -38,11 +60,95 @@ const handleResponse = async (response: Response) => {
       // If we can't parse the error response, use the status
       errorMessage = `Network error - ${response.status} ${response.statusText}`;
     }
-    throw new Error(errorMessage);
+    throw new ApiError(errorMessage, response.status);
   }
   return response.json();
 };
 
+// Concurrent requests that hit an expired token share a single refresh call
+let refreshInFlight: Promise<boolean> | null = null;
+
+const refreshAccessToken = (): Promise<boolean> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const refreshToken = getRefreshToken();
+        const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(refreshToken ? { refreshToken } : {})
+        });
+        if (!response.ok) return false;
+
+        const data = await response.json();
+        if (!data.token) return false;
+
+        setToken(data.token);
+        if (data.refreshToken) {
+          setRefreshToken(data.refreshToken);
+        }
+        return true;
+      } catch (e) {
+        return false;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+  return refreshInFlight;
+};
+
+// fetch for authenticated calls: on 401 try the refresh-token flow once and replay the request.
+// `buildInit` is called again for the replay so it picks up the new bearer token. A 403 is a permission
+// denial for a valid session and is passed through for handleResponse to raise as an ApiError.
+const authorizedFetch = async (url: string, buildInit: () => RequestInit) => {
+  const hadToken = !!getToken();
+  const response = await fetch(url, buildInit());
+
+  if (!hadToken || response.status !== 401) {
+    return response;
+  }
+
+  const refreshed = await refreshAccessToken();
+  if (!refreshed) {
+    expireSession();
+    return response;
+  }
+
+  return fetch(url, buildInit());
+};
+
+// POST to an auth endpoint that works without a session, e.g. registration or password reset
+const postPublic = async (path: string, body: unknown) => {
+  const response = await fetch(`${API_BASE_URL}/auth/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+  return handleResponse(response);
+};
+
+// Keeps the tokens of a completed login for future requests
+const storeTokens = (data: { token?: string; refreshToken?: string }) => {
+  if (data.token) {
+    setToken(data.token);
+  }
+  if (data.refreshToken) {
+    setRefreshToken(data.refreshToken);
+  }
+};
+
+// Authenticator app enrollment: the backend generates the secret and may include a QR code image for it
+export type MfaSetup = {
+  secret: string;
+  otpauthUrl: string;
+  qrCode?: string; // data: URL
+};
+
 // Auth API
 export const authAPI = {
   login: async (email: string, password: string) => {
@@ -63,10 +169,9 @@ export const authAPI = {
       
       const data = await handleResponse(response);
       
-      // Store token for future requests
-      if (data.token) {
-        setAuthToken(data.token);
-      }
+      // Store token for future requests. Accounts with two-factor authentication get
+      // { mfaRequired, mfaToken } instead and finish with verifyMfa.
+      storeTokens(data);
       
       return data;
     } catch (error: any) {
@@ -75,217 +180,305 @@ export const authAPI = {
     }
   },
 
+  // Second login step; `code` is the authenticator code or one of the recovery codes
+  verifyMfa: async (mfaToken: string, code: string) => {
+    const data = await postPublic('mfa/verify', { mfaToken, code });
+    storeTokens(data);
+    return data;
+  },
+
+  mfa: {
+    setup: async (): Promise<MfaSetup> => {
+      const response = await authorizedFetch(`${API_BASE_URL}/auth/mfa/setup`, () => buildBody('POST', {}));
+      return unwrapRecord<MfaSetup>(await handleResponse(response));
+    },
+
+    // Confirms the app works with a first code; the recovery codes are only ever shown once
+    enable: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+      const response = await authorizedFetch(`${API_BASE_URL}/auth/mfa/enable`, () => buildBody('POST', { code }));
+      return unwrapRecord<{ recoveryCodes: string[] }>(await handleResponse(response));
+    },
+
+    disable: async (code: string) => {
+      const response = await authorizedFetch(`${API_BASE_URL}/auth/mfa/disable`, () => buildBody('POST', { code }));
+      return handleResponse(response);
+    }
+  },
+
+  // New accounts are travellers and must verify their email before they can log in
+  register: (details: { name: string; email: string; password: string }): Promise<{ message?: string }> =>
+    postPublic('register', details),
+
+  verifyEmail: (token: string): Promise<{ message?: string }> => postPublic('verify-email', { token }),
+
+  resendVerification: (email: string): Promise<{ message?: string }> => postPublic('resend-verification', { email }),
+
+  // Answers the same whether or not the email has an account, so it cannot be used to probe for users
+  requestPasswordReset: (email: string): Promise<{ message?: string }> => postPublic('forgot-password', { email }),
+
+  // Also used by invited users to set their first password
+  resetPassword: (token: string, password: string): Promise<{ message?: string }> =>
+    postPublic('reset-password', { token, password }),
+
   getProfile: async () => {
-    const response = await fetch(`${API_BASE_URL}/auth/profile`, {
+    const response = await authorizedFetch(`${API_BASE_URL}/auth/profile`, () => ({
       headers: getAuthHeaders()
-    });
+    }));
     return handleResponse(response);
   },
 
   logout: () => {
-    localStorage.removeItem('authToken');
+    clearSession();
+  },
+
+  // Account administration for the admin dashboard; only users with users.manage may call it
+  users: {
+    list: async (params?: ListParams): Promise<Paginated<UserAccount>> => {
+      assertCapability('users.manage', 'manage users');
+      const response = await authorizedFetch(`${API_BASE_URL}/auth/users${buildQuery(params)}`, () => ({
+        headers: getAuthHeaders()
+      }));
+      const page = toPaginated<UserAccount>(await handleResponse(response), params);
+      return { ...page, data: page.data.map(normalizeAccount) };
+    },
+
+    // Creates the account and emails the person a link to set their password
+    invite: async (invite: User): Promise<UserAccount> => {
+      assertCapability('users.manage', 'invite users');
+      const response = await authorizedFetch(`${API_BASE_URL}/auth/users/invite`, () => buildBody('POST', invite));
+      return normalizeAccount(unwrapRecord<UserAccount>(await handleResponse(response)));
+    },
+
+    update: async (id: string, changes: Partial<Pick<User, 'name' | 'role' | 'region'>>): Promise<UserAccount> => {
+      assertCapability('users.manage', 'change users');
+      const response = await authorizedFetch(`${API_BASE_URL}/auth/users/${id}`, () => buildBody('PATCH', changes));
+      return normalizeAccount(unwrapRecord<UserAccount>(await handleResponse(response)));
+    },
+
+    deactivate: async (id: string): Promise<UserAccount> => {
+      assertCapability('users.manage', 'deactivate users');
+      const response = await authorizedFetch(`${API_BASE_URL}/auth/users/${id}/deactivate`, () => buildBody('POST', {}));
+      return normalizeAccount(unwrapRecord<UserAccount>(await handleResponse(response)));
+    },
+
+    reactivate: async (id: string): Promise<UserAccount> => {
+      assertCapability('users.manage', 'reactivate users');
+      const response = await authorizedFetch(`${API_BASE_URL}/auth/users/${id}/reactivate`, () => buildBody('POST', {}));
+      return normalizeAccount(unwrapRecord<UserAccount>(await handleResponse(response)));
+    }
   }
 };
 
-// Experiences API
-export const experiencesAPI = {
-  getAll: async (params?: { page?: number; limit?: number; region?: string; search?: string }) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.limit) queryParams.append('limit', params.limit.toString());
-    if (params?.region && params.region !== 'All') queryParams.append('region', params.region);
-    if (params?.search) queryParams.append('search', params.search);
-    
-    const url = `${API_BASE_URL}/experiences${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await fetch(url);
-    return handleResponse(response);
-  },
+// Older backends send ISO dates and omit the status of accounts that have logged in
+const toTimestamp = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return isNaN(time) ? null : time;
+};
 
-  getById: async (id: string) => {
-    const response = await fetch(`${API_BASE_URL}/experiences/${id}`);
-    return handleResponse(response);
-  },
+const normalizeAccount = (account: UserAccount): UserAccount => ({
+  ...account,
+  status: account.status || 'active',
+  lastLoginAt: toTimestamp(account.lastLoginAt),
+  createdAt: toTimestamp(account.createdAt) || 0
+});
 
-  create: async (data: FormData | any) => {
-    const token = localStorage.getItem('authToken');
-    const isFormData = data instanceof FormData;
-    const response = await fetch(`${API_BASE_URL}/experiences`, {
-      method: 'POST',
-      headers: {
-        ...(token && { Authorization: `Bearer ${token}` }),
-        ...(!isFormData && { 'Content-Type': 'application/json' })
-      },
-      body: isFormData ? data : JSON.stringify(data)
-    });
-    return handleResponse(response);
-  },
+// Query parameters shared by every list endpoint
+export type ListParams = {
+  page?: number;
+  limit?: number;
+  region?: Region | 'All';
+  search?: string;
+  status?: ContentStatus;
+};
 
-  update: async (id: string, data: FormData | any) => {
-    const token = localStorage.getItem('authToken');
-    const isFormData = data instanceof FormData;
-    const response = await fetch(`${API_BASE_URL}/experiences/${id}`, {
-      method: 'PUT',
-      headers: {
-        ...(token && { Authorization: `Bearer ${token}` }),
-        ...(!isFormData && { 'Content-Type': 'application/json' })
-      },
-      body: isFormData ? data : JSON.stringify(data)
-    });
-    return handleResponse(response);
-  },
+// Every list endpoint resolves to the same envelope, whatever shape the backend used
+export type Paginated<T> = {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+};
 
-  delete: async (id: string) => {
-    const response = await fetch(`${API_BASE_URL}/experiences/${id}`, {
-      method: 'DELETE',
-      headers: getAuthHeaders()
-    });
-    return handleResponse(response);
-  }
+// Fields the client sends when creating a record; the backend assigns id and createdAt
+export type ResourceInput<T> = Omit<T, 'id' | 'createdAt'>;
+
+export type ResourceClient<T, TInput = ResourceInput<T>> = {
+  getAll: (params?: ListParams) => Promise<Paginated<T>>;
+  getById: (id: string) => Promise<T>;
+  create: (data: TInput | FormData) => Promise<T>;
+  update: (id: string, data: Partial<TInput> | FormData) => Promise<T>;
+  // Changes only the given fields; update replaces the record with what it is sent
+  patch: (id: string, changes: Partial<TInput>) => Promise<T>;
+  delete: (id: string) => Promise<void>;
 };
 
-// Itineraries API
-export const itinerariesAPI = {
-  getAll: async (params?: { page?: number; limit?: number; region?: string; search?: string }) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.limit) queryParams.append('limit', params.limit.toString());
-    if (params?.region && params.region !== 'All') queryParams.append('region', params.region);
-    if (params?.search) queryParams.append('search', params.search);
-    
-    const url = `${API_BASE_URL}/itineraries${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await fetch(url);
-    return handleResponse(response);
-  },
+export const emptyPage = <T>(params?: ListParams): Paginated<T> => ({
+  data: [],
+  total: 0,
+  page: params?.page || 1,
+  limit: params?.limit || 0
+});
 
-  getById: async (id: string) => {
-    const response = await fetch(`${API_BASE_URL}/itineraries/${id}`);
-    return handleResponse(response);
-  },
+const buildQuery = (params?: ListParams) => {
+  const queryParams = new URLSearchParams();
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+  if (params?.region && params.region !== 'All') queryParams.append('region', params.region);
+  if (params?.search) queryParams.append('search', params.search);
+  if (params?.status) queryParams.append('status', params.status);
 
-  create: async (data: FormData | any) => {
-    const token = localStorage.getItem('authToken');
-    const isFormData = data instanceof FormData;
-    const response = await fetch(`${API_BASE_URL}/itineraries`, {
-      method: 'POST',
-      headers: {
-        ...(token && { Authorization: `Bearer ${token}` }),
-        ...(!isFormData && { 'Content-Type': 'application/json' })
-      },
-      body: isFormData ? data : JSON.stringify(data)
-    });
-    return handleResponse(response);
-  },
+  const query = queryParams.toString();
+  return query ? `?${query}` : '';
+};
 
-  update: async (id: string, data: FormData | any) => {
-    const token = localStorage.getItem('authToken');
-    const isFormData = data instanceof FormData;
-    const response = await fetch(`${API_BASE_URL}/itineraries/${id}`, {
-      method: 'PUT',
-      headers: {
-        ...(token && { Authorization: `Bearer ${token}` }),
-        ...(!isFormData && { 'Content-Type': 'application/json' })
-      },
-      body: isFormData ? data : JSON.stringify(data)
-    });
-    return handleResponse(response);
-  },
+// FormData carries file uploads and lets the browser set the multipart boundary;
+// everything else goes out as JSON
+const buildBody = (method: string, data: unknown): RequestInit => {
+  const isFormData = data instanceof FormData;
+  return {
+    method,
+    headers: {
+      ...getAuthHeader(),
+      ...(!isFormData && { 'Content-Type': 'application/json' })
+    },
+    body: isFormData ? data : JSON.stringify(data)
+  };
+};
 
-  delete: async (id: string) => {
-    const response = await fetch(`${API_BASE_URL}/itineraries/${id}`, {
-      method: 'DELETE',
-      headers: getAuthHeaders()
-    });
-    return handleResponse(response);
+// Backend wraps single records as { success, data } on newer routes and returns them bare on older ones
+const unwrapRecord = <T>(payload: any): T => {
+  if (payload && typeof payload === 'object' && !Array.isArray(payload) && 'data' in payload) {
+    return payload.data as T;
   }
+  return payload as T;
 };
 
-// Images API
-export const imagesAPI = {
-  getAll: async (params?: { page?: number; limit?: number; region?: string; search?: string }) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.limit) queryParams.append('limit', params.limit.toString());
-    if (params?.region && params.region !== 'All') queryParams.append('region', params.region);
-    if (params?.search) queryParams.append('search', params.search);
-    
-    const url = `${API_BASE_URL}/images${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await fetch(url);
-    return handleResponse(response);
-  },
+// Lists arrive as a bare array, as { data }, or as { data, total, page, limit } (optionally under `pagination`)
+const toPaginated = <T>(payload: any, params?: ListParams): Paginated<T> => {
+  if (Array.isArray(payload)) {
+    return {
+      data: payload,
+      total: payload.length,
+      page: params?.page || 1,
+      limit: params?.limit || payload.length
+    };
+  }
 
-  getById: async (id: string) => {
-    const response = await fetch(`${API_BASE_URL}/images/${id}`);
-    return handleResponse(response);
-  },
+  const data: T[] = Array.isArray(payload?.data) ? payload.data : [];
+  const meta = payload?.pagination || payload || {};
+  return {
+    data,
+    total: Number(meta.total ?? data.length),
+    page: Number(meta.page ?? params?.page ?? 1),
+    limit: Number(meta.limit ?? params?.limit ?? data.length)
+  };
+};
 
-  create: async (formData: FormData) => {
-    const token = localStorage.getItem('authToken');
-    const response = await fetch(`${API_BASE_URL}/images`, {
-      method: 'POST',
-      headers: {
-        ...(token && { Authorization: `Bearer ${token}` })
-      },
-      body: formData
-    });
-    return handleResponse(response);
-  },
+// Generic CRUD client for a REST resource mounted at `${API_BASE_URL}/${resource}`
+// `normalize` upgrades every record the backend returns, e.g. older itinerary shapes.
+// Reads send the bearer token too, so the backend can tell staff, who see unpublished content, from travellers.
+export function createResourceClient<T, TInput = ResourceInput<T>>(
+  resource: string,
+  normalize: (record: T) => T = record => record
+): ResourceClient<T, TInput> {
+  const baseUrl = `${API_BASE_URL}/${resource}`;
 
-  update: async (id: string, formData: FormData) => {
-    const token = localStorage.getItem('authToken');
-    const response = await fetch(`${API_BASE_URL}/images/${id}`, {
-      method: 'PUT',
-      headers: {
-        ...(token && { Authorization: `Bearer ${token}` })
-      },
-      body: formData
-    });
-    return handleResponse(response);
-  },
+  return {
+    getAll: async (params) => {
+      const response = await authorizedFetch(`${baseUrl}${buildQuery(params)}`, () => ({ headers: getAuthHeader() }));
+      const page = toPaginated<T>(await handleResponse(response), params);
+      return { ...page, data: page.data.map(normalize) };
+    },
 
-  delete: async (id: string) => {
-    const response = await fetch(`${API_BASE_URL}/images/${id}`, {
-      method: 'DELETE',
-      headers: getAuthHeaders()
+    getById: async (id) => {
+      const response = await authorizedFetch(`${baseUrl}/${id}`, () => ({ headers: getAuthHeader() }));
+      return normalize(unwrapRecord<T>(await handleResponse(response)));
+    },
+
+    create: async (data) => {
+      const response = await authorizedFetch(baseUrl, () => buildBody('POST', data));
+      return normalize(unwrapRecord<T>(await handleResponse(response)));
+    },
+
+    update: async (id, data) => {
+      const response = await authorizedFetch(`${baseUrl}/${id}`, () => buildBody('PUT', data));
+      return normalize(unwrapRecord<T>(await handleResponse(response)));
+    },
+
+    patch: async (id, changes) => {
+      const response = await authorizedFetch(`${baseUrl}/${id}`, () => buildBody('PATCH', changes));
+      return normalize(unwrapRecord<T>(await handleResponse(response)));
+    },
+
+    delete: async (id) => {
+      const response = await authorizedFetch(`${baseUrl}/${id}`, () => ({
+        method: 'DELETE',
+        headers: getAuthHeaders()
+      }));
+      await handleResponse(response);
+    }
+  };
+}
+
+const FETCH_ALL_PAGE_SIZE = 100;
+
+// Pages through a collection until the reported total is reached. Older backends ignore `page`
+// and return everything at once, so a page with nothing new also ends the loop.
+export const fetchAll = async <T extends { id: string }>(client: Pick<ResourceClient<T>, 'getAll'>): Promise<T[]> => {
+  const records: T[] = [];
+  const seen: Record<string, boolean> = {};
+
+  for (let page = 1; ; page++) {
+    const result = await client.getAll({ page, limit: FETCH_ALL_PAGE_SIZE });
+    const fresh = result.data.filter(record => !seen[record.id]);
+    fresh.forEach(record => {
+      seen[record.id] = true;
+      records.push(record);
     });
-    return handleResponse(response);
+    if (fresh.length === 0 || records.length >= result.total || result.data.length < FETCH_ALL_PAGE_SIZE) {
+      return records;
+    }
   }
 };
 
-// Updates API
-export const updatesAPI = {
-  getAll: async () => {
-    const response = await fetch(`${API_BASE_URL}/updates`);
-    return handleResponse(response);
-  },
+const normalizeItinerary = (itinerary: Itinerary) => normalizeStatus(migrateItinerary(itinerary));
 
-  getById: async (id: string) => {
-    const response = await fetch(`${API_BASE_URL}/updates/${id}`);
-    return handleResponse(response);
-  },
+// Writes are checked against the signed-in user's role first; saves to experiences and itineraries are
+// also recorded in their revision history
+export const experiencesAPI = withPermissions(
+  'experiences',
+  withRevisions('experiences', createResourceClient<Experience>('experiences', normalizeStatus))
+);
+export const itinerariesAPI = withPermissions(
+  'itineraries',
+  withRevisions('itineraries', createResourceClient<Itinerary>('itineraries', normalizeItinerary))
+);
+export const imagesAPI = withPermissions('images', createResourceClient<DestinationImage>('images', normalizeStatus));
+export const updatesAPI = withPermissions('updates', createResourceClient<Update>('updates', normalizeStatus));
 
-  create: async (data: any) => {
-    const response = await fetch(`${API_BASE_URL}/updates`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(data)
-    });
-    return handleResponse(response);
-  },
+// Unified search across every content type; not every backend deployment exposes it yet
+export type SearchResponse = {
+  experiences: Experience[];
+  itineraries: Itinerary[];
+  images: DestinationImage[];
+  updates: Update[];
+};
 
-  update: async (id: string, data: any) => {
-    const response = await fetch(`${API_BASE_URL}/updates/${id}`, {
-      method: 'PUT',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(data)
-    });
-    return handleResponse(response);
-  },
+export const searchAPI = {
+  search: async (query: string, params?: { limit?: number }): Promise<SearchResponse> => {
+    const queryParams = new URLSearchParams({ q: query });
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
 
-  delete: async (id: string) => {
-    const response = await fetch(`${API_BASE_URL}/updates/${id}`, {
-      method: 'DELETE',
-      headers: getAuthHeaders()
-    });
-    return handleResponse(response);
+    const response = await authorizedFetch(`${API_BASE_URL}/search?${queryParams.toString()}`, () => ({
+      headers: getAuthHeader()
+    }));
+    const payload = unwrapRecord<Partial<SearchResponse>>(await handleResponse(response));
+    return {
+      experiences: (payload.experiences || []).map(normalizeStatus),
+      itineraries: (payload.itineraries || []).map(normalizeItinerary),
+      images: (payload.images || []).map(normalizeStatus),
+      updates: (payload.updates || []).map(normalizeStatus)
+    };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,51 @@
+import type { AppData, Update } from '../App';
+import { diffBackup } from './backup';
+
+jest.mock('./api');
+
+const update = (fields: Partial<Update>): Update => ({
+  id: 'u1',
+  type: 'newsletter',
+  title: 'Monsoon issue',
+  content: 'Rains arrive',
+  status: 'published',
+  createdAt: 1,
+  ...fields
+});
+
+const content = (updates: Update[]): AppData => ({ experiences: [], itineraries: [], images: [], updates });
+
+describe('diffBackup', () => {
+  test('matches records by id and ignores backend-assigned fields', () => {
+    const backup = content([update({}), update({ id: 'u2', title: 'Winter issue' }), update({ id: 'u3' })]);
+    const live = content([update({ createdAt: 99 }), update({ id: 'u2', title: 'Winter special' }), update({ id: 'u4', title: 'Spring' })]);
+
+    const diff = diffBackup(backup, live).updates;
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.changed).toEqual([
+      { before: live.updates[1], after: backup.updates[1], fields: ['title'] }
+    ]);
+    expect(diff.added.map(record => record.id)).toEqual(['u3']);
+    expect(diff.removed.map(record => record.id)).toEqual(['u4']);
+  });
+
+  test('recognises a copy created by an earlier restore, so restoring twice adds nothing', () => {
+    const backup = content([update({ id: 'old', title: 'Lost issue' })]);
+    const live = content([{ status: 'published', createdAt: 50, title: 'Lost issue', id: 'new', content: 'Rains arrive', type: 'newsletter' }]);
+
+    const diff = diffBackup(backup, live).updates;
+
+    expect(diff).toEqual({ added: [], changed: [], removed: [], unchanged: 1 });
+  });
+
+  test('matches each live copy to one backup record only', () => {
+    const backup = content([update({ id: 'a' }), update({ id: 'b' })]);
+    const live = content([update({ id: 'copy' })]);
+
+    const diff = diffBackup(backup, live).updates;
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.added.map(record => record.id)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,321 @@
+import JSZip from 'jszip';
+import type { AppData } from '../App';
+import { experiencesAPI, itinerariesAPI, imagesAPI, updatesAPI, fetchAll, ResourceClient } from './api';
+import { toCsv } from './csv';
+import { migrateItinerary } from './itineraryDays';
+import { normalizeStatus } from './workflow';
+import { runBatch, BatchResult } from './batch';
+
+// Full content backup. The archive holds:
+//   manifest.json      format, version, counts and which image files were bundled
+//   data.json          every record of every content type, as the API returns them
+//   csv/<type>.csv     the same records as spreadsheets (columns match the bulk importer)
+//   images/...         optional copies of the image files, fetched from their URLs
+
+export const BACKUP_FORMAT = 'immerse-india-backup';
+export const BACKUP_VERSION = 1;
+
+export type ContentType = keyof AppData;
+
+export const CONTENT_TYPES: ContentType[] = ['experiences', 'itineraries', 'images', 'updates'];
+
+export const CONTENT_LABELS: Record<ContentType, string> = {
+  experiences: 'Experiences',
+  itineraries: 'Itineraries',
+  images: 'Images',
+  updates: 'Updates'
+};
+
+export type BackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  counts: Record<ContentType, number>;
+  images: {
+    included: boolean;
+    files: Record<string, string>; // original URL -> path inside the archive
+    missing: string[]; // URLs that could not be downloaded
+  };
+};
+
+const clients: { [K in ContentType]: ResourceClient<AppData[K][number]> } = {
+  experiences: experiencesAPI,
+  itineraries: itinerariesAPI,
+  images: imagesAPI,
+  updates: updatesAPI
+};
+
+const CSV_COLUMNS: Record<ContentType, string[]> = {
+  experiences: ['id', 'title', 'destination', 'region', 'description', 'highlights', 'imageUrl', 'status', 'publishAt', 'expiresAt', 'createdAt'],
+  itineraries: ['id', 'title', 'destination', 'region', 'duration', 'durationDays', 'description', 'days', 'imageUrl', 'status', 'publishAt', 'expiresAt', 'createdAt'],
+  images: ['id', 'caption', 'destination', 'region', 'url', 'status', 'publishAt', 'expiresAt', 'createdAt'],
+  updates: ['id', 'type', 'title', 'content', 'externalUrl', 'status', 'publishAt', 'expiresAt', 'createdAt']
+};
+
+export const fetchAllContent = async (): Promise<AppData> => {
+  const [experiences, itineraries, images, updates] = await Promise.all([
+    fetchAll(clients.experiences),
+    fetchAll(clients.itineraries),
+    fetchAll(clients.images),
+    fetchAll(clients.updates)
+  ]);
+  return { experiences, itineraries, images, updates };
+};
+
+const imageUrls = (data: AppData) => {
+  const urls = [
+    ...data.experiences.map(experience => experience.imageUrl),
+    ...data.itineraries.map(itinerary => itinerary.imageUrl),
+    ...data.images.map(image => image.url)
+  ];
+  return urls.filter((url, index): url is string => !!url && /^https?:/i.test(url) && urls.indexOf(url) === index);
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif'
+};
+
+const imageExtension = (url: string, contentType: string) =>
+  IMAGE_EXTENSIONS[contentType.split(';')[0].trim()] ||
+  (url.match(/\.(jpe?g|png|gif|webp|svg|avif)(?:\?|$)/i)?.[1] || 'jpg').toLowerCase();
+
+export type BackupProgress = {
+  stage: 'fetching' | 'images' | 'packing';
+  done: number;
+  total: number;
+};
+
+export type BackupOptions = {
+  includeImages: boolean;
+  onProgress?: (progress: BackupProgress) => void;
+};
+
+export const backupFileName = (date = new Date()) => {
+  const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+  return `immerse-india-backup-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.zip`;
+};
+
+export async function createBackup({ includeImages, onProgress }: BackupOptions) {
+  onProgress?.({ stage: 'fetching', done: 0, total: 1 });
+  const data = await fetchAllContent();
+
+  const zip = new JSZip();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    counts: {
+      experiences: data.experiences.length,
+      itineraries: data.itineraries.length,
+      images: data.images.length,
+      updates: data.updates.length
+    },
+    images: { included: includeImages, files: {}, missing: [] }
+  };
+
+  zip.file('data.json', JSON.stringify(data, null, 2));
+  CONTENT_TYPES.forEach(type => {
+    zip.file(`csv/${type}.csv`, toCsv(CSV_COLUMNS[type], data[type] as Record<string, unknown>[]));
+  });
+
+  if (includeImages) {
+    // Hosts without CORS headers refuse the download; those URLs are listed as missing
+    const results = await runBatch(
+      imageUrls(data),
+      async (url, index) => {
+        const response = await fetch(url, { mode: 'cors' });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const blob = await response.blob();
+        const path = `images/${index + 1}.${imageExtension(url, blob.type || response.headers.get('Content-Type') || '')}`;
+        zip.file(path, blob);
+        return path;
+      },
+      { concurrency: 4, onProgress: (done, total) => onProgress?.({ stage: 'images', done, total }) }
+    );
+    results.forEach(result => {
+      if (result.ok) manifest.images.files[result.item] = result.value;
+      else manifest.images.missing.push(result.item);
+    });
+  }
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  onProgress?.({ stage: 'packing', done: 0, total: 100 });
+  const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }, metadata =>
+    onProgress?.({ stage: 'packing', done: Math.round(metadata.percent), total: 100 })
+  );
+  return { blob, manifest };
+}
+
+export async function readBackup(file: Blob): Promise<{ manifest: BackupManifest; data: AppData }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (error) {
+    throw new Error('The file is not a zip archive');
+  }
+
+  const manifestFile = zip.file('manifest.json');
+  const dataFile = zip.file('data.json');
+  if (!manifestFile || !dataFile) throw new Error('The archive is not an Immerse India backup');
+
+  const manifest = JSON.parse(await manifestFile.async('string')) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT) throw new Error('The archive is not an Immerse India backup');
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(`The backup uses format version ${manifest.version}; this app reads up to version ${BACKUP_VERSION}`);
+  }
+
+  const raw = JSON.parse(await dataFile.async('string')) as Partial<AppData>;
+  const list = <K extends ContentType>(type: K) => (Array.isArray(raw[type]) ? raw[type] : []) as AppData[K];
+  return {
+    manifest,
+    data: {
+      experiences: list('experiences').map(normalizeStatus),
+      itineraries: list('itineraries').map(itinerary => normalizeStatus(migrateItinerary(itinerary))),
+      images: list('images').map(normalizeStatus),
+      updates: list('updates').map(normalizeStatus)
+    }
+  };
+}
+
+export type RecordChange<T> = {
+  before: T;
+  after: T;
+  fields: string[];
+};
+
+export type TypeDiff<T> = {
+  added: T[];
+  changed: RecordChange<T>[];
+  removed: T[];
+  unchanged: number;
+};
+
+export type BackupDiff = { [K in ContentType]: TypeDiff<AppData[K][number]> };
+
+// id and createdAt are assigned by the backend and are not content
+const IGNORED_FIELDS = ['id', 'createdAt'];
+
+const changedFields = (before: Record<string, unknown>, after: Record<string, unknown>) =>
+  Object.keys({ ...before, ...after }).filter(
+    key => IGNORED_FIELDS.indexOf(key) === -1 && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+
+// Content without the backend-assigned fields, keys in a fixed order, so equal records compare equal
+const contentKey = (record: Record<string, unknown>) =>
+  JSON.stringify(
+    Object.keys(record)
+      .filter(key => IGNORED_FIELDS.indexOf(key) === -1 && record[key] !== undefined)
+      .sort()
+      .map(key => [key, record[key]])
+  );
+
+const diffRecords = <T extends { id: string }>(backup: T[], live: T[]): TypeDiff<T> => {
+  const liveById: Record<string, T> = {};
+  live.forEach(record => {
+    liveById[record.id] = record;
+  });
+  const backupIds: Record<string, boolean> = {};
+  backup.forEach(record => {
+    backupIds[record.id] = true;
+  });
+
+  // A record restored earlier came back under a new id; finding it by content keeps a second restore
+  // of the same archive from creating it again
+  const unmatchedByContent: Record<string, T[]> = {};
+  live.forEach(record => {
+    if (backupIds[record.id]) return;
+    const key = contentKey(record as unknown as Record<string, unknown>);
+    unmatchedByContent[key] = (unmatchedByContent[key] || []).concat(record);
+  });
+  const matchedByContent: Record<string, boolean> = {};
+  const diff: TypeDiff<T> = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  backup.forEach(record => {
+    const current = liveById[record.id];
+    if (!current) {
+      const copy = (unmatchedByContent[contentKey(record as unknown as Record<string, unknown>)] || []).shift();
+      if (copy) {
+        matchedByContent[copy.id] = true;
+        diff.unchanged++;
+      } else {
+        diff.added.push(record);
+      }
+      return;
+    }
+    const fields = changedFields(current as unknown as Record<string, unknown>, record as unknown as Record<string, unknown>);
+    if (fields.length > 0) diff.changed.push({ before: current, after: record, fields });
+    else diff.unchanged++;
+  });
+  diff.removed = live.filter(record => !backupIds[record.id] && !matchedByContent[record.id]);
+  return diff;
+};
+
+// Records are matched by id: same id with different content is a change, ids only in the backup are
+// additions and ids only on the server would be removed by a full restore. A backup record whose id is
+// gone but whose content exists on the server under another id (a copy made by an earlier restore)
+// counts as unchanged.
+export const diffBackup = (backup: AppData, live: AppData): BackupDiff => ({
+  experiences: diffRecords(backup.experiences, live.experiences),
+  itineraries: diffRecords(backup.itineraries, live.itineraries),
+  images: diffRecords(backup.images, live.images),
+  updates: diffRecords(backup.updates, live.updates)
+});
+
+export const recordLabel = (record: { id: string; title?: string; caption?: string }) =>
+  record.title || record.caption || record.id;
+
+export type RestoreOperation = {
+  type: ContentType;
+  action: 'create' | 'update' | 'delete';
+  label: string;
+  run: () => Promise<unknown>;
+};
+
+const withoutServerFields = <T extends { id: string; createdAt: number }>({ id, createdAt, ...input }: T) => input;
+
+const planType = <K extends ContentType>(
+  type: K,
+  typeDiff: TypeDiff<AppData[K][number]>,
+  deleteMissing: boolean
+): RestoreOperation[] => {
+  const client: ResourceClient<AppData[K][number]> = clients[type];
+  return [
+    ...typeDiff.added.map(record => ({
+      type,
+      action: 'create' as const,
+      label: recordLabel(record),
+      run: () => client.create(withoutServerFields(record))
+    })),
+    ...typeDiff.changed.map(change => ({
+      type,
+      action: 'update' as const,
+      label: recordLabel(change.after),
+      run: () => client.update(change.before.id, withoutServerFields(change.after))
+    })),
+    ...(deleteMissing
+      ? typeDiff.removed.map(record => ({
+        type,
+        action: 'delete' as const,
+        label: recordLabel(record),
+        run: () => client.delete(record.id)
+      }))
+      : [])
+  ];
+};
+
+export const planRestore = (diff: BackupDiff, { deleteMissing }: { deleteMissing: boolean }): RestoreOperation[] =>
+  CONTENT_TYPES.reduce<RestoreOperation[]>(
+    (operations, type) => operations.concat(planType(type, diff[type], deleteMissing)),
+    []
+  );
+
+export const applyRestore = (
+  operations: RestoreOperation[],
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchResult<RestoreOperation, unknown>[]> =>
+  runBatch(operations, operation => operation.run(), { onProgress });
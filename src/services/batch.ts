@@ -0,0 +1,47 @@
+// Runs one async task per item with a few in flight at a time. Failures are collected rather than
+// thrown, so one bad record does not abort the rest of a bulk operation.
+
+export type BatchResult<T, R> =
+  | { item: T; ok: true; value: R }
+  | { item: T; ok: false; error: string };
+
+export type BatchOptions = {
+  concurrency?: number;
+  onProgress?: (done: number, total: number) => void;
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+
+// Results come back in the same order as `items`, whatever order the tasks finish in
+export async function runBatch<T, R>(
+  items: T[],
+  task: (item: T, index: number) => Promise<R>,
+  { concurrency = 3, onProgress }: BatchOptions = {}
+): Promise<BatchResult<T, R>[]> {
+  const results: BatchResult<T, R>[] = new Array(items.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      try {
+        results[index] = { item, ok: true, value: await task(item, index) };
+      } catch (error) {
+        results[index] = { item, ok: false, error: errorMessage(error) };
+      }
+      done++;
+      onProgress?.(done, items.length);
+    }
+  };
+
+  onProgress?.(0, items.length);
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(Math.max(concurrency, 1), items.length); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+  return results;
+}
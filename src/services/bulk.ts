@@ -0,0 +1,60 @@
+import type { AppData, Experience, Itinerary, DestinationImage, Region } from '../App';
+import { experiencesAPI, itinerariesAPI, imagesAPI, ResourceClient } from './api';
+import { runBatch, BatchOptions } from './batch';
+
+// Edits applied to many selected records at once from the admin managers
+
+export type BulkType = 'experiences' | 'itineraries' | 'images';
+
+export type BulkRecord = Experience | Itinerary | DestinationImage;
+
+export type BulkEdit =
+  | { kind: 'region'; region: Region }
+  | { kind: 'destination'; destination: string }
+  | { kind: 'captionPrefix'; prefix: string; mode: 'add' | 'remove' };
+
+const clients: { [K in BulkType]: ResourceClient<AppData[K][number]> } = {
+  experiences: experiencesAPI,
+  itineraries: itinerariesAPI,
+  images: imagesAPI
+};
+
+// Adding is skipped when the caption already starts with the prefix, so running it twice is harmless
+export const withCaptionPrefix = (caption: string, prefix: string) =>
+  caption.startsWith(prefix) ? caption : `${prefix}${caption}`;
+
+export const withoutCaptionPrefix = (caption: string, prefix: string) =>
+  caption.startsWith(prefix) ? caption.slice(prefix.length).trimStart() : caption;
+
+// The fields to send for one record, or null when the edit leaves it unchanged
+export const bulkPatch = (edit: BulkEdit, record: BulkRecord): Partial<BulkRecord> | null => {
+  switch (edit.kind) {
+    case 'region':
+      return record.region === edit.region ? null : { region: edit.region };
+    case 'destination':
+      return record.destination === edit.destination ? null : { destination: edit.destination };
+    case 'captionPrefix': {
+      if (!('caption' in record)) return null;
+      const caption = edit.mode === 'add'
+        ? withCaptionPrefix(record.caption, edit.prefix)
+        : withoutCaptionPrefix(record.caption, edit.prefix);
+      return caption === record.caption ? null : { caption };
+    }
+  }
+};
+
+// Records the edit does not change count as done without a request
+export const applyBulkEdit = (
+  type: BulkType,
+  records: BulkRecord[],
+  edit: BulkEdit,
+  onProgress?: BatchOptions['onProgress']
+) =>
+  runBatch(
+    records,
+    async record => {
+      const patch = bulkPatch(edit, record);
+      return patch ? clients[type].patch(record.id, patch) : record;
+    },
+    { onProgress }
+  );
@@ -0,0 +1,79 @@
+import { parseCsv, detectDelimiter, parseCsvTable, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  test('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('title,notes\n"Goa, North","Say ""hi""\nthen leave"\n')).toEqual([
+      ['title', 'notes'],
+      ['Goa, North', 'Say "hi"\nthen leave']
+    ]);
+  });
+
+  test('handles a byte order mark, CRLF line ends and blank lines', () => {
+    expect(parseCsv('﻿a,b\r\n1,2\r\n\r\n,\r\n3,4')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4']
+    ]);
+  });
+
+  test('keeps empty fields and a trailing empty field', () => {
+    expect(parseCsv('a,,c,\n')).toEqual([['a', '', 'c', '']]);
+  });
+
+  test('treats a quote inside an unquoted field as text', () => {
+    expect(parseCsv('5" screen,x')).toEqual([['5" screen', 'x']]);
+  });
+
+  test('reads other delimiters', () => {
+    expect(parseCsv('a;"b;c"', ';')).toEqual([['a', 'b;c']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  test.each([
+    ['title,region\nGoa;x,West', ','],
+    ['title;region;url\nGoa,x;West;y', ';'],
+    ['title\tregion\nGoa\tWest', '\t'],
+    ['title', ',']
+  ])('%j uses %j', (text, delimiter) => {
+    expect(detectDelimiter(text)).toBe(delimiter);
+  });
+});
+
+describe('parseCsvTable', () => {
+  test('keys each row by the header, trimming cells and naming blank columns', () => {
+    expect(parseCsvTable('Title; ;Region\n Goa ;x\n')).toEqual({
+      columns: ['Title', 'Column 2', 'Region'],
+      rows: [{ Title: 'Goa', 'Column 2': 'x', Region: '' }]
+    });
+  });
+});
+
+describe('toCsv', () => {
+  test('quotes cells that need it, serializes objects and leaves missing values empty', () => {
+    expect(toCsv(['title', 'highlights', 'url', 'note'], [
+      { title: 'Goa, "the" beach', highlights: ['Sand', 'Sea'], note: null }
+    ])).toBe('title,highlights,url,note\r\n"Goa, ""the"" beach","[""Sand"",""Sea""]",,');
+  });
+
+  test('round-trips through parseCsv', () => {
+    const rows = [{ title: 'Line one\nline two', count: 3 }, { title: 'plain', count: 0 }];
+    expect(parseCsv(toCsv(['title', 'count'], rows))).toEqual([
+      ['title', 'count'],
+      ['Line one\nline two', '3'],
+      ['plain', '0']
+    ]);
+  });
+
+  test('keeps text that looks like a formula from running in a spreadsheet', () => {
+    const rows = [{ title: '=HYPERLINK("http://evil.example")', note: '@SUM(A1)', count: -5 }, { title: '+91 98765', note: '-', count: 1 }];
+    expect(parseCsv(toCsv(['title', 'note', 'count'], rows)).slice(1)).toEqual([
+      ['\'=HYPERLINK("http://evil.example")', '\'@SUM(A1)', '-5'],
+      ['\'+91 98765', '\'-', '1']
+    ]);
+    expect(parseCsvTable(toCsv(['title', 'note'], rows)).rows).toEqual([
+      { title: '=HYPERLINK("http://evil.example")', note: '@SUM(A1)' },
+      { title: '+91 98765', note: '-' }
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+// Minimal RFC 4180 CSV reader: quoted fields may contain commas, doubled quotes and line breaks.
+// Spreadsheet exports often start with a byte order mark and end lines with CRLF; both are handled.
+
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines (including the trailing newline most files end with) are not records
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Excel in many locales saves "CSV" with semicolons; pick whichever separator the header line uses more
+export const detectDelimiter = (text: string) => {
+  const header = text.split(/\r?\n/, 1)[0] || '';
+  const count = (char: string) => header.split(char).length - 1;
+  if (count('\t') > count(',') && count('\t') >= count(';')) return '\t';
+  return count(';') > count(',') ? ';' : ',';
+};
+
+export type CsvTable = {
+  columns: string[];
+  rows: Record<string, string>[];
+};
+
+// Undoes the apostrophe toCsv puts before formula-like text, so exported files import unchanged
+const withoutFormulaGuard = (value: string) => (/^'[=+\-@]/.test(value) ? value.slice(1) : value);
+
+// First line names the columns; every following line becomes an object keyed by those names
+export const parseCsvTable = (text: string): CsvTable => {
+  const [header = [], ...records] = parseCsv(text, detectDelimiter(text));
+  const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`);
+
+  return {
+    columns,
+    rows: records.map(cells =>
+      columns.reduce<Record<string, string>>((record, column, index) => {
+        record[column] = withoutFormulaGuard((cells[index] || '').trim());
+        return record;
+      }, {})
+    )
+  };
+};
+
+// Fields containing the delimiter, quotes or line breaks are quoted, with quotes doubled
+const escapeCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Excel and Sheets run text starting with one of these as a formula, so such text is written with a
+// leading apostrophe, which they show as plain text. Numbers are left alone so -5 stays a number.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export const toCsv = (columns: string[], rows: Record<string, unknown>[]) => {
+  const cell = (value: unknown) => {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'number') return String(value);
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return escapeCell(FORMULA_START.test(text) ? `'${text}` : text);
+  };
+  return [columns.map(escapeCell).join(',')]
+    .concat(rows.map(row => columns.map(column => cell(row[column])).join(',')))
+    .join('\r\n');
+};
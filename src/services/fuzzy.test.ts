@@ -0,0 +1,117 @@
+import {
+  normalize,
+  allowedEdits,
+  editDistance,
+  resolveAlias,
+  expandTerm,
+  matchTerm,
+  suggestCorrection,
+  canonicalizeQuery
+} from './fuzzy';
+
+describe('normalize', () => {
+  test('lowercases, strips accents and collapses whitespace', () => {
+    expect(normalize('  Bengalūru   City ')).toBe('bengaluru city');
+  });
+});
+
+describe('allowedEdits', () => {
+  test.each([
+    [4, 0],
+    [5, 1],
+    [7, 1],
+    [8, 2]
+  ])('a %i letter word allows %i edits', (length, edits) => {
+    expect(allowedEdits(length)).toBe(edits);
+  });
+});
+
+describe('editDistance', () => {
+  test.each([
+    ['kerala', 'kerala', 0],
+    ['kerala', 'kerla', 1], // deletion
+    ['ladak', 'ladakh', 1], // insertion
+    ['jaipur', 'jaypur', 1], // substitution
+    ['kerala', 'kearla', 1], // adjacent transposition counts once
+    ['', 'goa', 3],
+    ['abc', 'ca', 3] // optimal string alignment does not edit a transposed pair again
+  ])('%s → %s is %i', (a, b, distance) => {
+    expect(editDistance(a, b)).toBe(distance);
+    expect(editDistance(b, a)).toBe(distance);
+  });
+
+  test('gives up with max + 1 once the distance is known to exceed max', () => {
+    expect(editDistance('rajasthan', 'goa', 2)).toBe(3);
+    expect(editDistance('darjeeling', 'darjiling', 2)).toBe(2);
+    expect(editDistance('kashmir', 'kochi', 1)).toBe(2);
+  });
+});
+
+describe('aliases', () => {
+  test('resolve old names, misspellings and Devanagari to the display name', () => {
+    expect(resolveAlias('Bombay')).toBe('Mumbai');
+    expect(resolveAlias('  kerela ')).toBe('Kerala');
+    expect(resolveAlias('दिल्ली')).toBe('Delhi');
+    expect(resolveAlias('Mumbai')).toBe('Mumbai');
+    expect(resolveAlias('Atlantis')).toBeNull();
+  });
+
+  test('expandTerm lists every spelling once, typed spelling first', () => {
+    const spellings = expandTerm('Bombay');
+    expect(spellings[0]).toBe('bombay');
+    expect(spellings).toEqual(expect.arrayContaining(['mumbai', 'mumbay', 'मुंबई']));
+    expect(new Set(spellings).size).toBe(spellings.length);
+  });
+
+  test('expandTerm leaves unknown terms alone', () => {
+    expect(expandTerm('Houseboat')).toEqual(['houseboat']);
+  });
+});
+
+describe('matchTerm', () => {
+  test('scores a word or word prefix 1 and a match inside a word 0.5', () => {
+    expect(matchTerm('Backwaters of Kerala', 'ker')).toEqual({ score: 1, text: 'ker' });
+    expect(matchTerm('Houseboat cruise', 'boat')).toEqual({ score: 0.5, text: 'boat' });
+  });
+
+  test('finds the text through an alias and reports the spelling that matched', () => {
+    expect(matchTerm('Street food in Mumbai', 'bombay')).toEqual({ score: 1, text: 'mumbai' });
+  });
+
+  test('prefers a whole-word alias over a match inside a word', () => {
+    expect(matchTerm('Sunset at Goa', 'गोवा')).toEqual({ score: 1, text: 'goa' });
+  });
+
+  test('tolerates typos in longer words, including against a longer word', () => {
+    expect(matchTerm('Monasteries of Ladakh', 'ladahk')).toEqual({ score: 0.6, text: 'ladakh' });
+    expect(matchTerm("Kerala's backwaters", 'kerqla')).toEqual({ score: 0.6, text: 'kerala' });
+  });
+
+  test('does not correct short words', () => {
+    expect(matchTerm('Beaches of Goa', 'gao')).toBeNull();
+  });
+});
+
+describe('suggestCorrection', () => {
+  test('rewrites misspelled place names word by word', () => {
+    expect(suggestCorrection('ladak trek')).toBe('Ladakh trek');
+  });
+
+  test('rewrites a whole multi-word alias', () => {
+    expect(suggestCorrection('cape comorin')).toBe('Kanyakumari');
+  });
+
+  test('uses the destinations in the loaded content', () => {
+    expect(suggestCorrection('spitti', ['Spiti Valley'])).toBe('Spiti');
+  });
+
+  test('does not treat words derived from a place name as misspellings', () => {
+    expect(suggestCorrection('keralan food')).toBeNull();
+  });
+
+  test('returns null when nothing changes', () => {
+    expect(suggestCorrection('Kerala backwaters')).toBeNull();
+    expect(canonicalizeQuery('  Kerala backwaters ')).toBe('Kerala backwaters');
+    expect(canonicalizeQuery('bombay')).toBe('Mumbai');
+  });
+});
@@ -0,0 +1,142 @@
+import { PLACE_ALIASES } from './placeAliases';
+
+// Lowercase, strip accents ("Bengalūru" → "bengaluru") and collapse whitespace
+export const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Every spelling (canonical name included) → the canonical name
+const aliasIndex = new Map<string, string>();
+Object.keys(PLACE_ALIASES).forEach(canonical => {
+  aliasIndex.set(normalize(canonical), canonical);
+  PLACE_ALIASES[canonical].forEach(alias => aliasIndex.set(normalize(alias), canonical));
+});
+
+// Typos allowed for a word of this length: none for short words, where one edit changes the word entirely
+export const allowedEdits = (length: number) => (length >= 8 ? 2 : length >= 5 ? 1 : 0);
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions).
+// Gives up early and returns max + 1 once the distance is known to exceed `max`.
+export const editDistance = (a: string, b: string, max = Infinity) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+};
+
+// Canonical place name for a known alias ("bombay" → "Mumbai"), or null
+export const resolveAlias = (text: string) => aliasIndex.get(normalize(text)) || null;
+
+// All spellings of the place `term` refers to, normalized; just the term itself if it is not a known place
+export const expandTerm = (term: string): string[] => {
+  const canonical = resolveAlias(term);
+  if (!canonical) return [normalize(term)];
+  return Array.from(new Set([normalize(term), normalize(canonical), ...PLACE_ALIASES[canonical].map(normalize)]));
+};
+
+// Latin and Devanagari letters plus digits make up words (accents are gone after normalize)
+const NON_WORD_CHAR = /[^a-z0-9\u0900-\u097f]/;
+
+export type TermMatch = {
+  score: number;
+  // The spelling found in the text, so it can be highlighted even when it differs from what was typed
+  text: string;
+};
+
+// How well `term` matches somewhere in `text`: 1 for a whole word or word prefix (any alias counts),
+// 0.5 for a match inside a word, 0.6 for a word within typo tolerance; null for no match
+export const matchTerm = (text: string, term: string): TermMatch | null => {
+  const haystack = normalize(text);
+  let best: TermMatch | null = null;
+
+  for (const variant of expandTerm(term)) {
+    const index = haystack.indexOf(variant);
+    if (index === -1) continue;
+    const atWordStart = index === 0 || NON_WORD_CHAR.test(haystack[index - 1]);
+    const score = atWordStart ? 1 : 0.5;
+    if (!best || score > best.score) best = { score, text: variant };
+    if (score === 1) return best;
+  }
+  if (best) return best;
+
+  const normalizedTerm = normalize(term);
+  const tolerance = allowedEdits(normalizedTerm.length);
+  if (tolerance === 0) return null;
+
+  const close = haystack.split(NON_WORD_CHAR).find(word =>
+    editDistance(normalizedTerm, word, tolerance) <= tolerance ||
+    // "Keral" should still find "Kerala's": compare against the word's prefix of the same length
+    (word.length > normalizedTerm.length && editDistance(normalizedTerm, word.slice(0, normalizedTerm.length), tolerance) <= tolerance)
+  );
+  return close ? { score: 0.6, text: close } : null;
+};
+
+// Closest known spelling for a single word, among `vocabulary` and the alias dictionary
+const closestName = (word: string, vocabulary: string[]) => {
+  const alias = resolveAlias(word);
+  if (alias) return alias;
+
+  const normalizedWord = normalize(word);
+  const tolerance = allowedEdits(normalizedWord.length);
+  if (tolerance === 0) return null;
+
+  let best: { name: string; distance: number } | null = null;
+  // Single words of longer names too, so "spitti" still finds the "Spiti" in "Spiti Valley"
+  const names = [...vocabulary, ...Object.keys(PLACE_ALIASES)];
+  const candidates = names.reduce<string[]>((all, name) => all.concat(name, name.split(' ').length > 1 ? name.split(' ') : []), []);
+  for (const name of candidates) {
+    // "Goan" or "Keralan" are derived from a place name, not misspellings of it
+    if (normalizedWord.startsWith(normalize(name))) return null;
+    // Short names like "Goa" or "Pune" are too close to ordinary words to correct towards
+    const limit = Math.min(tolerance, allowedEdits(name.length));
+    const distance = editDistance(normalizedWord, normalize(name), limit);
+    if (distance <= limit && (!best || distance < best.distance)) {
+      best = { name, distance };
+    }
+  }
+  return best?.name || null;
+};
+
+// Rewrites misspelled and alternate place names to the names we use ("ladak trek" → "Ladakh trek").
+// Returns null when nothing would change.
+export const suggestCorrection = (query: string, vocabulary: string[] = []) => {
+  const whole = closestName(query, vocabulary);
+  if (whole && normalize(whole) !== normalize(query)) return whole;
+
+  let changed = false;
+  const corrected = query.trim().split(/\s+/).map(word => {
+    const name = closestName(word, vocabulary);
+    if (name && normalize(name) !== normalize(word)) {
+      changed = true;
+      return name;
+    }
+    return word;
+  });
+  return changed ? corrected.join(' ') : null;
+};
+
+// Same as suggestCorrection, but always returns a query: the corrected one or the original
+export const canonicalizeQuery = (query: string, vocabulary: string[] = []) =>
+  suggestCorrection(query, vocabulary) || query.trim();
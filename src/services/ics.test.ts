@@ -0,0 +1,124 @@
+import type { Itinerary } from '../App';
+import { migrateItinerary } from './itineraryDays';
+import { escapeText, foldLine, buildCalendar, itineraryToEvents, itineraryToIcs } from './ics';
+
+const itinerary = (days: unknown[]): Itinerary =>
+  migrateItinerary({
+    id: 'it1',
+    destination: 'Kerala',
+    region: 'South',
+    title: 'Backwaters, hills',
+    duration: `${days.length} Days`,
+    days,
+    status: 'published',
+    createdAt: 1
+  } as unknown as Itinerary);
+
+// Octets of a content line as a calendar app counts them
+const octets = (line: string) => encodeURIComponent(line).replace(/%[0-9A-F]{2}/g, '_').length;
+
+describe('escapeText', () => {
+  test('escapes backslash, semicolon, comma and newlines', () => {
+    expect(escapeText('a\\b;c,d\ne\r\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf');
+  });
+});
+
+describe('foldLine', () => {
+  test('leaves lines of up to 75 octets alone', () => {
+    const line = 'x'.repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  test('folds longer lines so no line exceeds 75 octets, the leading space included', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const parts = foldLine(line).split('\r\n');
+
+    expect(parts.map(octets)).toEqual([75, 75, 64]);
+    expect(parts.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+
+  test('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'म'.repeat(60)}`;
+    const parts = foldLine(line).split('\r\n');
+
+    parts.forEach(part => expect(octets(part)).toBeLessThanOrEqual(75));
+    expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('itineraryToEvents', () => {
+  const start = new Date(2026, 11, 30);
+
+  test('anchors day N on the start date plus N - 1, across month and year ends', () => {
+    const events = itineraryToEvents(itinerary([{ activities: ['Arrive'] }, { activities: ['Walk'] }, { activities: ['Leave'] }]), start);
+
+    expect(events.map(event => [event.start.getFullYear(), event.start.getMonth(), event.start.getDate()])).toEqual([
+      [2026, 11, 30],
+      [2026, 11, 31],
+      [2027, 0, 1]
+    ]);
+    expect(events.every(event => event.allDay)).toBe(true);
+    expect(events[2].end).toEqual(new Date(2027, 0, 2));
+  });
+
+  test('gives timed activities their own event and skips the all-day event when nothing else is planned', () => {
+    const events = itineraryToEvents(itinerary([
+      { schedule: [{ title: 'Houseboat', startTime: '09:30', durationMinutes: 90, place: 'Alleppey', notes: 'Bring a hat' }] }
+    ]), start);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      uid: 'it1-20261230-day1-1@immerseindia',
+      summary: 'Houseboat',
+      description: 'Day 1: Backwaters, hills\nBring a hat',
+      location: 'Alleppey, Kerala',
+      allDay: false,
+      start: new Date(2026, 11, 30, 9, 30),
+      end: new Date(2026, 11, 30, 11, 0)
+    });
+  });
+
+  test('keeps the all-day event when the day has untimed activities, travel or a stay', () => {
+    const events = itineraryToEvents(itinerary([
+      {
+        schedule: [{ title: 'Tea estate', startTime: '10:00' }],
+        accommodation: { name: 'Hill resort', location: 'Munnar' }
+      }
+    ]), start);
+
+    expect(events.map(event => event.allDay)).toEqual([true, false]);
+    expect(events[0].description).toBe('- 10:00 Tea estate\nStay: Hill resort, Munnar');
+    expect(events[1].end.getTime() - events[1].start.getTime()).toBe(60 * 60 * 1000);
+  });
+});
+
+describe('buildCalendar', () => {
+  test('writes CRLF lines with floating local times and escaped text', () => {
+    const ics = itineraryToIcs(itinerary([{ schedule: [{ title: 'Boat; lunch', startTime: '09:00' }] }]), new Date(2026, 0, 5));
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toEqual(expect.arrayContaining([
+      'BEGIN:VCALENDAR',
+      'X-WR-CALNAME:Backwaters\\, hills',
+      'DTSTART:20260105T090000',
+      'DTEND:20260105T100000',
+      'SUMMARY:Boat\\; lunch'
+    ]));
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/\n/);
+  });
+
+  test('uses date values for all-day events', () => {
+    const ics = buildCalendar([{
+      uid: 'u',
+      summary: 'Day 1',
+      description: '',
+      location: '',
+      start: new Date(2026, 1, 28),
+      end: new Date(2026, 2, 1),
+      allDay: true
+    }], 'Trip');
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260228\r\nDTEND;VALUE=DATE:20260301\r\n');
+  });
+});
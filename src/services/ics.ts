@@ -0,0 +1,155 @@
+import type { Itinerary, ItineraryDay } from '../App';
+import { formatActivity, formatTransportLeg } from './itineraryDays';
+
+// iCalendar (RFC 5545) export of an itinerary. Times are "floating" (no time zone): 09:00 means 09:00 wherever
+// the traveller is, which is what a trip plan means.
+
+const CRLF = '\r\n';
+const DEFAULT_ACTIVITY_MINUTES = 60;
+
+export type CalendarEvent = {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  start: Date;
+  allDay: boolean;
+  // Exclusive end; for all-day events this is the following day
+  end: Date;
+};
+
+// TEXT values escape backslash, semicolon, comma and newlines (RFC 5545 §3.3.11)
+export const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+// Content lines longer than 75 octets continue on the next line after CRLF + space (§3.1),
+// never splitting a multi-byte character
+export const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  Array.from(line).forEach(char => {
+    const size = utf8Length(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  });
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+};
+
+const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+
+const formatDate = (date: Date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatLocalDateTime = (date: Date) =>
+  `${formatDate(date)}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+const formatUtcDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const buildCalendar = (events: CalendarEvent[], calendarName: string) => {
+  const stamp = formatUtcDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Immerse India//Itinerary Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ];
+
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      event.allDay ? `DTSTART;VALUE=DATE:${formatDate(event.start)}` : `DTSTART:${formatLocalDateTime(event.start)}`,
+      event.allDay ? `DTEND;VALUE=DATE:${formatDate(event.end)}` : `DTEND:${formatLocalDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      `LOCATION:${escapeText(event.location)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+const describeDay = (day: ItineraryDay) => {
+  const lines = [
+    ...day.transport.map(formatTransportLeg),
+    ...day.schedule.map(activity => `- ${formatActivity(activity)}`)
+  ];
+  if (day.accommodation) {
+    lines.push(`Stay: ${day.accommodation.name}${day.accommodation.location ? `, ${day.accommodation.location}` : ''}`);
+  }
+  return lines.join('\n');
+};
+
+// Day N of the plan falls on startDate + N - 1. Timed activities become events of their own; the day itself is an
+// all-day event listing everything planned, unless every activity is timed and there is no travel or stay to mention.
+export const itineraryToEvents = (itinerary: Itinerary, startDate: Date): CalendarEvent[] => {
+  const uidBase = `${itinerary.id}-${formatDate(startDate)}`;
+
+  return itinerary.days.reduce<CalendarEvent[]>((events, day, index) => {
+    const date = addDays(startDate, index);
+    const timed = day.schedule.filter(activity => activity.startTime);
+    const untimed = day.schedule.filter(activity => !activity.startTime);
+    const dayTitle = `Day ${index + 1}: ${itinerary.title}`;
+
+    if (timed.length === 0 || untimed.length > 0 || day.transport.length > 0 || day.accommodation) {
+      events.push({
+        uid: `${uidBase}-day${index + 1}@immerseindia`,
+        summary: dayTitle,
+        description: describeDay(day),
+        location: itinerary.destination,
+        start: date,
+        end: addDays(date, 1),
+        allDay: true
+      });
+    }
+
+    timed.forEach((activity, activityIndex) => {
+      const [hours, minutes] = (activity.startTime || '00:00').split(':').map(Number);
+      const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes);
+      const end = new Date(start.getTime() + (activity.durationMinutes || DEFAULT_ACTIVITY_MINUTES) * 60 * 1000);
+      events.push({
+        uid: `${uidBase}-day${index + 1}-${activityIndex + 1}@immerseindia`,
+        summary: activity.title,
+        description: [dayTitle, activity.notes || ''].filter(Boolean).join('\n'),
+        location: activity.place ? `${activity.place}, ${itinerary.destination}` : itinerary.destination,
+        start,
+        end,
+        allDay: false
+      });
+    });
+
+    return events;
+  }, []);
+};
+
+export const itineraryToIcs = (itinerary: Itinerary, startDate: Date) =>
+  buildCalendar(itineraryToEvents(itinerary, startDate), itinerary.title);
@@ -0,0 +1,145 @@
+import type { Itinerary } from '../App';
+import {
+  parseImportFile,
+  guessMapping,
+  unmappedRequiredFields,
+  parseRegion,
+  parseStatus,
+  isDirectImageUrl,
+  validateRows
+} from './importer';
+
+jest.mock('./api');
+
+describe('parseImportFile', () => {
+  test('reads CSV into columns and rows', () => {
+    expect(parseImportFile('images.csv', 'Image URL,Caption\nhttps://x.com/a.jpg,"Fort, at dusk"\n')).toEqual({
+      columns: ['Image URL', 'Caption'],
+      rows: [{ 'Image URL': 'https://x.com/a.jpg', Caption: 'Fort, at dusk' }]
+    });
+  });
+
+  test('reads a JSON array or the first array of an envelope, collecting every key', () => {
+    const table = parseImportFile('export.json', JSON.stringify({ data: [{ title: 'A' }, { title: 'B', region: 'North' }, 'skip me'] }));
+    expect(table).toEqual({ columns: ['title', 'region'], rows: [{ title: 'A' }, { title: 'B', region: 'North' }] });
+  });
+
+  test('rejects files without records', () => {
+    expect(() => parseImportFile('a.csv', 'title,region\n')).toThrow('The file has a header but no rows');
+    expect(() => parseImportFile('a.json', '{ not json')).toThrow('The file is not valid JSON');
+    expect(() => parseImportFile('a.json', '{"count": 0}')).toThrow('No records found in the file');
+  });
+});
+
+describe('guessMapping', () => {
+  test('matches column names and aliases ignoring case, spaces and punctuation', () => {
+    expect(guessMapping('images', ['Src', 'Alt', 'City', 'Zone', 'Extra'])).toEqual({
+      url: 'Src',
+      caption: 'Alt',
+      destination: 'City',
+      region: 'Zone',
+      status: ''
+    });
+  });
+
+  test('maps each column to one field only', () => {
+    const mapping = guessMapping('experiences', ['Title', 'Image URL']);
+    expect(mapping.title).toBe('Title');
+    expect(mapping.imageUrl).toBe('Image URL');
+    expect(unmappedRequiredFields('experiences', mapping).map(field => field.key)).toEqual([
+      'destination',
+      'region',
+      'description',
+      'highlights'
+    ]);
+  });
+});
+
+describe('value parsers', () => {
+  test.each([
+    ['North', 'North'],
+    ['south india', 'South'],
+    ['e', 'East'],
+    ['Central', null]
+  ])('parseRegion(%j)', (text, region) => {
+    expect(parseRegion(text)).toBe(region);
+  });
+
+  test.each([
+    ['Published', 'published'],
+    ['in review', 'in_review'],
+    ['In-Review', 'in_review'],
+    ['live', null]
+  ])('parseStatus(%j)', (text, status) => {
+    expect(parseStatus(text)).toBe(status);
+  });
+
+  test('isDirectImageUrl accepts image files and known image hosts only', () => {
+    expect(isDirectImageUrl('https://cdn.example.com/fort.JPG?w=400')).toBe(true);
+    expect(isDirectImageUrl('https://images.unsplash.com/photo-123')).toBe(true);
+    expect(isDirectImageUrl('https://example.com/gallery')).toBe(false);
+    expect(isDirectImageUrl('ftp://example.com/a.jpg')).toBe(false);
+  });
+});
+
+describe('validateRows', () => {
+  const experienceMapping = guessMapping('experiences', ['title', 'destination', 'region', 'description', 'highlights', 'status']);
+
+  test('builds records from valid rows, splitting lists and defaulting to draft', () => {
+    const [row] = validateRows('experiences', {
+      columns: [],
+      rows: [{ title: 'Desert camp', destination: 'Jaisalmer', region: 'west', description: 'Dunes', highlights: 'Camels | Stars' }]
+    }, experienceMapping);
+
+    expect(row).toEqual({
+      row: 1,
+      label: 'Desert camp',
+      errors: [],
+      record: {
+        title: 'Desert camp',
+        destination: 'Jaisalmer',
+        region: 'West',
+        description: 'Dunes',
+        highlights: ['Camels', 'Stars'],
+        imageUrl: '',
+        status: 'draft'
+      }
+    });
+  });
+
+  test('reports every problem in a row and keeps no record for it', () => {
+    const [row] = validateRows('experiences', {
+      columns: [],
+      rows: [{ title: 'Desert camp', region: 'Central', status: 'live', highlights: '[]' }]
+    }, experienceMapping);
+
+    expect(row.record).toBeNull();
+    expect(row.errors).toEqual([
+      'Destination is required',
+      'Description is required',
+      'Region "Central" is not one of North, South, East or West',
+      'Status "live" is not one of draft, in_review, published or archived',
+      'Highlights has no items'
+    ]);
+  });
+
+  test('reads itinerary days from text and checks them against the duration', () => {
+    const mapping = guessMapping('itineraries', ['title', 'destination', 'region', 'duration', 'days']);
+    const [valid, mismatched] = validateRows('itineraries', {
+      columns: [],
+      rows: [
+        { title: 'Golden triangle', destination: 'Delhi', region: 'N', duration: '2 Days', days: 'Day 1: 09:00 Red Fort; Chandni Chowk | Day 2: Taj Mahal' },
+        { title: 'Short', destination: 'Delhi', region: 'N', duration: '3 Days', days: 'Red Fort' }
+      ]
+    }, mapping);
+
+    const record = valid.record as Omit<Itinerary, 'id' | 'createdAt'>;
+    expect(valid.errors).toEqual([]);
+    expect(record.days.map(day => day.schedule)).toEqual([
+      [{ title: 'Red Fort', startTime: '09:00' }, { title: 'Chandni Chowk' }],
+      [{ title: 'Taj Mahal' }]
+    ]);
+    expect(record.durationDays).toBe(2);
+    expect(mismatched.errors).toEqual(['Duration says 3 days but the plan has 1']);
+  });
+});
@@ -0,0 +1,288 @@
+import type { Experience, Itinerary, DestinationImage, Region, ContentStatus } from '../App';
+import { experiencesAPI, itinerariesAPI, imagesAPI, ResourceInput } from './api';
+import { parseCsvTable } from './csv';
+import { migrateItinerary, toDraftDays, validateDays } from './itineraryDays';
+import { isContentStatus, transitionProblem } from './workflow';
+
+// Bulk import: a CSV or JSON file is read into a table, its columns are mapped onto the fields of a content
+// type, and every row is checked before anything is sent to the API.
+
+export type ImportKind = 'experiences' | 'itineraries' | 'images';
+
+export const IMPORT_KINDS: Record<ImportKind, { singular: string; plural: string }> = {
+  experiences: { singular: 'experience', plural: 'experiences' },
+  itineraries: { singular: 'itinerary', plural: 'itineraries' },
+  images: { singular: 'image', plural: 'images' }
+};
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required: boolean;
+  hint?: string;
+  // Other column names this field is commonly exported under
+  aliases: string[];
+};
+
+const REGION_HINT = 'North, South, East or West';
+const LIST_HINT = 'JSON array, or items separated by | or new lines';
+
+// Imported content goes through review like anything else unless the file says otherwise
+const STATUS_FIELD: ImportField = {
+  key: 'status',
+  label: 'Status',
+  required: false,
+  hint: 'draft, in_review, published or archived; draft when empty',
+  aliases: ['state', 'workflow']
+};
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportField[]> = {
+  experiences: [
+    { key: 'title', label: 'Title', required: true, aliases: ['name', 'experience'] },
+    { key: 'destination', label: 'Destination', required: true, aliases: ['place', 'location', 'city'] },
+    { key: 'region', label: 'Region', required: true, hint: REGION_HINT, aliases: ['zone'] },
+    { key: 'description', label: 'Description', required: true, aliases: ['summary', 'details'] },
+    { key: 'highlights', label: 'Highlights', required: true, hint: LIST_HINT, aliases: ['highlight'] },
+    { key: 'imageUrl', label: 'Image URL', required: false, aliases: ['image', 'imageurl', 'photo', 'url'] },
+    STATUS_FIELD
+  ],
+  itineraries: [
+    { key: 'title', label: 'Title', required: true, aliases: ['name', 'itinerary'] },
+    { key: 'destination', label: 'Destination', required: true, aliases: ['place', 'location', 'city'] },
+    { key: 'region', label: 'Region', required: true, hint: REGION_HINT, aliases: ['zone'] },
+    { key: 'duration', label: 'Duration', required: true, hint: 'e.g. 5 Days / 4 Nights', aliases: ['length', 'days count'] },
+    {
+      key: 'days',
+      label: 'Days',
+      required: true,
+      hint: 'JSON array of days, or one day per line (or |) with activities separated by ;',
+      aliases: ['plan', 'schedule', 'day plan', 'activities']
+    },
+    { key: 'description', label: 'Description', required: false, aliases: ['summary', 'overview'] },
+    { key: 'imageUrl', label: 'Image URL', required: false, aliases: ['image', 'imageurl', 'photo', 'url'] },
+    STATUS_FIELD
+  ],
+  images: [
+    { key: 'url', label: 'Image URL', required: true, aliases: ['image', 'imageurl', 'src', 'link'] },
+    { key: 'caption', label: 'Caption', required: true, aliases: ['title', 'alt', 'description'] },
+    { key: 'destination', label: 'Destination', required: true, aliases: ['place', 'location', 'city'] },
+    { key: 'region', label: 'Region', required: true, hint: REGION_HINT, aliases: ['zone'] },
+    STATUS_FIELD
+  ]
+};
+
+// Rows keep whatever the file held: strings from CSV, any JSON value from JSON
+export type SourceTable = {
+  columns: string[];
+  rows: Record<string, unknown>[];
+};
+
+// Field key -> source column, '' when the field is left unmapped
+export type ColumnMapping = Record<string, string>;
+
+export type ImportRecord = ResourceInput<Experience> | ResourceInput<Itinerary> | ResourceInput<DestinationImage>;
+
+export type ValidatedRow = {
+  row: number; // 1-based position in the file, as people see it in a spreadsheet
+  label: string;
+  record: ImportRecord | null;
+  errors: string[];
+};
+
+const findRows = (payload: unknown): unknown[] | null => {
+  if (Array.isArray(payload)) return payload;
+  if (payload && typeof payload === 'object') {
+    // Accept our own API envelope ({ data: [...] }) or an export keyed by content type
+    const arrays = Object.values(payload as Record<string, unknown>).filter(Array.isArray) as unknown[][];
+    return arrays[0] || null;
+  }
+  return null;
+};
+
+export const parseImportFile = (fileName: string, text: string): SourceTable => {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+
+  if (!isJson) {
+    const table = parseCsvTable(text);
+    if (table.rows.length === 0) throw new Error('The file has a header but no rows');
+    return table;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+  const rows = (findRows(payload) || []).filter(
+    (row): row is Record<string, unknown> => !!row && typeof row === 'object' && !Array.isArray(row)
+  );
+  if (rows.length === 0) throw new Error('No records found in the file');
+
+  const columns = rows.reduce<string[]>((list, row) => {
+    Object.keys(row).forEach(key => {
+      if (list.indexOf(key) === -1) list.push(key);
+    });
+    return list;
+  }, []);
+  return { columns, rows };
+};
+
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Matches columns by name, ignoring case, spaces and punctuation ("Image URL" -> imageUrl)
+export const guessMapping = (kind: ImportKind, columns: string[]): ColumnMapping => {
+  const taken: string[] = [];
+  return IMPORT_FIELDS[kind].reduce<ColumnMapping>((mapping, field) => {
+    const candidates = [field.key, field.label].concat(field.aliases).map(columnKey);
+    const column = columns.find(name => taken.indexOf(name) === -1 && candidates.indexOf(columnKey(name)) !== -1);
+    mapping[field.key] = column || '';
+    if (column) taken.push(column);
+    return mapping;
+  }, {});
+};
+
+export const unmappedRequiredFields = (kind: ImportKind, mapping: ColumnMapping) =>
+  IMPORT_FIELDS[kind].filter(field => field.required && !mapping[field.key]);
+
+const toText = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+export const parseRegion = (value: string): Region | null => {
+  const text = value.toLowerCase().replace(/\s*india$/, '').trim();
+  const regions: Region[] = ['North', 'South', 'East', 'West'];
+  return regions.find(region => region.toLowerCase() === text || region[0].toLowerCase() === text) || null;
+};
+
+export const parseStatus = (value: string): ContentStatus | null => {
+  const text = value.toLowerCase().trim().replace(/[\s-]+/g, '_');
+  return isContentStatus(text) ? text : null;
+};
+
+// Same rule the add/edit forms use: a direct link to an image file, or one of the known image hosts
+export const isDirectImageUrl = (url: string) =>
+  /^https?:\/\/[^\s/]+\.[^\s]+$/i.test(url) &&
+  (/\.(jpg|jpeg|png|gif|webp|bmp|svg)(\?.*)?$/i.test(url) ||
+    /(unsplash\.com|pexels\.com|pixabay\.com|cloudinary\.com|imgur\.com)/.test(url));
+
+const parseJsonArray = (text: string): unknown[] | null => {
+  if (!text.startsWith('[')) return null;
+  try {
+    const value = JSON.parse(text);
+    return Array.isArray(value) ? value : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const parseList = (value: unknown): string[] => {
+  const items = Array.isArray(value)
+    ? value
+    : parseJsonArray(toText(value)) || toText(value).split(/\r?\n|\|/);
+  return items.map(toText).filter(Boolean);
+};
+
+const DAY_PREFIX = /^day\s*\d+\s*[:.\-–]?\s*/i;
+
+// Days arrive as structured JSON (our own export format) or as text: one day per line or "|",
+// activities separated by ";". The result goes through the same migration as records from the API.
+const parseDays = (value: unknown): unknown[] => {
+  const list = Array.isArray(value) ? value : parseJsonArray(toText(value));
+  const entries = list || toText(value).split(/\r?\n|\|/).filter(line => line.trim());
+
+  return entries.map(entry => {
+    if (typeof entry === 'string') {
+      return { activities: entry.trim().replace(DAY_PREFIX, '').split(';').map(item => item.trim()).filter(Boolean) };
+    }
+    if (Array.isArray(entry)) return { activities: entry.map(toText).filter(Boolean) };
+    return entry;
+  });
+};
+
+export const validateRows = (kind: ImportKind, table: SourceTable, mapping: ColumnMapping): ValidatedRow[] =>
+  table.rows.map((source, index) => {
+    const errors: string[] = [];
+    const raw = (key: string) => (mapping[key] ? source[mapping[key]] : undefined);
+    const text = (key: string) => toText(raw(key));
+
+    IMPORT_FIELDS[kind].forEach(field => {
+      if (field.required && !text(field.key)) errors.push(`${field.label} is required`);
+    });
+
+    const regionText = text('region');
+    const region = parseRegion(regionText);
+    if (regionText && !region) errors.push(`Region "${regionText}" is not one of ${REGION_HINT}`);
+
+    const statusText = text('status');
+    const status = statusText ? parseStatus(statusText) : 'draft';
+    if (!status) errors.push(`Status "${statusText}" is not one of draft, in_review, published or archived`);
+    // Imported records start out as drafts, so any other status has to be a move the workflow allows from draft
+    const statusProblem = status && status !== 'draft' ? transitionProblem('draft', status) : null;
+    if (statusProblem) errors.push(statusProblem);
+
+    const imageKey = kind === 'images' ? 'url' : 'imageUrl';
+    const imageUrl = text(imageKey);
+    if (imageUrl && !isDirectImageUrl(imageUrl)) {
+      errors.push('Image URL must be a direct http(s) link to an image (.jpg, .png, ...)');
+    }
+
+    let record: ImportRecord | null = null;
+    const label = text('title') || text('caption') || text('destination') || `Row ${index + 1}`;
+
+    if (kind === 'experiences') {
+      const highlights = parseList(raw('highlights'));
+      if (text('highlights') && highlights.length === 0) errors.push('Highlights has no items');
+      record = {
+        destination: text('destination'),
+        region: region as Region,
+        title: text('title'),
+        description: text('description'),
+        highlights,
+        imageUrl,
+        status: status as ContentStatus
+      };
+    } else if (kind === 'itineraries') {
+      const duration = text('duration');
+      const itinerary = migrateItinerary({
+        destination: text('destination'),
+        region: region as Region,
+        title: text('title'),
+        duration,
+        description: text('description') || undefined,
+        imageUrl: imageUrl || undefined,
+        days: parseDays(raw('days')),
+        status: status as ContentStatus
+      } as Itinerary);
+      if (text('days')) {
+        const problem = validateDays(toDraftDays(itinerary.days), duration);
+        if (problem) errors.push(problem);
+      }
+      const { id, createdAt, ...input } = itinerary;
+      record = input;
+    } else {
+      record = {
+        destination: text('destination'),
+        region: region as Region,
+        url: imageUrl,
+        caption: text('caption'),
+        status: status as ContentStatus
+      };
+    }
+
+    return { row: index + 1, label, record: errors.length === 0 ? record : null, errors };
+  });
+
+export const createRecord = (kind: ImportKind, record: ImportRecord): Promise<unknown> => {
+  switch (kind) {
+    case 'experiences':
+      return experiencesAPI.create(record as ResourceInput<Experience>);
+    case 'itineraries':
+      return itinerariesAPI.create(record as ResourceInput<Itinerary>);
+    default:
+      return imagesAPI.create(record as ResourceInput<DestinationImage>);
+  }
+};
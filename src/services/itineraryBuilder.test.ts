@@ -0,0 +1,134 @@
+import type { Experience, Itinerary, Region } from '../App';
+import { migrateItinerary } from './itineraryDays';
+import {
+  areDistant,
+  activityFromExperience,
+  emptyPlan,
+  emptyPlanDay,
+  findRegionJumps,
+  planFromItinerary,
+  toItinerary,
+  validatePlan,
+  PlanDay,
+  PlanDraft
+} from './itineraryBuilder';
+
+const day = (...regions: (Region | undefined)[]): PlanDay => ({
+  ...emptyPlanDay(),
+  activities: regions.map((region, index) => ({ key: `a${index}`, title: `Stop ${index + 1}`, region }))
+});
+
+const experience = (fields: Partial<Experience>): Experience => ({
+  id: 'exp',
+  destination: 'Munnar',
+  region: 'South',
+  title: 'Tea estate',
+  description: '',
+  highlights: ['Tasting', 'Walk', 'Views'],
+  status: 'published',
+  createdAt: 1,
+  ...fields
+});
+
+describe('areDistant', () => {
+  test('pairs north with south and east with west, in either order', () => {
+    expect(areDistant('North', 'South')).toBe(true);
+    expect(areDistant('West', 'East')).toBe(true);
+    expect(areDistant('North', 'East')).toBe(false);
+    expect(areDistant('South', 'South')).toBe(false);
+  });
+});
+
+describe('findRegionJumps', () => {
+  test('compares the last known region of a day with the first of the next', () => {
+    expect(findRegionJumps([day('South', 'North'), day('South'), day('East')])).toEqual([
+      { dayIndex: 0, from: 'North', to: 'South' }
+    ]);
+  });
+
+  test('skips activities without a region and days without any', () => {
+    expect(findRegionJumps([day('North', undefined), day(undefined, 'South')])).toEqual([
+      { dayIndex: 0, from: 'North', to: 'South' }
+    ]);
+    expect(findRegionJumps([day('North'), day(), day('South')])).toEqual([]);
+  });
+});
+
+describe('activityFromExperience', () => {
+  test('takes the title, place and region and the first two highlights as notes', () => {
+    expect(activityFromExperience(experience({}))).toMatchObject({
+      title: 'Tea estate',
+      place: 'Munnar',
+      region: 'South',
+      notes: 'Tasting, Walk'
+    });
+    expect(activityFromExperience(experience({ highlights: [] })).notes).toBeUndefined();
+  });
+});
+
+describe('planFromItinerary', () => {
+  const published = migrateItinerary({
+    id: 'it1',
+    destination: 'Kerala',
+    region: 'South',
+    title: 'Kerala loop',
+    duration: '1 Day',
+    days: [{ day: 1, schedule: [{ title: 'Fort walk', place: 'Delhi' }, { title: 'Houseboat', place: 'Alleppey' }] }],
+    status: 'published',
+    createdAt: 50
+  } as unknown as Itinerary);
+
+  test('copies a published itinerary as a new plan, taking regions from matching experiences', () => {
+    const plan = planFromItinerary(published, [experience({ destination: 'delhi', region: 'North' })], { copy: true });
+
+    expect(plan).toMatchObject({ id: null, title: 'Kerala loop (my version)', createdAt: null });
+    expect(plan.days[0].activities.map(activity => activity.region)).toEqual(['North', 'South']);
+    expect(new Set(plan.days[0].activities.map(activity => activity.key)).size).toBe(2);
+  });
+
+  test('edits the traveller\'s own itinerary in place', () => {
+    expect(planFromItinerary(published, [], { copy: false })).toMatchObject({ id: 'it1', title: 'Kerala loop', createdAt: 50 });
+  });
+});
+
+describe('validatePlan', () => {
+  test('requires a name and an activity on every day', () => {
+    const plan: PlanDraft = { ...emptyPlan(), days: [day('North'), day()] };
+
+    expect(validatePlan(plan)).toBe('Give your itinerary a name');
+    expect(validatePlan({ ...plan, title: 'Trip', days: [] })).toBe('Add at least one day to the plan');
+    expect(validatePlan({ ...plan, title: 'Trip' })).toBe('Day 2 has no activities yet');
+    expect(validatePlan({ ...plan, title: 'Trip', days: [day('North')] })).toBeNull();
+  });
+});
+
+describe('toItinerary', () => {
+  test('saves a private draft named after the plan, in the region most activities are in', () => {
+    const plan: PlanDraft = {
+      ...emptyPlan(),
+      title: ' My trip ',
+      days: [day('South', 'North'), day('North')]
+    };
+    plan.days[0].activities[0].place = 'Kochi';
+
+    const itinerary = toItinerary(plan, 'mine-1');
+
+    expect(itinerary).toMatchObject({
+      id: 'mine-1',
+      title: 'My trip',
+      destination: 'Kochi',
+      region: 'North',
+      duration: '2 Days',
+      durationDays: 2,
+      status: 'draft'
+    });
+    expect(itinerary.days.map(saved => saved.schedule.map(activity => activity.title))).toEqual([['Stop 1', 'Stop 2'], ['Stop 1']]);
+    expect(itinerary.days[0].schedule[0]).not.toHaveProperty('key');
+  });
+
+  test('falls back to India and North when the plan says nothing about where it goes', () => {
+    const itinerary = toItinerary({ ...emptyPlan(), title: 'Trip', days: [day(undefined)], createdAt: 7 }, 'mine-2');
+
+    expect(itinerary).toMatchObject({ destination: 'India', region: 'North', duration: '1 Day', createdAt: 7 });
+  });
+});
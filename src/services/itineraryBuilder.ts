@@ -0,0 +1,146 @@
+import type { Experience, Itinerary, ItineraryActivity, Region } from '../App';
+import { DraftDay, emptyDraftDay, fromDraftDays, toDraftDays } from './itineraryDays';
+
+// The traveller's itinerary builder. Days are edited as DraftDays whose activities remember the region they
+// take place in, so the builder can warn about long journeys between consecutive days.
+
+export type PlanActivity = ItineraryActivity & {
+  key: string; // stable while activities are dragged between days
+  region?: Region;
+};
+
+export type PlanDay = Omit<DraftDay, 'activities'> & {
+  activities: PlanActivity[];
+};
+
+export type PlanDraft = {
+  id: string | null; // null until the plan is first saved
+  title: string;
+  destination: string;
+  description: string;
+  days: PlanDay[];
+  createdAt: number | null;
+};
+
+// One region needs a long-haul flight or an overnight train to reach from the other
+const DISTANT_REGIONS: [Region, Region][] = [
+  ['North', 'South'],
+  ['East', 'West']
+];
+
+export const areDistant = (a: Region, b: Region) =>
+  DISTANT_REGIONS.some(([first, second]) => (a === first && b === second) || (a === second && b === first));
+
+export type RegionJump = {
+  dayIndex: number; // the day travelled from; the jump lands on dayIndex + 1
+  from: Region;
+  to: Region;
+};
+
+let keyCounter = 0;
+const nextKey = () => `activity-${++keyCounter}`;
+
+export const activityFromExperience = (experience: Experience): PlanActivity => ({
+  key: nextKey(),
+  title: experience.title,
+  place: experience.destination,
+  region: experience.region,
+  notes: experience.highlights.slice(0, 2).join(', ') || undefined
+});
+
+export const emptyPlanDay = (): PlanDay => ({ ...emptyDraftDay(), activities: [] });
+
+export const emptyPlan = (): PlanDraft => ({
+  id: null,
+  title: '',
+  destination: '',
+  description: '',
+  days: [emptyPlanDay()],
+  createdAt: null
+});
+
+// Starts the builder from an existing itinerary: a published one is copied, one of the traveller's own is
+// edited in place. Activities take the region of the experience they were made from when it is known, and
+// otherwise the itinerary's region.
+export const planFromItinerary = (itinerary: Itinerary, experiences: Experience[], { copy }: { copy: boolean }): PlanDraft => {
+  const regionByPlace: Record<string, Region> = {};
+  experiences.forEach(experience => {
+    regionByPlace[experience.destination.toLowerCase()] = experience.region;
+  });
+
+  return {
+    id: copy ? null : itinerary.id,
+    title: copy ? `${itinerary.title} (my version)` : itinerary.title,
+    destination: itinerary.destination,
+    description: itinerary.description || '',
+    createdAt: copy ? null : itinerary.createdAt,
+    days: toDraftDays(itinerary.days).map(day => ({
+      ...day,
+      activities: day.activities.map(activity => ({
+        ...activity,
+        key: nextKey(),
+        region: regionByPlace[(activity.place || '').toLowerCase()] || itinerary.region
+      }))
+    }))
+  };
+};
+
+const knownRegions = (day: PlanDay) =>
+  day.activities.map(activity => activity.region).filter((region): region is Region => !!region);
+
+// Consecutive days whose last and first known regions are far apart; days without a known region are skipped
+export const findRegionJumps = (days: PlanDay[]): RegionJump[] => {
+  const jumps: RegionJump[] = [];
+  days.forEach((day, dayIndex) => {
+    if (dayIndex === days.length - 1) return;
+    const from = knownRegions(day).pop();
+    const to = knownRegions(days[dayIndex + 1])[0];
+    if (from && to && areDistant(from, to)) jumps.push({ dayIndex, from, to });
+  });
+  return jumps;
+};
+
+// The region most of the plan takes place in; North when no activity has a known region
+const mainRegion = (days: PlanDay[]): Region => {
+  const counts: Partial<Record<Region, number>> = {};
+  let best: Region = 'North';
+  let bestCount = 0;
+  days.forEach(day => knownRegions(day).forEach(region => {
+    counts[region] = (counts[region] || 0) + 1;
+    if ((counts[region] || 0) > bestCount) {
+      best = region;
+      bestCount = counts[region] || 0;
+    }
+  }));
+  return best;
+};
+
+// Problems that should stop the plan from being saved, or null when it is fine
+export const validatePlan = (plan: PlanDraft) => {
+  if (!plan.title.trim()) return 'Give your itinerary a name';
+  if (plan.days.length === 0) return 'Add at least one day to the plan';
+  const emptyDay = plan.days.findIndex(day => !day.activities.some(activity => activity.title.trim()));
+  if (emptyDay !== -1) return `Day ${emptyDay + 1} has no activities yet`;
+  return null;
+};
+
+// Private itineraries are never published; they share the Itinerary shape so they download like any other
+export const toItinerary = (plan: PlanDraft, id: string): Itinerary => {
+  const days = fromDraftDays(plan.days);
+  const firstPlace = plan.days.reduce<string | undefined>(
+    (found, day) => found || day.activities.map(activity => activity.place).filter(Boolean)[0],
+    undefined
+  );
+  return {
+    id,
+    title: plan.title.trim(),
+    destination: plan.destination.trim() || firstPlace || 'India',
+    region: mainRegion(plan.days),
+    duration: `${days.length} Day${days.length !== 1 ? 's' : ''}`,
+    durationDays: days.length,
+    description: plan.description.trim() || undefined,
+    days,
+    status: 'draft',
+    createdAt: plan.createdAt || Date.now()
+  };
+};
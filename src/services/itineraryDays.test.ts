@@ -0,0 +1,174 @@
+import type { Itinerary } from '../App';
+import {
+  formatActivity,
+  formatTransportLeg,
+  formatMeals,
+  formatMinutes,
+  dayCost,
+  itineraryCost,
+  parseActivityLine,
+  parseDurationDays,
+  migrateItinerary,
+  toDraftDays,
+  fromDraftDays,
+  emptyDraftDay,
+  validateDays
+} from './itineraryDays';
+
+const legacyItinerary = (fields: Omit<Partial<Itinerary>, 'days'> & { days: unknown[] }): Itinerary =>
+  ({
+    id: 'it',
+    destination: 'Rajasthan',
+    region: 'North',
+    title: 'Forts and palaces',
+    duration: '3 Days / 2 Nights',
+    status: 'published',
+    createdAt: 1,
+    ...fields
+  } as unknown as Itinerary);
+
+describe('parseActivityLine', () => {
+  test.each([
+    ['9:30 am - Visit the fort', { title: 'Visit the fort', startTime: '09:30' }],
+    ['14:00 Lunch', { title: 'Lunch', startTime: '14:00' }],
+    ['12.15 pm: Camel ride', { title: 'Camel ride', startTime: '12:15' }],
+    ['12:00 am Night safari', { title: 'Night safari', startTime: '00:00' }],
+    ['  Sunset at the lake ', { title: 'Sunset at the lake' }],
+    ['25:00 Not a time', { title: '25:00 Not a time' }]
+  ])('%s', (line, activity) => {
+    expect(parseActivityLine(line)).toEqual(activity);
+  });
+});
+
+describe('parseDurationDays', () => {
+  test.each([
+    ['7 Days / 6 Nights', 7],
+    ['5D/4N', 5],
+    ['3 nights', 4],
+    ['one week', 7],
+    ['2 weeks', 14],
+    ['a week in Goa', 7],
+    ['Ten days', 10],
+    ['Flexible', null]
+  ])('%s', (text, days) => {
+    expect(parseDurationDays(text)).toBe(days);
+  });
+});
+
+describe('migrateItinerary', () => {
+  test('turns text lines into a structured schedule and keeps the lines', () => {
+    const migrated = migrateItinerary(legacyItinerary({
+      days: [{ day: 1, activities: ['09:00 Amber Fort', 'Dinner at Chokhi Dhani'] }]
+    }));
+
+    expect(migrated.days[0]).toEqual({
+      day: 1,
+      activities: ['09:00 Amber Fort', 'Dinner at Chokhi Dhani'],
+      schedule: [{ title: 'Amber Fort', startTime: '09:00' }, { title: 'Dinner at Chokhi Dhani' }],
+      transport: [],
+      meals: { breakfast: false, lunch: false, dinner: false }
+    });
+    expect(migrated.durationDays).toBe(3);
+  });
+
+  test('sorts days, numbers unnumbered ones by position and drops malformed entries', () => {
+    const migrated = migrateItinerary(legacyItinerary({
+      days: [
+        { day: 3, activities: ['Departure'] },
+        { activities: ['Arrival', '', 42], transport: [{ mode: 'train', from: 'Delhi' }] },
+        { day: 2, schedule: [{ title: 'Lake Pichola' }, { place: 'untitled' }], meals: { breakfast: true } }
+      ]
+    }));
+
+    expect(migrated.days.map(day => day.day)).toEqual([2, 2, 3]);
+    expect(migrated.days[0].schedule).toEqual([{ title: 'Arrival' }]);
+    expect(migrated.days[0].transport).toEqual([]);
+    expect(migrated.days[1].schedule).toEqual([{ title: 'Lake Pichola' }]);
+    expect(migrated.days[1].meals).toEqual({ breakfast: true, lunch: false, dinner: false });
+  });
+
+  test('falls back to the number of days when the duration does not say', () => {
+    const migrated = migrateItinerary(legacyItinerary({ duration: 'Flexible', days: [{ activities: ['A'] }, { activities: ['B'] }] }));
+    expect(migrated.durationDays).toBe(2);
+  });
+
+  test('leaves current records unchanged', () => {
+    const current = migrateItinerary(legacyItinerary({ days: [{ day: 1, activities: ['09:00 Amber Fort'] }] }));
+    expect(migrateItinerary(current)).toEqual(current);
+  });
+});
+
+describe('formatting', () => {
+  test('formatActivity builds the line older clients show', () => {
+    expect(formatActivity({
+      title: ' Houseboat cruise ',
+      startTime: '09:00',
+      place: 'Alleppey',
+      durationMinutes: 150,
+      notes: 'carry sunscreen'
+    })).toBe('09:00 Houseboat cruise at Alleppey (2h 30m) – carry sunscreen');
+  });
+
+  test('formatTransportLeg', () => {
+    expect(formatTransportLeg({ mode: 'train', from: 'Delhi', to: 'Agra', departureTime: '06:00', durationMinutes: 120 }))
+      .toBe('Train: Delhi → Agra, 06:00 (2h)');
+  });
+
+  test('formatMeals', () => {
+    expect(formatMeals({ breakfast: true, lunch: false, dinner: true })).toBe('Breakfast & dinner included');
+    expect(formatMeals({ breakfast: true, lunch: true, dinner: true })).toBe('Breakfast, lunch & dinner included');
+    expect(formatMeals({ breakfast: false, lunch: false, dinner: false })).toBe('');
+  });
+
+  test('formatMinutes', () => {
+    expect(formatMinutes(45)).toBe('45m');
+    expect(formatMinutes(60)).toBe('1h');
+    expect(formatMinutes(95)).toBe('1h 35m');
+  });
+});
+
+describe('costs', () => {
+  test('add up activities, transport and the night stay', () => {
+    const itinerary = migrateItinerary(legacyItinerary({
+      days: [
+        {
+          day: 1,
+          schedule: [{ title: 'Fort', cost: 500 }, { title: 'Walk' }],
+          transport: [{ mode: 'road', from: 'Jaipur', to: 'Amer', cost: 300 }],
+          accommodation: { name: 'Haveli', nightlyCost: 4000 }
+        },
+        { day: 2, schedule: [{ title: 'Market', cost: 200 }] }
+      ]
+    }));
+
+    expect(dayCost(itinerary.days[0])).toBe(4800);
+    expect(itineraryCost(itinerary)).toBe(5000);
+  });
+});
+
+describe('draft days', () => {
+  test('round-trip through the editor, dropping blank rows and empty optional fields', () => {
+    const [draft] = toDraftDays(migrateItinerary(legacyItinerary({ days: [{ day: 1, activities: ['09:00 Amber Fort'] }] })).days);
+    draft.activities.push({ title: '  ', place: 'nowhere' }, { title: ' City Palace ', place: ' ', cost: 0 });
+    draft.transport.push({ mode: 'road', from: 'Jaipur', to: '' });
+    draft.accommodation = { name: ' Haveli ', location: '' };
+
+    expect(fromDraftDays([draft])).toEqual([{
+      day: 1,
+      activities: ['09:00 Amber Fort', 'City Palace'],
+      schedule: [{ title: 'Amber Fort', startTime: '09:00' }, { title: 'City Palace' }],
+      transport: [],
+      meals: { breakfast: false, lunch: false, dinner: false },
+      accommodation: { name: 'Haveli' }
+    }]);
+  });
+
+  test('validateDays reports empty plans, empty days and a duration mismatch', () => {
+    const filled = () => ({ ...emptyDraftDay(), activities: [{ title: 'Fort' }] });
+
+    expect(validateDays([], '1 Day')).toBe('Add at least one day to the plan');
+    expect(validateDays([filled(), emptyDraftDay()], '2 Days')).toBe('Day 2 has no activities');
+    expect(validateDays([filled()], '3 Days / 2 Nights')).toBe('Duration says 3 days but the plan has 1');
+    expect(validateDays([filled(), filled()], 'Flexible')).toBeNull();
+  });
+});
@@ -0,0 +1,301 @@
+import type {
+  Itinerary,
+  ItineraryActivity,
+  ItineraryDay,
+  ActivityCategory,
+  TransportMode,
+  TransportLeg,
+  Accommodation,
+  MealInclusions
+} from '../App';
+
+export const ACTIVITY_CATEGORIES: Record<ActivityCategory, string> = {
+  sightseeing: 'Sightseeing',
+  culture: 'Culture',
+  adventure: 'Adventure',
+  food: 'Food',
+  leisure: 'Leisure',
+  shopping: 'Shopping',
+  transfer: 'Transfer'
+};
+
+export const TRANSPORT_MODES: Record<TransportMode, string> = {
+  flight: 'Flight',
+  train: 'Train',
+  road: 'Road',
+  boat: 'Boat'
+};
+
+const NO_MEALS: MealInclusions = { breakfast: false, lunch: false, dinner: false };
+
+// A day while it is being edited; `key` stays stable across reordering so drag and drop and inputs keep their identity
+export type DraftDay = {
+  key: string;
+  activities: ItineraryActivity[];
+  accommodation: Accommodation; // an empty name means no stay is recorded
+  transport: TransportLeg[];
+  meals: MealInclusions;
+};
+
+let keyCounter = 0;
+const nextKey = () => `day-${++keyCounter}`;
+
+export const emptyActivity = (): ItineraryActivity => ({ title: '' });
+
+export const emptyTransportLeg = (): TransportLeg => ({ mode: 'road', from: '', to: '' });
+
+export const emptyDraftDay = (): DraftDay => ({
+  key: nextKey(),
+  activities: [emptyActivity()],
+  accommodation: { name: '' },
+  transport: [],
+  meals: { ...NO_MEALS }
+});
+
+export const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+export const formatINR = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+// The single line older clients show, e.g. "09:00 Houseboat cruise at Alleppey (2h) – carry sunscreen"
+export const formatActivity = (activity: ItineraryActivity) => {
+  let line = activity.title.trim();
+  if (activity.startTime) line = `${activity.startTime} ${line}`;
+  if (activity.place?.trim()) line += ` at ${activity.place.trim()}`;
+  if (activity.durationMinutes) line += ` (${formatMinutes(activity.durationMinutes)})`;
+  if (activity.notes?.trim()) line += ` – ${activity.notes.trim()}`;
+  return line;
+};
+
+// e.g. "Train: Delhi → Agra, 06:00 (2h)"
+export const formatTransportLeg = (leg: TransportLeg) => {
+  let line = `${TRANSPORT_MODES[leg.mode] || leg.mode}: ${leg.from} → ${leg.to}`;
+  if (leg.departureTime) line += `, ${leg.departureTime}`;
+  if (leg.durationMinutes) line += ` (${formatMinutes(leg.durationMinutes)})`;
+  return line;
+};
+
+// e.g. "Breakfast & dinner included"; empty when no meals are included
+export const formatMeals = (meals: MealInclusions) => {
+  const included = (['breakfast', 'lunch', 'dinner'] as const).filter(meal => meals[meal]);
+  if (included.length === 0) return '';
+  const names = included.map((meal, idx) => (idx === 0 ? meal[0].toUpperCase() + meal.slice(1) : meal));
+  return `${names.length > 1 ? `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}` : names[0]} included`;
+};
+
+const sum = (values: (number | undefined)[]) => values.reduce<number>((total, value) => total + (value || 0), 0);
+
+// Per-person cost of a day: activities, transport and the night's stay
+export const dayCost = (day: ItineraryDay) =>
+  sum(day.schedule.map(activity => activity.cost)) +
+  sum(day.transport.map(leg => leg.cost)) +
+  (day.accommodation?.nightlyCost || 0);
+
+export const itineraryCost = (itinerary: Itinerary) => sum(itinerary.days.map(dayCost));
+
+export const toDraftDays = (days: ItineraryDay[]): DraftDay[] =>
+  [...days]
+    .sort((a, b) => a.day - b.day)
+    .map(day => ({
+      key: nextKey(),
+      activities: day.schedule.map(activity => ({ ...activity })),
+      accommodation: day.accommodation ? { ...day.accommodation } : { name: '' },
+      transport: day.transport.map(leg => ({ ...leg })),
+      meals: { ...day.meals }
+    }));
+
+const cleanText = (value?: string) => value?.trim() || undefined;
+const cleanAmount = (value?: number) => (value && value > 0 ? value : undefined);
+
+// Drops empty optional fields so saved records stay small and readable
+const compact = <T extends object>(record: T): T => {
+  const result = { ...record };
+  (Object.keys(result) as (keyof T)[]).forEach(key => {
+    if (result[key] === undefined) delete result[key];
+  });
+  return result;
+};
+
+const cleanActivity = (activity: ItineraryActivity): ItineraryActivity => compact({
+  title: activity.title.trim(),
+  startTime: activity.startTime || undefined,
+  durationMinutes: cleanAmount(activity.durationMinutes),
+  place: cleanText(activity.place),
+  cost: cleanAmount(activity.cost),
+  category: activity.category,
+  notes: cleanText(activity.notes)
+});
+
+const cleanTransportLeg = (leg: TransportLeg): TransportLeg => compact({
+  mode: leg.mode,
+  from: leg.from.trim(),
+  to: leg.to.trim(),
+  departureTime: leg.departureTime || undefined,
+  durationMinutes: cleanAmount(leg.durationMinutes),
+  cost: cleanAmount(leg.cost),
+  notes: cleanText(leg.notes)
+});
+
+// Numbers days by their position and fills in `activities` alongside `schedule`; rows left blank are dropped
+export const fromDraftDays = (drafts: DraftDay[]): ItineraryDay[] =>
+  drafts.map((draft, idx) => {
+    const schedule = draft.activities.filter(activity => activity.title.trim()).map(cleanActivity);
+    const day: ItineraryDay = {
+      day: idx + 1,
+      activities: schedule.map(formatActivity),
+      schedule,
+      transport: draft.transport.filter(leg => leg.from.trim() && leg.to.trim()).map(cleanTransportLeg),
+      meals: { ...draft.meals }
+    };
+    if (draft.accommodation.name.trim()) {
+      day.accommodation = compact({
+        name: draft.accommodation.name.trim(),
+        location: cleanText(draft.accommodation.location),
+        nightlyCost: cleanAmount(draft.accommodation.nightlyCost)
+      });
+    }
+    return day;
+  });
+
+// Legacy lines often start with a time: "9:30 am - Visit the fort", "14:00 Lunch"
+const LEADING_TIME = /^(\d{1,2})[:.](\d{2})\s*(?:(am|pm)\b)?\s*[-–:]?\s*(.+)$/i;
+
+export const parseActivityLine = (line: string): ItineraryActivity => {
+  const match = line.trim().match(LEADING_TIME);
+  if (!match) return { title: line.trim() };
+
+  let hours = parseInt(match[1], 10);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || parseInt(match[2], 10) > 59) return { title: line.trim() };
+
+  return { title: match[4].trim(), startTime: `${hours < 10 ? '0' : ''}${hours}:${match[2]}` };
+};
+
+const migrateDay = (raw: any, index: number): ItineraryDay => {
+  const rawActivities: unknown[] = Array.isArray(raw?.activities) ? raw.activities : [];
+  const schedule: ItineraryActivity[] = Array.isArray(raw?.schedule) && raw.schedule.length > 0
+    ? raw.schedule.filter((activity: any) => typeof activity?.title === 'string')
+    : rawActivities.reduce<ItineraryActivity[]>((list, item: any) => {
+      if (typeof item === 'string' && item.trim()) return list.concat(parseActivityLine(item));
+      if (typeof item?.title === 'string') return list.concat(item);
+      return list;
+    }, []);
+  const hasTextLines = rawActivities.length > 0 && rawActivities.every(item => typeof item === 'string');
+
+  const day: ItineraryDay = {
+    day: Number(raw?.day) || index + 1,
+    activities: hasTextLines ? (rawActivities as string[]) : schedule.map(formatActivity),
+    schedule,
+    transport: Array.isArray(raw?.transport)
+      ? raw.transport.filter((leg: any) => typeof leg?.from === 'string' && typeof leg?.to === 'string')
+      : [],
+    meals: { ...NO_MEALS, ...(raw?.meals || {}) }
+  };
+  if (typeof raw?.accommodation?.name === 'string' && raw.accommodation.name) {
+    day.accommodation = raw.accommodation;
+  }
+  return day;
+};
+
+// Brings itineraries from any backend version into the current shape: days made of plain text lines get a
+// structured schedule, missing transport/meals get defaults and `durationDays` is derived from `duration`
+export const migrateItinerary = (raw: Itinerary): Itinerary => {
+  const days = (Array.isArray(raw.days) ? raw.days : [])
+    .map(migrateDay)
+    .sort((a, b) => a.day - b.day);
+  return {
+    ...raw,
+    days,
+    durationDays: Number(raw.durationDays) || parseDurationDays(raw.duration || '') || days.length
+  };
+};
+
+export const DEFAULT_ITINERARY_IMAGE = 'https://images.unsplash.com/photo-1524492412937-b28074a5d7da?w=400&h=250&fit=crop';
+
+// Fallback images for itineraries saved without one, by destination
+const DESTINATION_IMAGES: { [key: string]: string } = {
+  'Ladakh': 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=400&h=250&fit=crop',
+  'Goa': 'https://images.unsplash.com/photo-1512343879784-a960bf40e7f2?w=400&h=250&fit=crop',
+  'Kerala': 'https://images.unsplash.com/photo-1602216056096-3b40cc0c9944?w=400&h=250&fit=crop',
+  'Rajasthan': 'https://images.unsplash.com/photo-1477587458883-47145ed94245?w=400&h=250&fit=crop',
+  'Kashmir': 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=400&h=250&fit=crop',
+};
+
+export const getItineraryImage = (itinerary: Itinerary) =>
+  itinerary.imageUrl || DESTINATION_IMAGES[itinerary.destination] || DEFAULT_ITINERARY_IMAGE;
+
+// Use the custom description if available, otherwise generate one from the plan
+export const getOverviewText = (itinerary: Itinerary) => {
+  if (itinerary.description) {
+    return itinerary.description;
+  }
+
+  const totalActivities = itinerary.days.reduce((acc, day) => acc + day.schedule.length, 0);
+  const firstFewActivities = itinerary.days.slice(0, 2).map(day => day.schedule[0]?.title).filter(Boolean);
+
+  return `${itinerary.days.length}-day journey featuring ${totalActivities} curated activities. Experience ${firstFewActivities.join(', ')} and much more in this comprehensive ${itinerary.destination} adventure.`;
+};
+
+// Plain-text version of the whole plan, used for the .txt download
+export const itineraryToText = (itinerary: Itinerary) => {
+  const lines = [itinerary.title, itinerary.destination, itinerary.duration];
+  const total = itineraryCost(itinerary);
+  if (total > 0) lines.push(`Estimated cost per person: ${formatINR(total)}`);
+
+  itinerary.days.forEach(day => {
+    lines.push('', `Day ${day.day}:`);
+    day.transport.forEach(leg => lines.push(`  ${formatTransportLeg(leg)}`));
+    day.schedule.forEach(activity => lines.push(`- ${formatActivity(activity)}`));
+    if (day.accommodation) {
+      lines.push(`  Stay: ${day.accommodation.name}${day.accommodation.location ? `, ${day.accommodation.location}` : ''}`);
+    }
+    const meals = formatMeals(day.meals);
+    if (meals) lines.push(`  Meals: ${meals}`);
+  });
+  return lines.join('\n');
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15
+};
+
+// Reads the number of days out of free-text durations: "7 Days / 6 Nights", "5D/4N", "3 nights", "one week".
+// Returns null when the text does not say.
+export const parseDurationDays = (duration: string): number | null => {
+  const text = duration.toLowerCase();
+  const toNumber = (value: string) => (NUMBER_WORDS[value] !== undefined ? NUMBER_WORDS[value] : parseInt(value, 10));
+  const count = '(\\d+|' + Object.keys(NUMBER_WORDS).join('|') + ')';
+
+  const days = text.match(new RegExp(`${count}\\s*(?:d\\b|days?\\b)`));
+  if (days) return toNumber(days[1]);
+
+  const nights = text.match(new RegExp(`${count}\\s*(?:n\\b|nights?\\b)`));
+  if (nights) return toNumber(nights[1]) + 1;
+
+  const weeks = text.match(new RegExp(`${count}\\s*weeks?\\b`));
+  if (weeks) return toNumber(weeks[1]) * 7;
+  if (/\ba week\b/.test(text)) return 7;
+
+  return null;
+};
+
+// Problems that should stop the itinerary from being saved, or null when the plan is fine
+export const validateDays = (drafts: DraftDay[], duration: string) => {
+  if (drafts.length === 0) return 'Add at least one day to the plan';
+
+  const emptyDay = drafts.findIndex(draft => !draft.activities.some(activity => activity.title.trim()));
+  if (emptyDay !== -1) return `Day ${emptyDay + 1} has no activities`;
+
+  const expected = parseDurationDays(duration);
+  if (expected !== null && expected !== drafts.length) {
+    return `Duration says ${expected} day${expected !== 1 ? 's' : ''} but the plan has ${drafts.length}`;
+  }
+  return null;
+};
@@ -0,0 +1,267 @@
+import { jsPDF } from 'jspdf';
+import type { Itinerary, ItineraryDay } from '../App';
+import logoUrl from '../logo1.png';
+import {
+  ACTIVITY_CATEGORIES,
+  TRANSPORT_MODES,
+  dayCost,
+  itineraryCost,
+  formatMeals,
+  formatMinutes,
+  getItineraryImage,
+  getOverviewText
+} from './itineraryDays';
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 16;
+
+type RGB = [number, number, number];
+const ORANGE: RGB = [234, 88, 12];
+const PURPLE: RGB = [147, 51, 234];
+const SLATE_900: RGB = [15, 23, 42];
+const SLATE_600: RGB = [71, 85, 105];
+const SLATE_400: RGB = [148, 163, 184];
+const PURPLE_LIGHT: RGB = [243, 232, 255];
+
+// The built-in PDF fonts only cover Latin-1, which has no rupee sign or arrows
+const formatRupees = (amount: number) => `Rs. ${amount.toLocaleString('en-IN')}`;
+
+type LoadedImage = { dataUrl: string; width: number; height: number };
+
+// A slow image host should not hold the download hostage; the PDF is generated without the picture
+const IMAGE_TIMEOUT_MS = 8000;
+
+// Draws the image onto a canvas so any format the browser can show (webp, svg, ...) ends up as JPEG or PNG.
+// With `aspect`, the image is centre-cropped to that width/height ratio, like object-fit: cover.
+const loadImage = (url: string, format: 'image/jpeg' | 'image/png', aspect?: number) =>
+  new Promise<LoadedImage | null>(resolve => {
+    const timer = window.setTimeout(() => resolve(null), IMAGE_TIMEOUT_MS);
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      window.clearTimeout(timer);
+      try {
+        let sx = 0;
+        let sy = 0;
+        let sw = img.naturalWidth;
+        let sh = img.naturalHeight;
+        if (aspect) {
+          if (sw / sh > aspect) {
+            sw = sh * aspect;
+            sx = (img.naturalWidth - sw) / 2;
+          } else {
+            sh = sw / aspect;
+            sy = (img.naturalHeight - sh) / 2;
+          }
+        }
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(sw);
+        canvas.height = Math.round(sh);
+        const context = canvas.getContext('2d');
+        if (!context) {
+          resolve(null);
+          return;
+        }
+        context.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+        resolve({ dataUrl: canvas.toDataURL(format, 0.85), width: canvas.width, height: canvas.height });
+      } catch (error) {
+        // A host without CORS headers taints the canvas; the PDF is still useful without the picture
+        console.error('Error preparing image for PDF:', error);
+        resolve(null);
+      }
+    };
+    img.onerror = () => {
+      window.clearTimeout(timer);
+      resolve(null);
+    };
+    img.src = url;
+  });
+
+// Builds the branded itinerary document. Everything is drawn as real text, so it stays selectable and searchable.
+export async function createItineraryPdf(itinerary: Itinerary): Promise<jsPDF> {
+  const coverAspect = CONTENT_WIDTH / 80;
+  const [logo, cover] = await Promise.all([
+    loadImage(logoUrl, 'image/png'),
+    loadImage(getItineraryImage(itinerary), 'image/jpeg', coverAspect)
+  ]);
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: itinerary.title, subject: `${itinerary.destination} itinerary`, creator: 'Immerse India' });
+  let y = MARGIN;
+
+  const setText = (size: number, color: RGB, style: 'normal' | 'bold' | 'italic' = 'normal') => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  const lineHeight = (size: number) => size * 0.45;
+
+  // Starts a new page when the next block would run into the footer
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - FOOTER_HEIGHT - 4) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const writeWrapped = (text: string, x: number, width: number, size: number) => {
+    const lines: string[] = doc.splitTextToSize(text, width);
+    lines.forEach(line => {
+      ensureSpace(lineHeight(size));
+      doc.text(line, x, y);
+      y += lineHeight(size);
+    });
+  };
+
+  // Brand header
+  if (logo) {
+    doc.addImage(logo.dataUrl, 'PNG', MARGIN, y, 14, (14 * logo.height) / logo.width);
+  }
+  setText(16, ORANGE, 'bold');
+  doc.text('Immerse India', MARGIN + (logo ? 18 : 0), y + 6);
+  setText(9, SLATE_600);
+  doc.text('Curated journeys across India', MARGIN + (logo ? 18 : 0), y + 11);
+  y += 17;
+  doc.setDrawColor(...ORANGE);
+  doc.setLineWidth(0.8);
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 6;
+
+  // Cover
+  if (cover) {
+    const height = CONTENT_WIDTH / coverAspect;
+    doc.addImage(cover.dataUrl, 'JPEG', MARGIN, y, CONTENT_WIDTH, height);
+    y += height + 8;
+  }
+
+  setText(20, SLATE_900, 'bold');
+  writeWrapped(itinerary.title, MARGIN, CONTENT_WIDTH, 20);
+  y += 1;
+  setText(11, PURPLE, 'bold');
+  doc.text(`${itinerary.destination}  •  ${itinerary.region} India  •  ${itinerary.duration}`, MARGIN, y);
+  y += 9;
+
+  // Overview
+  setText(13, SLATE_900, 'bold');
+  doc.text('Trip Overview', MARGIN, y);
+  y += 6;
+  setText(10, SLATE_600);
+  writeWrapped(getOverviewText(itinerary), MARGIN, CONTENT_WIDTH, 10);
+  const total = itineraryCost(itinerary);
+  if (total > 0) {
+    y += 2;
+    setText(10, SLATE_900, 'bold');
+    doc.text(`Estimated cost: ${formatRupees(total)} per person`, MARGIN, y);
+    y += 5;
+  }
+  y += 6;
+
+  // Day-by-day timeline
+  setText(13, SLATE_900, 'bold');
+  ensureSpace(12);
+  doc.text('Day-wise Itinerary', MARGIN, y);
+  y += 7;
+
+  const timeColumn = MARGIN + 4;
+  const railX = MARGIN + 20;
+  const textX = railX + 5;
+  const textWidth = PAGE_WIDTH - MARGIN - textX;
+
+  // One timeline row: a marker on the rail, an optional time to its left, a title and a grey detail line
+  const writeEntry = (marker: RGB, time: string | undefined, title: string, details: string[]) => {
+    const titleLines: string[] = doc.splitTextToSize(title, textWidth);
+    const detailText = details.filter(Boolean).join('   ');
+    const detailLines: string[] = detailText ? doc.splitTextToSize(detailText, textWidth) : [];
+    ensureSpace(titleLines.length * lineHeight(10) + detailLines.length * lineHeight(8.5) + 2);
+
+    doc.setFillColor(...marker);
+    doc.circle(railX, y - 1.2, 1.2, 'F');
+    if (time) {
+      setText(9, marker, 'bold');
+      doc.text(time, timeColumn, y);
+    }
+    setText(10, SLATE_900);
+    titleLines.forEach(line => {
+      doc.text(line, textX, y);
+      y += lineHeight(10);
+    });
+    setText(8.5, SLATE_400);
+    detailLines.forEach(line => {
+      doc.text(line, textX, y);
+      y += lineHeight(8.5);
+    });
+    y += 2;
+  };
+
+  const writeDay = (day: ItineraryDay) => {
+    ensureSpace(16);
+    doc.setFillColor(...PURPLE_LIGHT);
+    doc.rect(MARGIN, y - 5, CONTENT_WIDTH, 8, 'F');
+    setText(11, PURPLE, 'bold');
+    doc.text(`Day ${day.day}`, MARGIN + 3, y);
+    const summary = [formatMeals(day.meals), dayCost(day) > 0 ? `${formatRupees(dayCost(day))} per person` : '']
+      .filter(Boolean)
+      .join('  •  ');
+    if (summary) {
+      setText(9, SLATE_600);
+      doc.text(summary, PAGE_WIDTH - MARGIN - 3, y, { align: 'right' });
+    }
+    y += 8;
+
+    day.transport.forEach(leg => {
+      writeEntry([37, 99, 235], leg.departureTime, `${TRANSPORT_MODES[leg.mode] || leg.mode}: ${leg.from} to ${leg.to}`, [
+        leg.durationMinutes ? formatMinutes(leg.durationMinutes) : '',
+        leg.cost ? formatRupees(leg.cost) : '',
+        leg.notes || ''
+      ]);
+    });
+    day.schedule.forEach(activity => {
+      writeEntry(PURPLE, activity.startTime, activity.title, [
+        activity.place || '',
+        activity.durationMinutes ? formatMinutes(activity.durationMinutes) : '',
+        activity.category ? ACTIVITY_CATEGORIES[activity.category] : '',
+        activity.cost ? formatRupees(activity.cost) : '',
+        activity.notes || ''
+      ]);
+    });
+    if (day.accommodation) {
+      writeEntry([217, 119, 6], undefined, `Stay: ${day.accommodation.name}`, [
+        day.accommodation.location || '',
+        day.accommodation.nightlyCost ? `${formatRupees(day.accommodation.nightlyCost)} per night` : ''
+      ]);
+    }
+    y += 3;
+  };
+
+  itinerary.days.forEach(writeDay);
+
+  // Footer on every page, drawn last so the page count is known
+  const pageCount = doc.getNumberOfPages();
+  const generatedOn = new Date().toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' });
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(...SLATE_400);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT);
+    setText(8, SLATE_600);
+    doc.text(`Immerse India  •  ${itinerary.title}`, MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT + 6);
+    doc.text(`Generated ${generatedOn}  •  Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT + 6, {
+      align: 'right'
+    });
+  }
+
+  return doc;
+}
+
+export const itineraryFileName = (itinerary: Itinerary, extension: string) =>
+  `${itinerary.destination}-Itinerary.${extension}`.replace(/\s+/g, '-');
+
+export async function downloadItineraryPdf(itinerary: Itinerary) {
+  const doc = await createItineraryPdf(itinerary);
+  doc.save(itineraryFileName(itinerary, 'pdf'));
+}
@@ -0,0 +1,78 @@
+// Client-side password checks for registration and password reset. The backend has the final say;
+// this only stops obviously weak passwords early and tells the user why.
+
+export type PasswordStrength = {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+  problems: string[]; // reasons the password is not accepted, in the order to fix them
+  acceptable: boolean;
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const STRENGTH_LABELS = ['Too weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+// A few of the most common passwords and travel-flavoured variants people reach for on this site
+const COMMON_PASSWORDS = [
+  'password',
+  'password1',
+  'password123',
+  '12345678',
+  '123456789',
+  'qwerty123',
+  'iloveyou',
+  'letmein1',
+  'welcome1',
+  'admin123',
+  'incredibleindia',
+  'travel123',
+  'immerse123'
+];
+
+type PersonalDetails = {
+  email?: string;
+  name?: string;
+};
+
+// Parts of the user's own name and email, e.g. "asha" from "asha.rao@example.com"
+const personalWords = ({ email = '', name = '' }: PersonalDetails) =>
+  (email.split('@')[0] + ' ' + name)
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 3);
+
+export const checkPassword = (password: string, details: PersonalDetails = {}): PasswordStrength => {
+  const lower = password.toLowerCase();
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length;
+  const problems: string[] = [];
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    problems.push(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (classes < 3) {
+    problems.push('Mix upper and lower case letters, numbers and symbols');
+  }
+  if (COMMON_PASSWORDS.indexOf(lower) !== -1) {
+    problems.push('This is a very common password');
+  }
+  if (personalWords(details).some(word => lower.indexOf(word) !== -1)) {
+    problems.push('Do not use your name or email address');
+  }
+  if (/(.)\1{3,}/.test(password)) {
+    problems.push('Avoid repeating the same character');
+  }
+
+  let score = 0;
+  if (password.length >= MIN_PASSWORD_LENGTH) score++;
+  if (password.length >= 12) score++;
+  if (classes >= 3) score++;
+  if (classes === 4 || password.length >= 16) score++;
+  if (problems.length > 0) score = Math.min(score, 1);
+
+  return {
+    score: score as PasswordStrength['score'],
+    label: password ? STRENGTH_LABELS[score] : '',
+    problems,
+    acceptable: problems.length === 0
+  };
+};
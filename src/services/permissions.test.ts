@@ -0,0 +1,188 @@
+import type { Experience, Region, Role, User } from '../App';
+import type { ResourceClient } from './api';
+import { clearSession, saveSession } from './session';
+import {
+  assertCapability,
+  can,
+  hasAdminAccess,
+  regionsFor,
+  withPermissions,
+  ALL_REGIONS,
+  Capability,
+  PermissionError
+} from './permissions';
+
+const user = (role: Role, region?: Region): User => ({ email: `${role}@example.com`, name: role, role, region });
+
+const experience = (id: string, region: Region): Experience => ({
+  id,
+  destination: 'Somewhere',
+  region,
+  title: `Experience in ${region}`,
+  description: '',
+  highlights: [],
+  status: 'draft',
+  createdAt: 1
+});
+
+const signIn = (signedIn: User) => saveSession(signedIn, 'token');
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('can', () => {
+  test.each([
+    ['admin', 'users.manage', true],
+    ['admin', 'backups.manage', true],
+    ['editor', 'experiences.manage', true],
+    ['editor', 'updates.manage', false],
+    ['editor', 'users.manage', false],
+    ['photographer', 'images.manage', true],
+    ['photographer', 'experiences.manage', false],
+    ['regional_manager', 'itineraries.manage', true],
+    ['regional_manager', 'backups.manage', false],
+    ['user', 'images.manage', false]
+  ] as [Role, Capability, boolean][])('%s holds %s: %s', (role, capability, allowed) => {
+    expect(can(user(role, 'North'), capability)).toBe(allowed);
+  });
+
+  test.each([
+    ['editor', undefined, 'South', true],
+    ['regional_manager', 'North', 'North', true],
+    ['regional_manager', 'North', 'South', false],
+    ['regional_manager', 'North', undefined, true],
+    ['regional_manager', undefined, 'North', false],
+    ['regional_manager', undefined, undefined, false]
+  ] as [Role, Region | undefined, Region | undefined, boolean][])(
+    '%s in %s may manage a record in %s: %s',
+    (role, region, recordRegion, allowed) => {
+      expect(can(user(role, region), 'experiences.manage', { region: recordRegion })).toBe(allowed);
+    }
+  );
+
+  test('signed-out visitors and unknown roles hold nothing', () => {
+    expect(can(null, 'images.manage')).toBe(false);
+    expect(can(user('superuser' as Role), 'images.manage')).toBe(false);
+    expect(hasAdminAccess(user('superuser' as Role))).toBe(false);
+  });
+});
+
+describe('regionsFor', () => {
+  test.each([
+    ['admin', undefined, ALL_REGIONS],
+    ['editor', 'East', ALL_REGIONS],
+    ['regional_manager', 'East', ['East']],
+    ['regional_manager', undefined, []]
+  ] as [Role, Region | undefined, Region[]][])('%s in %s may use %j', (role, region, regions) => {
+    expect(regionsFor(user(role, region))).toEqual(regions);
+  });
+});
+
+describe('assertCapability', () => {
+  test('checks the signed-in user', () => {
+    signIn(user('admin'));
+    expect(() => assertCapability('users.manage', 'invite users')).not.toThrow();
+
+    signIn(user('editor'));
+    expect(() => assertCapability('users.manage', 'invite users')).toThrow(
+      new PermissionError('You do not have permission to invite users')
+    );
+
+    clearSession();
+    expect(() => assertCapability('images.manage', 'upload images')).toThrow(PermissionError);
+  });
+});
+
+describe('withPermissions', () => {
+  const stored: Record<string, Experience> = {
+    north: experience('north', 'North'),
+    south: experience('south', 'South')
+  };
+
+  const stubClient = (): jest.Mocked<ResourceClient<Experience>> => ({
+    getAll: jest.fn(),
+    getById: jest.fn(async id => stored[id]),
+    create: jest.fn(async data => ({ ...(data as Experience), id: 'new', createdAt: 2 })),
+    update: jest.fn(async (id, data) => ({ ...stored[id], ...(data as Partial<Experience>) })),
+    patch: jest.fn(async (id, changes) => ({ ...stored[id], ...changes })),
+    delete: jest.fn(async (id: string) => undefined)
+  });
+
+  const { id, createdAt, ...southInput } = stored.south;
+
+  test('lets a regional manager change and delete records in their own region', async () => {
+    signIn(user('regional_manager', 'North'));
+    const client = stubClient();
+    const guarded = withPermissions('experiences', client);
+
+    await expect(guarded.update('north', { title: 'Renamed' })).resolves.toMatchObject({ title: 'Renamed' });
+    await expect(guarded.patch('north', { status: 'in_review' })).resolves.toMatchObject({ status: 'in_review' });
+    await guarded.delete('north');
+
+    expect(client.delete).toHaveBeenCalledWith('north');
+  });
+
+  test('fetches the record first, so a regional manager cannot touch one outside their region', async () => {
+    signIn(user('regional_manager', 'North'));
+    const client = stubClient();
+    const guarded = withPermissions('experiences', client);
+    const refused = new PermissionError('You can only manage experiences in your own region, not South');
+
+    await expect(guarded.update('south', { title: 'Renamed' })).rejects.toThrow(refused);
+    await expect(guarded.patch('south', { status: 'archived' })).rejects.toThrow(refused);
+    await expect(guarded.delete('south')).rejects.toThrow(refused);
+
+    expect(client.getById).toHaveBeenCalledWith('south');
+    expect(client.update).not.toHaveBeenCalled();
+    expect(client.patch).not.toHaveBeenCalled();
+    expect(client.delete).not.toHaveBeenCalled();
+  });
+
+  test('stops a regional manager creating in or moving a record into another region', async () => {
+    signIn(user('regional_manager', 'North'));
+    const client = stubClient();
+    const guarded = withPermissions('experiences', client);
+
+    await expect(guarded.create(southInput)).rejects.toThrow(PermissionError);
+    await expect(guarded.update('north', { region: 'South' })).rejects.toThrow(PermissionError);
+    await expect(guarded.patch('north', { region: 'South' })).rejects.toThrow(PermissionError);
+
+    expect(client.create).not.toHaveBeenCalled();
+    expect(client.update).not.toHaveBeenCalled();
+    expect(client.patch).not.toHaveBeenCalled();
+  });
+
+  test('reads the region of uploads sent as form data', async () => {
+    signIn(user('regional_manager', 'North'));
+    const guarded = withPermissions('experiences', stubClient());
+    const form = new FormData();
+    form.append('region', 'West');
+
+    await expect(guarded.create(form)).rejects.toThrow('not West');
+  });
+
+  test('does not fetch records for roles that are not region-scoped', async () => {
+    signIn(user('editor'));
+    const client = stubClient();
+    const guarded = withPermissions('experiences', client);
+
+    await guarded.update('south', { region: 'East' });
+    await guarded.delete('south');
+
+    expect(client.getById).not.toHaveBeenCalled();
+  });
+
+  test('refuses every write from roles without the capability, before any request', async () => {
+    signIn(user('photographer'));
+    const client = stubClient();
+    const guarded = withPermissions('experiences', client);
+    const refused = new PermissionError('You do not have permission to manage experiences');
+
+    await expect(guarded.create(southInput)).rejects.toThrow(refused);
+    await expect(guarded.update('north', { title: 'Renamed' })).rejects.toThrow(refused);
+    await expect(guarded.delete('north')).rejects.toThrow(refused);
+
+    expect(client.getById).not.toHaveBeenCalled();
+  });
+});
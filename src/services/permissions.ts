@@ -0,0 +1,163 @@
+import type { AppData, Region, Role, User } from '../App';
+import type { ResourceClient } from './api';
+import { getStoredUser } from './session';
+
+// Role-based access for the admin dashboard. Each role grants a set of capabilities; a region-scoped
+// role only holds them for records in the user's own region. The UI hides controls the user lacks and
+// withPermissions refuses the same writes before they reach the backend.
+
+export type ContentType = keyof AppData;
+
+export type Capability =
+  | 'experiences.manage'
+  | 'itineraries.manage'
+  | 'images.manage'
+  | 'updates.manage'
+  | 'backups.manage'
+  | 'users.manage';
+
+export const MANAGE_CAPABILITY: Record<ContentType, Capability> = {
+  experiences: 'experiences.manage',
+  itineraries: 'itineraries.manage',
+  images: 'images.manage',
+  updates: 'updates.manage'
+};
+
+type RoleDefinition = {
+  label: string;
+  capabilities: Capability[];
+  regionScoped: boolean;
+};
+
+export const ROLES: Record<Role, RoleDefinition> = {
+  admin: {
+    label: 'Admin',
+    capabilities: [
+      'experiences.manage',
+      'itineraries.manage',
+      'images.manage',
+      'updates.manage',
+      'backups.manage',
+      'users.manage'
+    ],
+    regionScoped: false
+  },
+  editor: {
+    label: 'Editor',
+    capabilities: ['experiences.manage', 'itineraries.manage', 'images.manage'],
+    regionScoped: false
+  },
+  photographer: {
+    label: 'Photographer',
+    capabilities: ['images.manage'],
+    regionScoped: false
+  },
+  regional_manager: {
+    label: 'Regional manager',
+    capabilities: ['experiences.manage', 'itineraries.manage', 'images.manage'],
+    regionScoped: true
+  },
+  user: {
+    label: 'Traveller',
+    capabilities: [],
+    regionScoped: false
+  }
+};
+
+export const ALL_REGIONS: Region[] = ['North', 'South', 'East', 'West'];
+
+// Unknown roles from an older or newer backend get no capabilities
+const roleOf = (user: User | null) => (user && ROLES[user.role]) || ROLES.user;
+
+// Anyone holding at least one capability works in the admin dashboard
+export const hasAdminAccess = (user: User | null) => roleOf(user).capabilities.length > 0;
+
+// Anyone who can change content must protect the account with two-factor authentication
+export const requiresMfa = (user: User | null) => hasAdminAccess(user);
+
+// The regions a user may create or move content into
+export const regionsFor = (user: User | null): Region[] =>
+  roleOf(user).regionScoped ? (user?.region ? [user.region] : []) : ALL_REGIONS;
+
+// Without a record this asks whether the user holds the capability at all, e.g. to show an Add button
+export const can = (user: User | null, capability: Capability, record?: { region?: Region }) => {
+  const role = roleOf(user);
+  if (role.capabilities.indexOf(capability) === -1) return false;
+  if (!role.regionScoped) return true;
+  if (!user?.region) return false; // a regional manager without a region yet
+  if (!record || !record.region) return true;
+  return regionsFor(user).indexOf(record.region) !== -1;
+};
+
+// Thrown by guarded clients instead of sending a write the backend would reject
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
+
+// For guarded calls that are not tied to one content type, e.g. the user management endpoints
+export const assertCapability = (capability: Capability, action: string) => {
+  if (!can(getStoredUser(), capability)) {
+    throw new PermissionError(`You do not have permission to ${action}`);
+  }
+};
+
+const regionIn = (data: unknown): Region | undefined => {
+  const region = data instanceof FormData ? data.get('region') : (data as { region?: unknown } | null)?.region;
+  return typeof region === 'string' ? (region as Region) : undefined;
+};
+
+// Checks the signed-in user before every create, update, patch and delete. For region-scoped roles a
+// change or delete first fetches the record, so content outside the region cannot be changed or moved into it.
+export function withPermissions<T extends { id: string }, TInput>(
+  type: ContentType,
+  client: ResourceClient<T, TInput>
+): ResourceClient<T, TInput> {
+  const capability = MANAGE_CAPABILITY[type];
+
+  const assertAllowed = (record?: { region?: Region }) => {
+    const user = getStoredUser();
+    if (can(user, capability, record)) return;
+    const region = record?.region;
+    throw new PermissionError(
+      region && can(user, capability)
+        ? `You can only manage ${type} in your own region, not ${region}`
+        : `You do not have permission to manage ${type}`
+    );
+  };
+
+  const assertExisting = async (id: string) => {
+    assertAllowed();
+    if (roleOf(getStoredUser()).regionScoped) {
+      assertAllowed((await client.getById(id)) as { region?: Region });
+    }
+  };
+
+  return {
+    ...client,
+
+    create: async (data) => {
+      assertAllowed({ region: regionIn(data) });
+      return client.create(data);
+    },
+
+    update: async (id, data) => {
+      await assertExisting(id);
+      assertAllowed({ region: regionIn(data) });
+      return client.update(id, data);
+    },
+
+    patch: async (id, changes) => {
+      await assertExisting(id);
+      assertAllowed({ region: regionIn(changes) });
+      return client.patch(id, changes);
+    },
+
+    delete: async (id) => {
+      await assertExisting(id);
+      return client.delete(id);
+    }
+  };
+}
@@ -0,0 +1,43 @@
+// Alternate spellings of Indian place names, keyed by the name we display.
+// Covers renamed cities (old and new official names), Hindi/Devanagari and transliterated forms,
+// and misspellings that show up in our search logs.
+export const PLACE_ALIASES: Record<string, string[]> = {
+  'Agra': ['आगरा'],
+  'Alappuzha': ['alleppey', 'aleppey'],
+  'Amritsar': ['amritser', 'अमृतसर'],
+  'Andaman': ['andamans', 'andaman and nicobar', 'andman'],
+  'Bengaluru': ['bangalore', 'bangaluru', 'bengalooru', 'banglore', 'बेंगलुरु'],
+  'Belagavi': ['belgaum'],
+  'Chennai': ['madras', 'chenai', 'चेन्नई'],
+  'Darjeeling': ['darjiling', 'darjeling', 'दार्जिलिंग'],
+  'Delhi': ['dilli', 'new delhi', 'dehli', 'दिल्ली'],
+  'Goa': ['गोवा'],
+  'Gurugram': ['gurgaon'],
+  'Himachal Pradesh': ['himachal', 'हिमाचल'],
+  'Jaipur': ['jaypur', 'जयपुर'],
+  'Kanyakumari': ['cape comorin', 'kanniyakumari'],
+  'Kashmir': ['kashmeer', 'kasmir', 'कश्मीर'],
+  'Kerala': ['keral', 'kerela', 'keralam', 'केरल'],
+  'Kochi': ['cochin'],
+  'Kolkata': ['calcutta', 'kolkatta', 'कोलकाता'],
+  'Kozhikode': ['calicut'],
+  'Ladakh': ['ladak', 'ladhak', 'laddakh', 'लद्दाख'],
+  'Mangaluru': ['mangalore'],
+  'Meghalaya': ['meghalay', 'meghalya'],
+  'Mumbai': ['bombay', 'mumbay', 'मुंबई'],
+  'Munnar': ['moonar'],
+  'Mysuru': ['mysore', 'मैसूर'],
+  'Odisha': ['orissa', 'ओडिशा'],
+  'Prayagraj': ['allahabad'],
+  'Puducherry': ['pondicherry', 'pondy'],
+  'Pune': ['poona'],
+  'Rajasthan': ['rajastan', 'rajasthaan', 'राजस्थान'],
+  'Rishikesh': ['hrishikesh', 'ऋषिकेश'],
+  'Shimla': ['simla', 'शिमला'],
+  'Sikkim': ['sikim'],
+  'Thiruvananthapuram': ['trivandrum'],
+  'Udaipur': ['udaypur', 'उदयपुर'],
+  'Uttarakhand': ['uttaranchal', 'उत्तराखंड'],
+  'Vadodara': ['baroda'],
+  'Varanasi': ['banaras', 'benares', 'kashi', 'वाराणसी']
+};
@@ -0,0 +1,28 @@
+import { readJSON, writeJSON } from './storage';
+
+const MAX_RECENT_SEARCHES = 6;
+
+// Kept per account so people sharing a browser do not see each other's searches
+const keyFor = (email: string) => `recentSearches:${email.toLowerCase()}`;
+
+export const getRecentSearches = (email: string): string[] => {
+  const stored = readJSON<unknown>(keyFor(email), []);
+  return Array.isArray(stored) ? stored.filter((entry): entry is string => typeof entry === 'string') : [];
+};
+
+// Moves the query to the front, dropping case-insensitive duplicates and the oldest entries
+export const addRecentSearch = (email: string, query: string) => {
+  const trimmed = query.trim();
+  if (!trimmed) return getRecentSearches(email);
+
+  const next = [
+    trimmed,
+    ...getRecentSearches(email).filter(entry => entry.toLowerCase() !== trimmed.toLowerCase())
+  ].slice(0, MAX_RECENT_SEARCHES);
+  writeJSON(keyFor(email), next);
+  return next;
+};
+
+export const clearRecentSearches = (email: string) => {
+  writeJSON(keyFor(email), null);
+};
@@ -0,0 +1,167 @@
+import type { Experience, Itinerary } from '../App';
+import type { ResourceClient } from './api';
+import { migrateItinerary } from './itineraryDays';
+import { saveSession } from './session';
+import {
+  diffRevisions,
+  isEmptyDiff,
+  revisionInput,
+  listRevisions,
+  withRevisions,
+  setRevisionAdapter,
+  localRevisionAdapter,
+  Revision
+} from './revisions';
+
+const experience = (fields: Partial<Experience> = {}): Experience => ({
+  id: 'exp1',
+  destination: 'Goa',
+  region: 'West',
+  title: 'Beach walk',
+  description: 'Sand and sea',
+  highlights: ['Sunset', 'Shacks'],
+  status: 'published',
+  createdAt: 100,
+  ...fields
+});
+
+const itinerary = (days: unknown[], fields: Partial<Itinerary> = {}): Itinerary =>
+  migrateItinerary({
+    id: 'it1',
+    destination: 'Kerala',
+    region: 'South',
+    title: 'Backwaters',
+    duration: '2 Days',
+    days,
+    status: 'draft',
+    createdAt: 100,
+    ...fields
+  } as unknown as Itinerary);
+
+beforeEach(() => {
+  localStorage.clear();
+  setRevisionAdapter(localRevisionAdapter);
+});
+
+describe('diffRevisions', () => {
+  test('reports changed fields with readable values and list additions and removals', () => {
+    const diff = diffRevisions(
+      'experiences',
+      experience(),
+      experience({ title: 'Beach walk at dawn', status: 'archived', highlights: ['Sunrise', 'Shacks'] })
+    );
+
+    expect(diff).toEqual({
+      fields: [
+        { label: 'Title', before: 'Beach walk', after: 'Beach walk at dawn' },
+        { label: 'Status', before: 'Published', after: 'Archived' }
+      ],
+      lists: [{ label: 'Highlights', added: ['Sunrise'], removed: ['Sunset'] }],
+      days: []
+    });
+  });
+
+  test('treats missing and empty values as the same', () => {
+    expect(isEmptyDiff(diffRevisions('experiences', experience({ imageUrl: '' }), experience()))).toBe(true);
+  });
+
+  test('matches itinerary days by position and reports added, removed and changed days', () => {
+    const before = itinerary([
+      { day: 1, schedule: [{ title: 'Houseboat' }], meals: { breakfast: true } },
+      { day: 2, schedule: [{ title: 'Spice farm' }] }
+    ]);
+    const after = itinerary([
+      { day: 1, schedule: [{ title: 'Houseboat', cost: 1500 }], meals: { breakfast: true, dinner: true } },
+      { day: 2, schedule: [{ title: 'Spice farm' }] },
+      { day: 3, schedule: [{ title: 'Tea estate' }], accommodation: { name: 'Hill resort', location: 'Munnar' } }
+    ], { duration: '3 Days' });
+
+    const diff = diffRevisions('itineraries', before, after);
+
+    expect(diff.fields).toEqual([{ label: 'Duration', before: '2 Days', after: '3 Days' }]);
+    expect(diff.days).toEqual([
+      {
+        day: 1,
+        change: 'changed',
+        fields: [{ label: 'Meals', before: 'Breakfast included', after: 'Breakfast & dinner included' }],
+        lists: [{ label: 'Activities', added: ['Houseboat, ₹1,500'], removed: ['Houseboat'] }]
+      },
+      {
+        day: 3,
+        change: 'added',
+        fields: [{ label: 'Stay', before: '', after: 'Hill resort, Munnar' }],
+        lists: [{ label: 'Activities', added: ['Tea estate'], removed: [] }]
+      }
+    ]);
+    expect(diffRevisions('itineraries', after, before).days.map(day => day.change)).toEqual(['changed', 'removed']);
+  });
+});
+
+describe('revisionInput', () => {
+  test('restores content but keeps the current status and schedule', () => {
+    const revision: Revision<Experience> = {
+      id: 'r1',
+      recordId: 'exp1',
+      savedAt: 1,
+      author: null,
+      snapshot: experience({ title: 'Old title', status: 'draft', publishAt: 5 })
+    };
+
+    const input = revisionInput(revision, experience({ status: 'published', expiresAt: 9 }));
+
+    expect(input).toMatchObject({ title: 'Old title', status: 'published', publishAt: null, expiresAt: 9 });
+    expect(input).not.toHaveProperty('id');
+    expect(input).not.toHaveProperty('createdAt');
+  });
+});
+
+describe('withRevisions', () => {
+  const stubClient = (stored: Experience): ResourceClient<Experience> => ({
+    getAll: jest.fn(),
+    getById: jest.fn().mockResolvedValue(stored),
+    create: jest.fn().mockResolvedValue(stored),
+    update: jest.fn(async (id, data) => ({ ...stored, ...(data as Partial<Experience>) })),
+    patch: jest.fn(async (id, changes) => ({ ...stored, ...changes })),
+    delete: jest.fn()
+  });
+
+  test('keeps the pre-history version as a baseline on the first update, then records each save', async () => {
+    saveSession({ email: 'editor@example.com', name: 'Editor', role: 'editor' }, 'token');
+    const client = withRevisions('experiences', stubClient(experience()));
+
+    await client.update('exp1', { title: 'Second' });
+    await client.update('exp1', { title: 'Third' });
+
+    const revisions = await listRevisions('experiences', 'exp1');
+    expect(revisions.map(revision => [revision.snapshot.title, revision.author?.name ?? null])).toEqual([
+      ['Beach walk', null],
+      ['Second', 'Editor'],
+      ['Third', 'Editor']
+    ]);
+    expect(revisions[0].savedAt).toBe(100);
+  });
+
+  test('records patches like full updates', async () => {
+    const client = withRevisions('experiences', stubClient(experience()));
+
+    await client.patch('exp1', { status: 'archived' });
+
+    const revisions = await listRevisions('experiences', 'exp1');
+    expect(revisions.map(revision => revision.snapshot.status)).toEqual(['published', 'archived']);
+  });
+
+  test('never fails the save when the history cannot be written', async () => {
+    setRevisionAdapter({
+      list: async () => [],
+      add: async () => {
+        throw new Error('quota exceeded');
+      }
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const client = withRevisions('experiences', stubClient(experience()));
+    const { id, createdAt, ...input } = experience();
+
+    await expect(client.create(input)).resolves.toMatchObject({ id: 'exp1' });
+    expect(console.error).toHaveBeenCalled();
+  });
+});
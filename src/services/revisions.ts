@@ -0,0 +1,241 @@
+import type { Experience, Itinerary, ItineraryDay, ItineraryActivity, User } from '../App';
+import type { ResourceClient } from './api';
+import { getStoredUser } from './session';
+import { readJSON, writeJSON } from './storage';
+import { formatActivity, formatTransportLeg, formatMeals, formatINR } from './itineraryDays';
+import { STATUS_LABELS } from './workflow';
+
+// Revision history for experiences and itineraries: every successful save records a full snapshot of the
+// record as the API returned it, with who saved it and when.
+
+export type RevisionType = 'experiences' | 'itineraries';
+
+export type RevisionRecord = {
+  experiences: Experience;
+  itineraries: Itinerary;
+};
+
+export type Revision<T> = {
+  id: string;
+  recordId: string;
+  savedAt: number;
+  // null for the baseline captured the first time a record that predates the history was edited
+  author: Pick<User, 'name' | 'email'> | null;
+  snapshot: T;
+};
+
+// Where revisions are kept. The backend has no revisions endpoint yet, so the default adapter keeps them in
+// this browser; a server-backed adapter can be swapped in with setRevisionAdapter without touching the UI.
+export type RevisionAdapter = {
+  list: (type: RevisionType, recordId: string) => Promise<Revision<Experience | Itinerary>[]>; // oldest first
+  add: (type: RevisionType, revision: Revision<Experience | Itinerary>) => Promise<void>;
+};
+
+const MAX_REVISIONS = 50;
+
+const keyFor = (type: RevisionType, recordId: string) => `revisions:${type}:${recordId}`;
+
+export const localRevisionAdapter: RevisionAdapter = {
+  list: async (type, recordId) => {
+    const stored = readJSON<unknown>(keyFor(type, recordId), []);
+    return Array.isArray(stored) ? stored : [];
+  },
+  add: async (type, revision) => {
+    const revisions = await localRevisionAdapter.list(type, revision.recordId);
+    writeJSON(keyFor(type, revision.recordId), revisions.concat(revision).slice(-MAX_REVISIONS));
+  }
+};
+
+let adapter: RevisionAdapter = localRevisionAdapter;
+
+export const setRevisionAdapter = (next: RevisionAdapter) => {
+  adapter = next;
+};
+
+export const listRevisions = async <K extends RevisionType>(type: K, recordId: string) =>
+  (await adapter.list(type, recordId)) as Revision<RevisionRecord[K]>[];
+
+const currentAuthor = () => {
+  const user = getStoredUser();
+  return user ? { name: user.name, email: user.email } : null;
+};
+
+// History is a convenience; a failure to record it must never fail the save itself
+const recordRevision = async <T extends { id: string }>(
+  type: RevisionType,
+  snapshot: T,
+  author = currentAuthor(),
+  savedAt = Date.now()
+) => {
+  try {
+    await adapter.add(type, {
+      id: `${savedAt}-${Math.random().toString(36).slice(2, 8)}`,
+      recordId: snapshot.id,
+      savedAt,
+      author,
+      snapshot: snapshot as unknown as Experience | Itinerary
+    });
+  } catch (error) {
+    console.error('Error recording revision:', error);
+  }
+};
+
+// Records every create, update and patch made through the client. The first update of a record saved before
+// history existed fetches it beforehand, so the version being replaced is kept too.
+export function withRevisions<K extends RevisionType>(
+  type: K,
+  client: ResourceClient<RevisionRecord[K]>
+): ResourceClient<RevisionRecord[K]> {
+  const save = async (id: string, write: () => Promise<RevisionRecord[K]>) => {
+    const history = await adapter.list(type, id).catch(() => []);
+    if (history.length === 0) {
+      const previous = await client.getById(id).catch(() => null);
+      if (previous) await recordRevision(type, previous, null, previous.createdAt || Date.now() - 1);
+    }
+    const record = await write();
+    await recordRevision(type, record);
+    return record;
+  };
+
+  return {
+    ...client,
+
+    create: async (data) => {
+      const record = await client.create(data);
+      await recordRevision(type, record);
+      return record;
+    },
+
+    update: (id, data) => save(id, () => client.update(id, data)),
+
+    patch: (id, changes) => save(id, () => client.patch(id, changes))
+  };
+}
+
+export type FieldChange = {
+  label: string;
+  before: string;
+  after: string;
+};
+
+export type ListChange = {
+  label: string;
+  added: string[];
+  removed: string[];
+};
+
+export type DayChange = {
+  day: number;
+  change: 'added' | 'removed' | 'changed';
+  fields: FieldChange[];
+  lists: ListChange[];
+};
+
+export type RevisionDiff = {
+  fields: FieldChange[];
+  lists: ListChange[];
+  days: DayChange[];
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatValue = (key: string, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '';
+  if (key === 'status') return STATUS_LABELS[value as keyof typeof STATUS_LABELS] || String(value);
+  if (key === 'publishAt' || key === 'expiresAt') return formatTime(Number(value));
+  return String(value);
+};
+
+const SHARED_FIELDS: [string, string][] = [
+  ['title', 'Title'],
+  ['destination', 'Destination'],
+  ['region', 'Region'],
+  ['description', 'Description'],
+  ['imageUrl', 'Image URL'],
+  ['status', 'Status'],
+  ['publishAt', 'Go live at'],
+  ['expiresAt', 'Take down at']
+];
+
+const ITINERARY_FIELDS: [string, string][] = SHARED_FIELDS.slice(0, 3).concat([['duration', 'Duration']], SHARED_FIELDS.slice(3));
+
+const diffFields = (fields: [string, string][], before: Record<string, unknown>, after: Record<string, unknown>) =>
+  fields.reduce<FieldChange[]>((changes, [key, label]) => {
+    const from = formatValue(key, before[key]);
+    const to = formatValue(key, after[key]);
+    return from === to ? changes : changes.concat({ label, before: from, after: to });
+  }, []);
+
+// Items are compared as text, so an edited item shows up as one removal and one addition
+const diffList = (label: string, before: string[], after: string[]): ListChange[] => {
+  const added = after.filter(item => before.indexOf(item) === -1);
+  const removed = before.filter(item => after.indexOf(item) === -1);
+  return added.length || removed.length ? [{ label, added, removed }] : [];
+};
+
+const dayFields = (day?: ItineraryDay): Record<string, string> => ({
+  stay: day?.accommodation
+    ? [day.accommodation.name, day.accommodation.location].filter(Boolean).join(', ')
+    : '',
+  meals: day ? formatMeals(day.meals) : ''
+});
+
+const activityLine = (activity: ItineraryActivity) =>
+  activity.cost ? `${formatActivity(activity)}, ${formatINR(activity.cost)}` : formatActivity(activity);
+
+const diffDay = (day: number, before?: ItineraryDay, after?: ItineraryDay): DayChange | null => {
+  const from = dayFields(before);
+  const to = dayFields(after);
+  const fields = diffFields([['stay', 'Stay'], ['meals', 'Meals']], from, to);
+  const lists = diffList('Activities', (before?.schedule || []).map(activityLine), (after?.schedule || []).map(activityLine))
+    .concat(diffList('Transport', (before?.transport || []).map(formatTransportLeg), (after?.transport || []).map(formatTransportLeg)));
+
+  if (!before) return { day, change: 'added', fields, lists };
+  if (!after) return { day, change: 'removed', fields, lists };
+  return fields.length || lists.length ? { day, change: 'changed', fields, lists } : null;
+};
+
+// Days are matched by position, the way travellers read them ("Day 3")
+const diffDays = (before: ItineraryDay[], after: ItineraryDay[]) => {
+  const changes: DayChange[] = [];
+  for (let index = 0; index < Math.max(before.length, after.length); index++) {
+    const change = diffDay(index + 1, before[index], after[index]);
+    if (change) changes.push(change);
+  }
+  return changes;
+};
+
+export function diffRevisions<K extends RevisionType>(
+  type: K,
+  before: RevisionRecord[K],
+  after: RevisionRecord[K]
+): RevisionDiff {
+  if (type === 'itineraries') {
+    const from = before as Itinerary;
+    const to = after as Itinerary;
+    return {
+      fields: diffFields(ITINERARY_FIELDS, from as unknown as Record<string, unknown>, to as unknown as Record<string, unknown>),
+      lists: [],
+      days: diffDays(from.days, to.days)
+    };
+  }
+
+  const from = before as Experience;
+  const to = after as Experience;
+  return {
+    fields: diffFields(SHARED_FIELDS, from as unknown as Record<string, unknown>, to as unknown as Record<string, unknown>),
+    lists: diffList('Highlights', from.highlights, to.highlights),
+    days: []
+  };
+}
+
+export const isEmptyDiff = (diff: RevisionDiff) =>
+  diff.fields.length === 0 && diff.lists.length === 0 && diff.days.length === 0;
+
+// The snapshot's content as an update payload. id and createdAt belong to the backend, and the record keeps
+// its current status and schedule so restoring an old version never publishes or unpublishes anything.
+export const revisionInput = <T extends Experience | Itinerary>({ snapshot }: Revision<T>, current: T) => {
+  const { id, createdAt, ...input } = snapshot;
+  return { ...input, status: current.status, publishAt: current.publishAt ?? null, expiresAt: current.expiresAt ?? null };
+};
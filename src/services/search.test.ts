@@ -0,0 +1,160 @@
+import type { AppData, Experience, Itinerary, Update } from '../App';
+import { searchAPI } from './api';
+import { migrateItinerary } from './itineraryDays';
+import { tokenize, placeVocabulary, searchContent, suggestContent } from './search';
+
+jest.mock('./api');
+
+const experience = (fields: Partial<Experience>): Experience => ({
+  id: 'exp',
+  destination: 'Kerala',
+  region: 'South',
+  title: 'Experience',
+  description: '',
+  highlights: [],
+  status: 'published',
+  createdAt: 1,
+  ...fields
+});
+
+const itinerary = (fields: Partial<Itinerary>): Itinerary =>
+  migrateItinerary({
+    id: 'it',
+    destination: 'Kerala',
+    region: 'South',
+    title: 'Itinerary',
+    duration: '1 Day',
+    durationDays: 1,
+    days: [],
+    status: 'published',
+    createdAt: 1,
+    ...fields
+  });
+
+const update = (fields: Partial<Update>): Update => ({
+  id: 'up',
+  type: 'newsletter',
+  title: 'Update',
+  content: '',
+  status: 'published',
+  createdAt: 1,
+  ...fields
+});
+
+const snapshot = (data: Partial<AppData>): AppData => ({ experiences: [], itineraries: [], images: [], updates: [], ...data });
+
+beforeEach(() => {
+  (searchAPI.search as jest.Mock).mockResolvedValue({ experiences: [], itineraries: [], images: [], updates: [] });
+});
+
+describe('tokenize', () => {
+  test('splits on punctuation, drops one-letter terms and repeats', () => {
+    expect(tokenize('Goa, a beach: GOA & Kerala')).toEqual(['goa', 'beach', 'kerala']);
+  });
+
+  test('keeps accented and Devanagari words whole', () => {
+    expect(tokenize('Bengalūru मुंबई')).toEqual(['bengalūru', 'मुंबई']);
+  });
+});
+
+describe('searchContent', () => {
+  test('ranks title matches above description matches and merges every type', async () => {
+    const data = snapshot({
+      experiences: [
+        experience({ id: 'a', title: 'Tea gardens', description: 'Houseboat stop on the way' }),
+        experience({ id: 'b', title: 'Houseboat cruise' })
+      ],
+      updates: [update({ id: 'c', title: 'Monsoon notes', content: 'Houseboat season opens' })]
+    });
+
+    const results = await searchContent('houseboat', data);
+
+    expect(results.hits.map(hit => hit.item.id)).toEqual(['b', 'a', 'c']);
+    expect(results.experiences.map(item => item.id)).toEqual(['b', 'a']);
+    expect(results.updates.map(item => item.id)).toEqual(['c']);
+  });
+
+  test('requires every term to match somewhere in the record', async () => {
+    const data = snapshot({
+      experiences: [
+        experience({ id: 'a', title: 'Houseboat cruise', destination: 'Kerala' }),
+        experience({ id: 'b', title: 'Houseboat cruise', destination: 'Kashmir' })
+      ]
+    });
+
+    const results = await searchContent('houseboat kerala', data);
+
+    expect(results.hits.map(hit => hit.item.id)).toEqual(['a']);
+  });
+
+  test('finds itineraries by day activities and labels the snippet with the day', async () => {
+    const data = snapshot({
+      itineraries: [itinerary({ days: [{ day: 2, activities: ['09:00 Spice plantation walk'] } as any] })]
+    });
+
+    const [hit] = (await searchContent('spice', data)).hits;
+
+    expect(hit.matches).toEqual([{ field: 'activity', text: 'Day 2: Spice plantation walk' }]);
+  });
+
+  test('matches old place names and highlights the spelling found', async () => {
+    const data = snapshot({ experiences: [experience({ title: 'Street food of Mumbai', destination: 'Mumbai' })] });
+
+    const results = await searchContent('bombay', data);
+
+    expect(results.hits).toHaveLength(1);
+    expect(results.terms).toEqual(expect.arrayContaining(['bombay', 'mumbai']));
+    expect(results.suggestion).toBe('Mumbai');
+  });
+
+  test('leaves out content users may not see when liveOnly is set', async () => {
+    const data = snapshot({
+      experiences: [
+        experience({ id: 'live', title: 'Houseboat cruise' }),
+        experience({ id: 'draft', title: 'Houseboat dinner', status: 'draft' }),
+        experience({ id: 'later', title: 'Houseboat sunrise', publishAt: Date.now() + 60000 })
+      ]
+    });
+
+    expect((await searchContent('houseboat', data)).hits).toHaveLength(3);
+    expect((await searchContent('houseboat', data, { liveOnly: true })).hits.map(hit => hit.item.id)).toEqual(['live']);
+  });
+
+  test('includes records only the server returned', async () => {
+    (searchAPI.search as jest.Mock).mockResolvedValue({
+      experiences: [experience({ id: 'remote', title: 'Houseboat cruise' })],
+      itineraries: [],
+      images: [],
+      updates: []
+    });
+
+    const results = await searchContent('houseboat', snapshot({}));
+
+    expect(results.hits.map(hit => hit.item.id)).toEqual(['remote']);
+  });
+});
+
+describe('suggestContent', () => {
+  const data = snapshot({
+    experiences: [
+      experience({ id: 'a', title: 'Backwaters by houseboat', destination: 'Alappuzha' }),
+      experience({ id: 'b', title: 'Tea estates', destination: 'Munnar' })
+    ],
+    itineraries: [itinerary({ id: 'c', title: 'Alappuzha and Munnar in a week', destination: 'Alappuzha' })]
+  });
+
+  test('suggests destinations with their content count, then experiences and itineraries', () => {
+    expect(suggestContent('alap', data)).toEqual([
+      { type: 'destination', label: 'Alappuzha', region: 'South', count: 2 },
+      { type: 'itinerary', label: 'Alappuzha and Munnar in a week', item: data.itineraries[0] }
+    ]);
+  });
+
+  test('matches destinations through their aliases', () => {
+    expect(suggestContent('alleppey', data)[0]).toMatchObject({ type: 'destination', label: 'Alappuzha' });
+  });
+
+  test('lists each destination once for the typo corrector', () => {
+    expect(placeVocabulary(data)).toEqual(['Alappuzha', 'Munnar']);
+  });
+});
@@ -0,0 +1,321 @@
+import type { AppData, Experience, Itinerary, DestinationImage, Update, Region, ContentStatus } from '../App';
+import {
+  searchAPI,
+  experiencesAPI,
+  itinerariesAPI,
+  imagesAPI,
+  updatesAPI,
+  emptyPage,
+  ApiError,
+  SearchResponse
+} from './api';
+import { matchTerm, expandTerm, canonicalizeQuery, suggestCorrection } from './fuzzy';
+import { liveContent } from './workflow';
+
+// How many records to ask the backend for per content type
+const SEARCH_LIMIT = 50;
+
+export type SearchResultType = 'experience' | 'itinerary' | 'image' | 'update';
+
+// A field that matched, with the exact text to show as a snippet (e.g. "Day 2: Houseboat cruise")
+export type SearchMatch = {
+  field: string;
+  text: string;
+};
+
+type Hit<K extends SearchResultType, T> = {
+  type: K;
+  item: T;
+  score: number;
+  matches: SearchMatch[];
+};
+
+export type SearchHit =
+  | Hit<'experience', Experience>
+  | Hit<'itinerary', Itinerary>
+  | Hit<'image', DestinationImage>
+  | Hit<'update', Update>;
+
+export type SearchResults = {
+  terms: string[]; // what to highlight: the typed terms plus the alias and typo spellings they matched
+  suggestion: string | null; // "did you mean" query when the search contained a misspelled or old place name
+  hits: SearchHit[]; // every type merged, best match first
+  experiences: Experience[];
+  itineraries: Itinerary[];
+  images: DestinationImage[];
+  updates: Update[];
+};
+
+// A searchable piece of a record; `label` prefixes the snippet, e.g. "Day 2"
+type Field = {
+  name: string;
+  weight: number;
+  text: string;
+  label?: string;
+};
+
+// Latin (with accents) and Devanagari letters plus digits make up words
+const NON_WORD_CHARS = /[^a-z0-9\u00c0-\u024f\u0900-\u097f]+/;
+
+export const tokenize = (query: string) =>
+  Array.from(new Set(query.toLowerCase().split(NON_WORD_CHARS).filter(term => term.length > 1)));
+
+const experienceFields = (exp: Experience): Field[] => [
+  { name: 'title', weight: 5, text: exp.title },
+  { name: 'destination', weight: 4, text: exp.destination },
+  ...exp.highlights.map(text => ({ name: 'highlight', weight: 2, text })),
+  { name: 'description', weight: 1, text: exp.description },
+  { name: 'region', weight: 1, text: exp.region }
+];
+
+const itineraryFields = (it: Itinerary): Field[] => [
+  { name: 'title', weight: 5, text: it.title },
+  { name: 'destination', weight: 4, text: it.destination },
+  ...it.days.reduce<Field[]>((fields, day) => {
+    const label = `Day ${day.day}`;
+    return fields.concat(
+      day.schedule.map(activity => ({ name: 'activity', weight: 2, text: activity.title, label })),
+      day.schedule
+        .filter(activity => activity.place)
+        .map(activity => ({ name: 'place', weight: 2, text: activity.place || '', label })),
+      day.accommodation ? [{ name: 'accommodation', weight: 1, text: day.accommodation.name, label }] : [],
+      day.transport.map(leg => ({ name: 'transport', weight: 1, text: `${leg.from} → ${leg.to}`, label }))
+    );
+  }, []),
+  { name: 'description', weight: 1, text: it.description || '' },
+  { name: 'region', weight: 1, text: it.region }
+];
+
+const imageFields = (img: DestinationImage): Field[] => [
+  { name: 'destination', weight: 4, text: img.destination },
+  { name: 'caption', weight: 3, text: img.caption },
+  { name: 'region', weight: 1, text: img.region }
+];
+
+const updateFields = (update: Update): Field[] => [
+  { name: 'title', weight: 5, text: update.title },
+  { name: 'content', weight: 1, text: update.content }
+];
+
+// Every term has to match somewhere in the record; the score sums the best field per term.
+// Terms match through place aliases and small typos (see fuzzy.ts), which score a little lower; the
+// spellings that matched are added to `found` so they can be highlighted.
+const scoreFields = (fields: Field[], terms: string[], phrase: string, found: Set<string>) => {
+  let score = 0;
+  const matched = new Set<Field>();
+  const spellings = new Set<string>();
+
+  for (const term of terms) {
+    let best = 0;
+    for (const field of fields) {
+      const match = matchTerm(field.text, term);
+      if (!match) continue;
+      matched.add(field);
+      spellings.add(match.text);
+      best = Math.max(best, match.score * field.weight);
+    }
+    if (best === 0) return null;
+    score += best;
+  }
+
+  // Snippets follow field order, so headline fields come before highlights and day activities
+  const matches: SearchMatch[] = fields
+    .filter(field => matched.has(field))
+    .map(field => ({ field: field.name, text: field.label ? `${field.label}: ${field.text}` : field.text }));
+
+  // Reward records that contain the query as a phrase, most of all in their headline
+  if (terms.length > 1) {
+    const phraseField = fields.find(field => field.text.toLowerCase().includes(phrase));
+    if (phraseField) score += phraseField.weight;
+  }
+
+  spellings.forEach(spelling => found.add(spelling));
+  return { score, matches };
+};
+
+const dedupeById = <T extends { id: string }>(...lists: T[][]) => {
+  const byId = new Map<string, T>();
+  lists.forEach(list => list.forEach(item => byId.set(item.id, item)));
+  return Array.from(byId.values());
+};
+
+// Ask the unified /search endpoint, falling back to each list endpoint's `search` param where it is missing
+const fetchQuery = async (query: string, status?: ContentStatus): Promise<SearchResponse> => {
+  try {
+    return await searchAPI.search(query, { limit: SEARCH_LIMIT });
+  } catch (error) {
+    if (!(error instanceof ApiError && (error.status === 404 || error.status === 405))) {
+      console.error('Unified search failed, falling back to per-type search:', error);
+    }
+  }
+
+  const params = { search: query, limit: SEARCH_LIMIT, status };
+  const [experiences, itineraries, images, updates] = await Promise.all([
+    experiencesAPI.getAll(params).catch(() => emptyPage<Experience>()),
+    itinerariesAPI.getAll(params).catch(() => emptyPage<Itinerary>()),
+    imagesAPI.getAll(params).catch(() => emptyPage<DestinationImage>()),
+    updatesAPI.getAll(params).catch(() => emptyPage<Update>())
+  ]);
+  return {
+    experiences: experiences.data,
+    itineraries: itineraries.data,
+    images: images.data,
+    updates: updates.data
+  };
+};
+
+// The backend only knows exact spellings, so "Bangalore" is also sent as "Bengaluru" and "Ladak" as "Ladakh"
+const fetchCandidates = async (query: string, status?: ContentStatus): Promise<SearchResponse> => {
+  const canonical = canonicalizeQuery(query);
+  if (canonical.toLowerCase() === query.trim().toLowerCase()) return fetchQuery(query, status);
+
+  const [original, corrected] = await Promise.all([fetchQuery(query, status), fetchQuery(canonical, status)]);
+  return {
+    experiences: dedupeById(original.experiences, corrected.experiences),
+    itineraries: dedupeById(original.itineraries, corrected.itineraries),
+    images: dedupeById(original.images, corrected.images),
+    updates: dedupeById(original.updates, corrected.updates)
+  };
+};
+
+// Place names the typo corrector should know about, besides the built-in alias dictionary
+export const placeVocabulary = (snapshot: AppData) => {
+  const names = new Set<string>();
+  [...snapshot.experiences, ...snapshot.itineraries, ...snapshot.images].forEach(item => {
+    if (item.destination) names.add(item.destination.trim());
+  });
+  return Array.from(names);
+};
+
+export type SearchOptions = {
+  // Only content users may see right now (published and inside its schedule), for searches run on behalf of users
+  liveOnly?: boolean;
+};
+
+// Server results are merged with the in-memory snapshot, because older backends only match titles and
+// destinations; every candidate is then re-scored here so ranking and highlighting are consistent
+export async function searchContent(
+  query: string,
+  snapshot: AppData,
+  { liveOnly = false }: SearchOptions = {}
+): Promise<SearchResults> {
+  const terms = tokenize(query);
+  const phrase = query.toLowerCase().trim();
+  const empty: SearchResults = { terms, suggestion: null, hits: [], experiences: [], itineraries: [], images: [], updates: [] };
+  if (terms.length === 0) return empty;
+
+  const fetched = await fetchCandidates(query, liveOnly ? 'published' : undefined);
+  const remote = liveOnly ? liveContent(fetched) : fetched;
+  const local = liveOnly ? liveContent(snapshot) : snapshot;
+  const hits: SearchHit[] = [];
+  const spellings = new Set(terms);
+
+  dedupeById(remote.experiences, local.experiences).forEach(item => {
+    const result = scoreFields(experienceFields(item), terms, phrase, spellings);
+    if (result) hits.push({ type: 'experience', item, ...result });
+  });
+  dedupeById(remote.itineraries, local.itineraries).forEach(item => {
+    const result = scoreFields(itineraryFields(item), terms, phrase, spellings);
+    if (result) hits.push({ type: 'itinerary', item, ...result });
+  });
+  dedupeById(remote.images, local.images).forEach(item => {
+    const result = scoreFields(imageFields(item), terms, phrase, spellings);
+    if (result) hits.push({ type: 'image', item, ...result });
+  });
+  dedupeById(remote.updates, local.updates).forEach(item => {
+    const result = scoreFields(updateFields(item), terms, phrase, spellings);
+    if (result) hits.push({ type: 'update', item, ...result });
+  });
+
+  // Best score first; newer content wins ties
+  hits.sort((a, b) => b.score - a.score || b.item.createdAt - a.item.createdAt);
+
+  const results: SearchResults = {
+    ...empty,
+    terms: Array.from(spellings),
+    suggestion: suggestCorrection(query, placeVocabulary(local)),
+    hits
+  };
+  hits.forEach(hit => {
+    switch (hit.type) {
+      case 'experience':
+        results.experiences.push(hit.item);
+        break;
+      case 'itinerary':
+        results.itineraries.push(hit.item);
+        break;
+      case 'image':
+        results.images.push(hit.item);
+        break;
+      case 'update':
+        results.updates.push(hit.item);
+        break;
+    }
+  });
+  return results;
+}
+
+export type Suggestion =
+  | { type: 'destination'; label: string; region: Region; count: number }
+  | { type: 'experience'; label: string; item: Experience }
+  | { type: 'itinerary'; label: string; item: Itinerary };
+
+// How many suggestions of each kind the header autocomplete shows
+const SUGGESTION_LIMIT = 4;
+
+// Every term has to match one of the spellings; the label starting with the query ranks first
+const scoreLabel = (spellings: string[], terms: string[], phrase: string) => {
+  let score = 0;
+  for (const term of terms) {
+    let best = 0;
+    spellings.forEach(spelling => {
+      best = Math.max(best, matchTerm(spelling, term)?.score || 0);
+    });
+    if (best === 0) return 0;
+    score += best;
+  }
+  return spellings.some(spelling => spelling.toLowerCase().startsWith(phrase)) ? score + 1 : score;
+};
+
+const topSuggestions = <S extends Suggestion>(scored: { suggestion: S; score: number }[]) =>
+  scored
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.suggestion.label.localeCompare(b.suggestion.label))
+    .slice(0, SUGGESTION_LIMIT)
+    .map(entry => entry.suggestion);
+
+// Search-as-you-type suggestions from the loaded snapshot; no request per keystroke.
+// Destinations also match through their aliases, so "bangal" suggests Bengaluru.
+export const suggestContent = (query: string, snapshot: AppData): Suggestion[] => {
+  const terms = tokenize(query);
+  const phrase = query.toLowerCase().trim();
+  if (terms.length === 0) return [];
+
+  const destinations = new Map<string, { label: string; region: Region; count: number }>();
+  [...snapshot.experiences, ...snapshot.itineraries, ...snapshot.images].forEach(item => {
+    const label = item.destination?.trim();
+    if (!label) return;
+    const key = label.toLowerCase();
+    const entry = destinations.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      destinations.set(key, { label, region: item.region, count: 1 });
+    }
+  });
+
+  return [
+    ...topSuggestions(Array.from(destinations.values()).map(entry => ({
+      suggestion: { type: 'destination' as const, ...entry },
+      score: scoreLabel([entry.label, ...expandTerm(entry.label)], terms, phrase)
+    }))),
+    ...topSuggestions(snapshot.experiences.map(item => ({
+      suggestion: { type: 'experience' as const, label: item.title, item },
+      score: scoreLabel([item.title], terms, phrase)
+    }))),
+    ...topSuggestions(snapshot.itineraries.map(item => ({
+      suggestion: { type: 'itinerary' as const, label: item.title, item },
+      score: scoreLabel([item.title], terms, phrase)
+    })))
+  ];
+};
@@ -0,0 +1,106 @@
+import type { User } from '../App';
+
+// Single source of truth for everything the auth session keeps in localStorage
+const TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const USER_KEY = 'user';
+// Older builds stored the access token under `token` as well; read it once and migrate
+const LEGACY_TOKEN_KEY = 'token';
+
+const read = (key: string) => {
+  try {
+    return localStorage.getItem(key);
+  } catch (e) {
+    // ignore storage errors in non-browser environments
+    return null;
+  }
+};
+
+const write = (key: string, value: string | null) => {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch (e) {
+    // ignore storage errors in non-browser environments
+  }
+};
+
+export const getToken = () => {
+  const token = read(TOKEN_KEY);
+  if (token) return token;
+
+  const legacyToken = read(LEGACY_TOKEN_KEY);
+  if (legacyToken) {
+    write(TOKEN_KEY, legacyToken);
+    write(LEGACY_TOKEN_KEY, null);
+  }
+  return legacyToken;
+};
+
+export const setToken = (token: string) => {
+  write(TOKEN_KEY, token);
+};
+
+export const getRefreshToken = () => read(REFRESH_TOKEN_KEY);
+
+export const setRefreshToken = (refreshToken: string) => {
+  write(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const getStoredUser = (): User | null => {
+  const storedUser = read(USER_KEY);
+  if (!storedUser) return null;
+
+  try {
+    return JSON.parse(storedUser);
+  } catch (error) {
+    console.error('Error parsing stored user data:', error);
+    write(USER_KEY, null);
+    return null;
+  }
+};
+
+export const setStoredUser = (user: User) => {
+  write(USER_KEY, JSON.stringify(user));
+};
+
+export const saveSession = (user: User, token: string, refreshToken?: string) => {
+  setToken(token);
+  setStoredUser(user);
+  if (refreshToken) {
+    setRefreshToken(refreshToken);
+  }
+};
+
+export const clearSession = () => {
+  write(TOKEN_KEY, null);
+  write(REFRESH_TOKEN_KEY, null);
+  write(USER_KEY, null);
+  write(LEGACY_TOKEN_KEY, null);
+};
+
+type SessionChange = { type: 'logout' } | { type: 'login'; user: User };
+
+// Reports sessions started or ended in other tabs; the `storage` event never fires in the tab that wrote
+export const onSessionChangedElsewhere = (listener: (change: SessionChange) => void) => {
+  const handleStorage = (e: StorageEvent) => {
+    // `key` is null when another tab called localStorage.clear()
+    if (e.key === null || (e.key === TOKEN_KEY && !e.newValue)) {
+      listener({ type: 'logout' });
+      return;
+    }
+
+    if (e.key === USER_KEY && e.newValue && read(TOKEN_KEY)) {
+      const user = getStoredUser();
+      if (user) {
+        listener({ type: 'login', user });
+      }
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
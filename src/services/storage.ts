@@ -0,0 +1,22 @@
+// JSON values kept in localStorage by browser-local features such as recent searches
+export const readJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (e) {
+    // ignore storage errors and corrupt values; the feature starts over empty
+    return fallback;
+  }
+};
+
+export const writeJSON = (key: string, value: unknown) => {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch (e) {
+    // ignore storage errors (quota, private mode)
+  }
+};
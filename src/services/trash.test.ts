@@ -0,0 +1,45 @@
+import type { Update } from '../App';
+import { updatesAPI } from './api';
+import { isPendingDelete, softDelete, UNDO_GRACE_MS } from './trash';
+
+jest.mock('./api');
+
+const update: Update = {
+  id: 'u1',
+  type: 'newsletter',
+  title: 'Monsoon issue',
+  content: 'Rains arrive',
+  status: 'published',
+  createdAt: 1
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('softDelete', () => {
+  test('undo inside the grace period stops the delete', () => {
+    const undo = softDelete('updates', update);
+    expect(isPendingDelete('updates', 'u1')).toBe(true);
+
+    expect(undo()).toBe(true);
+    jest.advanceTimersByTime(UNDO_GRACE_MS);
+
+    expect(isPendingDelete('updates', 'u1')).toBe(false);
+    expect(updatesAPI.delete).not.toHaveBeenCalled();
+  });
+
+  test('undo once the delete has started reports that it was too late', () => {
+    const undo = softDelete('updates', update);
+
+    jest.advanceTimersByTime(UNDO_GRACE_MS);
+
+    expect(undo()).toBe(false);
+    expect(updatesAPI.delete).toHaveBeenCalledWith('u1');
+  });
+});
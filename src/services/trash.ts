@@ -0,0 +1,147 @@
+import type { AppData } from '../App';
+import { experiencesAPI, itinerariesAPI, imagesAPI, updatesAPI, ResourceClient } from './api';
+import { getStoredUser } from './session';
+import { readJSON, writeJSON } from './storage';
+import { runBatch, BatchResult } from './batch';
+
+// Soft delete for admin content. A deleted record is hidden at once but the API delete only runs after a
+// grace period, so it can still be undone; closing the tab before then keeps the record. Once deleted on
+// the server, a copy stays in this browser's trash until it is restored (created again) or purged.
+
+export type TrashType = keyof AppData;
+
+export type TrashRecord = AppData[TrashType][number];
+
+export type TrashEntry = {
+  id: string;
+  type: TrashType;
+  record: TrashRecord;
+  deletedAt: number;
+  deletedBy: string | null; // name of the admin who deleted it
+};
+
+export const UNDO_GRACE_MS = 8000;
+
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const TRASH_KEY = 'trash';
+
+const clients: { [K in TrashType]: ResourceClient<AppData[K][number]> } = {
+  experiences: experiencesAPI,
+  itineraries: itinerariesAPI,
+  images: imagesAPI,
+  updates: updatesAPI
+};
+
+// Timers of deletions still inside their grace period, keyed by `${type}:${id}`
+const pending: Record<string, number> = {};
+
+const listeners = new Set<() => void>();
+let version = 0;
+
+const notify = () => {
+  version++;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeTrash = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Changes whenever a deletion starts, is undone or completes, or the trash itself changes
+export const getTrashVersion = () => version;
+
+const pendingKey = (type: TrashType, id: string) => `${type}:${id}`;
+
+export const isPendingDelete = (type: TrashType, id: string) => pendingKey(type, id) in pending;
+
+// Entries older than the retention period are dropped as the trash is read
+export const listTrash = (now = Date.now()): TrashEntry[] => {
+  const stored = readJSON<unknown>(TRASH_KEY, []);
+  const entries = Array.isArray(stored) ? (stored as TrashEntry[]) : [];
+  const kept = entries.filter(entry => entry.deletedAt + RETENTION_MS > now);
+  if (kept.length !== entries.length) writeJSON(TRASH_KEY, kept);
+  return kept.sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+const saveTrash = (entries: TrashEntry[]) => {
+  writeJSON(TRASH_KEY, entries.length > 0 ? entries : null);
+  notify();
+};
+
+type SoftDeleteCallbacks = {
+  onDeleted?: () => void;
+  onFailed?: (error: string) => void;
+};
+
+// Hides the record now and deletes it for real after UNDO_GRACE_MS; returns the undo function, which
+// reports whether it was in time to stop the delete
+export const softDelete = (type: TrashType, record: TrashRecord, { onDeleted, onFailed }: SoftDeleteCallbacks = {}) =>
+  softDeleteMany(type, [record], {
+    onSettled: ([result]) => (result.ok ? onDeleted?.() : onFailed?.(result.error))
+  });
+
+type SoftDeleteManyOptions<R extends TrashRecord> = {
+  onProgress?: (done: number, total: number) => void;
+  onSettled?: (results: BatchResult<R, void>[]) => void;
+};
+
+// The same for a selection: one grace period and one undo for all of them; records the API refuses to
+// delete reappear and are reported through onSettled
+export const softDeleteMany = <R extends TrashRecord>(
+  type: TrashType,
+  records: R[],
+  { onProgress, onSettled }: SoftDeleteManyOptions<R> = {}
+) => {
+  const keys = records.map(record => pendingKey(type, record.id));
+
+  let started = false;
+  const timer = window.setTimeout(async () => {
+    started = true;
+    const results = await runBatch(records, record => clients[type].delete(record.id), { onProgress });
+    keys.forEach(key => delete pending[key]);
+    const deletedAt = Date.now();
+    const deletedBy = getStoredUser()?.name || null;
+    const deleted = results
+      .filter(result => result.ok)
+      .map(({ item }): TrashEntry => ({ id: `${pendingKey(type, item.id)}:${deletedAt}`, type, record: item, deletedAt, deletedBy }));
+    saveTrash(deleted.concat(listTrash()));
+    onSettled?.(results);
+  }, UNDO_GRACE_MS);
+  keys.forEach(key => {
+    pending[key] = timer;
+  });
+  notify();
+
+  return () => {
+    if (started || !keys.some(key => pending[key] === timer)) return false;
+    window.clearTimeout(timer);
+    keys.forEach(key => delete pending[key]);
+    notify();
+    return true;
+  };
+};
+
+const recreate = <K extends TrashType>(type: K, record: AppData[K][number]) => {
+  const { id, createdAt, ...input } = record;
+  return clients[type].create(input);
+};
+
+// The backend assigns new ids, so a restored record comes back as a new copy of the deleted one
+export const restoreFromTrash = async (entry: TrashEntry) => {
+  const restored = await recreate(entry.type, entry.record);
+  saveTrash(listTrash().filter(item => item.id !== entry.id));
+  return restored;
+};
+
+export const purgeFromTrash = (entryId: string) => {
+  saveTrash(listTrash().filter(entry => entry.id !== entryId));
+};
+
+// Only the given entries when a user may not see the whole trash
+export const emptyTrash = (entryIds?: string[]) => {
+  saveTrash(entryIds ? listTrash().filter(entry => entryIds.indexOf(entry.id) === -1) : []);
+};
@@ -0,0 +1,75 @@
+import type { AppData, Experience } from '../App';
+import { freshFavourites, getSavedTrips, subscribeTrips, toggleFavourite, Favourite } from './trips';
+
+const EMAIL = 'traveller@example.com';
+
+const experience = (fields: Partial<Experience> = {}): Experience => ({
+  id: 'exp1',
+  destination: 'Hampi',
+  region: 'South',
+  title: 'Temple ruins',
+  description: '',
+  highlights: [],
+  status: 'published',
+  createdAt: 1,
+  ...fields
+});
+
+const loaded = (experiences: Experience[]): AppData => ({ experiences, itineraries: [], images: [], updates: [] });
+
+const favourite = (record: Experience): Favourite => ({ type: 'experiences', record, savedAt: 1 });
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('getSavedTrips', () => {
+  test('returns the same object until the trips change', () => {
+    const first = getSavedTrips(EMAIL);
+    expect(getSavedTrips(EMAIL)).toBe(first);
+
+    toggleFavourite(EMAIL, { type: 'experiences', record: experience() });
+
+    const second = getSavedTrips(EMAIL);
+    expect(second).not.toBe(first);
+    expect(second.favourites).toHaveLength(1);
+    expect(getSavedTrips(EMAIL)).toBe(second);
+  });
+
+  test('picks up changes another tab wrote', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeTrips(listener);
+    const before = getSavedTrips(EMAIL);
+
+    localStorage.setItem(`trips:${EMAIL}`, JSON.stringify({ favourites: [favourite(experience())] }));
+    window.dispatchEvent(new StorageEvent('storage', { key: `trips:${EMAIL}` }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'recentSearches' }));
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getSavedTrips(EMAIL)).not.toBe(before);
+    expect(getSavedTrips(EMAIL).favourites).toHaveLength(1);
+  });
+});
+
+describe('freshFavourites', () => {
+  test('shows the loaded version of a record instead of the copy saved with it', () => {
+    const saved = [favourite(experience({ title: 'Old title' }))];
+
+    const [shown] = freshFavourites(saved, loaded([experience({ title: 'New title' })]));
+
+    expect(shown.record).toMatchObject({ title: 'New title' });
+  });
+
+  test('hides favourites that are no longer live and keeps saved copies of records not loaded', () => {
+    const saved = [
+      favourite(experience({ id: 'unpublished' })),
+      favourite(experience({ id: 'expired', expiresAt: 50 })),
+      favourite(experience({ id: 'not-loaded' }))
+    ];
+
+    const shown = freshFavourites(saved, loaded([experience({ id: 'unpublished', status: 'archived' })]), 100);
+
+    expect(shown.map(item => item.record.id)).toEqual(['not-loaded']);
+  });
+});
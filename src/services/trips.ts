@@ -0,0 +1,199 @@
+import type { AppData, Experience, Itinerary, DestinationImage } from '../App';
+import { readJSON, writeJSON } from './storage';
+import { migrateItinerary } from './itineraryDays';
+import { isLive } from './workflow';
+
+// Traveller favourites, trip boards and private itineraries. Like recent searches they are kept per account
+// in this browser; other tabs follow along through the storage event, but syncing between devices still needs
+// a backend adapter like the one revision history has. A favourite keeps a copy of the record, so saved items
+// still show when they are not on a loaded page.
+
+export type FavouriteType = 'experiences' | 'itineraries' | 'images';
+
+export type Favourite =
+  | { type: 'experiences'; record: Experience; savedAt: number }
+  | { type: 'itineraries'; record: Itinerary; savedAt: number }
+  | { type: 'images'; record: DestinationImage; savedAt: number };
+
+export type FavouriteInput = Omit<Favourite, 'savedAt'>;
+
+// A named group of favourites, e.g. "Honeymoon in Kerala"; `items` holds favourite keys
+export type TripBoard = {
+  id: string;
+  name: string;
+  items: string[];
+  createdAt: number;
+};
+
+export type SavedTrips = {
+  favourites: Favourite[];
+  boards: TripBoard[];
+  plans: Itinerary[]; // built in the itinerary builder and only visible to their owner
+};
+
+const FAVOURITE_TYPES: FavouriteType[] = ['experiences', 'itineraries', 'images'];
+
+const keyFor = (email: string) => `trips:${email.toLowerCase()}`;
+
+export const favouriteKey = (type: FavouriteType, id: string) => `${type}:${id}`;
+
+const keyOf = (favourite: FavouriteInput) => favouriteKey(favourite.type, favourite.record.id);
+
+const listeners = new Set<() => void>();
+let version = 0;
+
+const notify = () => {
+  version++;
+  listeners.forEach(listener => listener());
+};
+
+// The storage event only fires in the other tabs; `key` is null when one of them cleared localStorage
+const handleStorage = (e: StorageEvent) => {
+  if (e.key === null || e.key.startsWith('trips:')) notify();
+};
+
+export const subscribeTrips = (listener: () => void) => {
+  if (listeners.size === 0) window.addEventListener('storage', handleStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('storage', handleStorage);
+  };
+};
+
+const isStoredFavourite = (value: any): value is Favourite =>
+  !!value && FAVOURITE_TYPES.includes(value.type) && !!value.record && typeof value.record.id === 'string';
+
+const isStoredBoard = (value: any): value is TripBoard =>
+  !!value && typeof value.id === 'string' && typeof value.name === 'string' && Array.isArray(value.items);
+
+const isStoredPlan = (value: any): value is Itinerary =>
+  !!value && typeof value.id === 'string' && typeof value.title === 'string' && Array.isArray(value.days);
+
+// The last parse, so repeated reads between changes return the same object
+let cached: { email: string; version: number; trips: SavedTrips } | null = null;
+
+// Favourites and plans are newest first; anything unreadable is dropped rather than breaking the page
+export const getSavedTrips = (email: string): SavedTrips => {
+  if (cached && cached.email === email && cached.version === version) return cached.trips;
+  const stored = readJSON<any>(keyFor(email), null);
+  const trips: SavedTrips = {
+    favourites: (Array.isArray(stored?.favourites) ? stored.favourites : []).filter(isStoredFavourite),
+    boards: (Array.isArray(stored?.boards) ? stored.boards : []).filter(isStoredBoard),
+    plans: (Array.isArray(stored?.plans) ? stored.plans : []).filter(isStoredPlan).map(migrateItinerary)
+  };
+  cached = { email, version, trips };
+  return trips;
+};
+
+const saveTrips = (email: string, trips: SavedTrips) => {
+  const isEmpty = trips.favourites.length === 0 && trips.boards.length === 0 && trips.plans.length === 0;
+  writeJSON(keyFor(email), isEmpty ? null : trips);
+  notify();
+};
+
+export const isSaved = (trips: SavedTrips, type: FavouriteType, id: string) =>
+  trips.favourites.some(favourite => keyOf(favourite) === favouriteKey(type, id));
+
+const withFavourite = (trips: SavedTrips, favourite: FavouriteInput): Favourite[] =>
+  isSaved(trips, favourite.type, favourite.record.id)
+    ? trips.favourites
+    : [{ ...favourite, savedAt: Date.now() } as Favourite, ...trips.favourites];
+
+// Swaps each saved copy for the loaded record with the same id and leaves out favourites that are no longer
+// live, e.g. unpublished or expired since they were saved. Records that are not loaded keep their saved copy.
+export const freshFavourites = (favourites: Favourite[], loaded: Pick<AppData, FavouriteType>, now = Date.now()) =>
+  favourites
+    .map(favourite => {
+      const records: Favourite['record'][] = loaded[favourite.type];
+      const fresh = records.find(record => record.id === favourite.record.id);
+      return fresh ? ({ ...favourite, record: fresh } as Favourite) : favourite;
+    })
+    .filter(favourite => isLive(favourite.record, now));
+
+// Un-favouriting also takes the item off every board
+export const removeFavourite = (email: string, key: string) => {
+  const trips = getSavedTrips(email);
+  saveTrips(email, {
+    ...trips,
+    favourites: trips.favourites.filter(favourite => keyOf(favourite) !== key),
+    boards: trips.boards.map(board => ({ ...board, items: board.items.filter(item => item !== key) }))
+  });
+};
+
+// Returns whether the item is a favourite afterwards
+export const toggleFavourite = (email: string, favourite: FavouriteInput) => {
+  const trips = getSavedTrips(email);
+  if (isSaved(trips, favourite.type, favourite.record.id)) {
+    removeFavourite(email, keyOf(favourite));
+    return false;
+  }
+  saveTrips(email, { ...trips, favourites: withFavourite(trips, favourite) });
+  return true;
+};
+
+export const createBoard = (email: string, name: string): TripBoard => {
+  const createdAt = Date.now();
+  const board: TripBoard = {
+    id: `${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    items: [],
+    createdAt
+  };
+  const trips = getSavedTrips(email);
+  saveTrips(email, { ...trips, boards: [...trips.boards, board] });
+  return board;
+};
+
+export const renameBoard = (email: string, boardId: string, name: string) => {
+  const trips = getSavedTrips(email);
+  saveTrips(email, {
+    ...trips,
+    boards: trips.boards.map(board => (board.id === boardId ? { ...board, name: name.trim() } : board))
+  });
+};
+
+// The board's items stay in the favourites
+export const deleteBoard = (email: string, boardId: string) => {
+  const trips = getSavedTrips(email);
+  saveTrips(email, { ...trips, boards: trips.boards.filter(board => board.id !== boardId) });
+};
+
+// Adding an item to a board favourites it too
+export const setOnBoard = (email: string, boardId: string, favourite: FavouriteInput, onBoard: boolean) => {
+  const trips = getSavedTrips(email);
+  const key = keyOf(favourite);
+  saveTrips(email, {
+    ...trips,
+    favourites: onBoard ? withFavourite(trips, favourite) : trips.favourites,
+    boards: trips.boards.map(board => {
+      if (board.id !== boardId) return board;
+      const items = board.items.filter(item => item !== key);
+      return { ...board, items: onBoard ? [...items, key] : items };
+    })
+  });
+};
+
+// A board's favourites in the order they were added to it
+export const boardFavourites = (trips: SavedTrips, board: TripBoard): Favourite[] => {
+  const byKey: Record<string, Favourite> = {};
+  trips.favourites.forEach(favourite => {
+    byKey[keyOf(favourite)] = favourite;
+  });
+  return board.items.filter(key => key in byKey).map(key => byKey[key]);
+};
+
+// Adds a new plan at the top or replaces the saved version of an existing one
+export const savePlan = (email: string, plan: Itinerary) => {
+  const trips = getSavedTrips(email);
+  const exists = trips.plans.some(item => item.id === plan.id);
+  saveTrips(email, {
+    ...trips,
+    plans: exists ? trips.plans.map(item => (item.id === plan.id ? plan : item)) : [plan, ...trips.plans]
+  });
+};
+
+export const deletePlan = (email: string, planId: string) => {
+  const trips = getSavedTrips(email);
+  saveTrips(email, { ...trips, plans: trips.plans.filter(plan => plan.id !== planId) });
+};
@@ -0,0 +1,48 @@
+import type { ContentStatus } from '../App';
+import { canTransition, transitionProblem, normalizeStatus, isLive, nextScheduleChange, CONTENT_STATUSES } from './workflow';
+
+describe('transitions', () => {
+  test.each([
+    ['draft', 'in_review', true],
+    ['draft', 'published', true],
+    ['in_review', 'published', true],
+    ['in_review', 'archived', false],
+    ['published', 'in_review', false],
+    ['archived', 'in_review', false],
+    ['archived', 'draft', true]
+  ] as [ContentStatus, ContentStatus, boolean][])('%s → %s allowed: %s', (from, to, allowed) => {
+    expect(canTransition(from, to)).toBe(allowed);
+    expect(transitionProblem(from, to) === null).toBe(allowed);
+  });
+
+  test('staying in the same status is not a transition', () => {
+    CONTENT_STATUSES.forEach(status => expect(canTransition(status, status)).toBe(false));
+  });
+
+  test('explains a refused move with readable labels', () => {
+    expect(transitionProblem('in_review', 'archived')).toBe('In review content cannot be moved to Archived');
+  });
+});
+
+describe('schedule', () => {
+  const now = 1000;
+
+  test('records without a status predate the workflow and count as published', () => {
+    expect(normalizeStatus({ status: undefined as unknown as ContentStatus }).status).toBe('published');
+    expect(normalizeStatus({ status: 'draft' as ContentStatus }).status).toBe('draft');
+  });
+
+  test('isLive needs published status and an open window at now', () => {
+    expect(isLive({ status: 'published' }, now)).toBe(true);
+    expect(isLive({ status: 'draft' }, now)).toBe(false);
+    expect(isLive({ status: 'published', publishAt: 1000 }, now)).toBe(true);
+    expect(isLive({ status: 'published', publishAt: 1001 }, now)).toBe(false);
+    expect(isLive({ status: 'published', expiresAt: 1000 }, now)).toBe(false);
+    expect(isLive({ status: 'published', publishAt: null, expiresAt: 1001 }, now)).toBe(true);
+  });
+
+  test('nextScheduleChange finds the soonest future go-live or take-down', () => {
+    expect(nextScheduleChange([{ publishAt: 500, expiresAt: 3000 }, { publishAt: 2000 }], now)).toBe(2000);
+    expect(nextScheduleChange([{ publishAt: 500 }, {}], now)).toBeNull();
+  });
+});
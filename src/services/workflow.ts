@@ -0,0 +1,125 @@
+import type { AppData, ContentStatus, Schedule } from '../App';
+
+export const CONTENT_STATUSES: ContentStatus[] = ['draft', 'in_review', 'published', 'archived'];
+
+export const STATUS_LABELS: Record<ContentStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  published: 'Published',
+  archived: 'Archived'
+};
+
+export const STATUS_BADGE_CLASSES: Record<ContentStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700 border-slate-200',
+  in_review: 'bg-amber-100 text-amber-800 border-amber-200',
+  published: 'bg-green-100 text-green-800 border-green-200',
+  archived: 'bg-zinc-200 text-zinc-600 border-zinc-300'
+};
+
+export type StatusTransition = {
+  to: ContentStatus;
+  label: string;
+};
+
+// The moves an editor can make from each status, in the order the menu lists them
+export const STATUS_TRANSITIONS: Record<ContentStatus, StatusTransition[]> = {
+  draft: [
+    { to: 'in_review', label: 'Submit for review' },
+    { to: 'published', label: 'Publish' },
+    { to: 'archived', label: 'Archive' }
+  ],
+  in_review: [
+    { to: 'published', label: 'Approve and publish' },
+    { to: 'draft', label: 'Send back to draft' }
+  ],
+  published: [
+    { to: 'draft', label: 'Unpublish' },
+    { to: 'archived', label: 'Archive' }
+  ],
+  archived: [
+    { to: 'draft', label: 'Restore as draft' },
+    { to: 'published', label: 'Republish' }
+  ]
+};
+
+export const canTransition = (from: ContentStatus, to: ContentStatus) =>
+  STATUS_TRANSITIONS[from].some(transition => transition.to === to);
+
+// Why a status change is not allowed, or null when the workflow permits it
+export const transitionProblem = (from: ContentStatus, to: ContentStatus) =>
+  canTransition(from, to) ? null : `${STATUS_LABELS[from]} content cannot be moved to ${STATUS_LABELS[to]}`;
+
+export const isContentStatus = (value: unknown): value is ContentStatus =>
+  CONTENT_STATUSES.indexOf(value as ContentStatus) !== -1;
+
+// Content created before the workflow was introduced was already live
+export const normalizeStatus = <T extends { status: ContentStatus }>(record: T): T =>
+  isContentStatus(record.status) ? record : { ...record, status: 'published' };
+
+export const isPublished = (record: { status: ContentStatus }) => record.status === 'published';
+
+// Published and inside its publishing window; an empty bound leaves that side open
+export const isLive = (record: { status: ContentStatus } & Schedule, now = Date.now()) =>
+  isPublished(record) && (!record.publishAt || record.publishAt <= now) && (!record.expiresAt || record.expiresAt > now);
+
+// What users may see at `now`, whatever the backend returned
+export const liveContent = (data: AppData, now = Date.now()): AppData => ({
+  experiences: data.experiences.filter(record => isLive(record, now)),
+  itineraries: data.itineraries.filter(record => isLive(record, now)),
+  images: data.images.filter(record => isLive(record, now)),
+  updates: data.updates.filter(record => isLive(record, now))
+});
+
+// The next go-live or take-down after `now`, or null when nothing is scheduled
+export const nextScheduleChange = (records: Schedule[], now = Date.now()) =>
+  records.reduce<number | null>((next, { publishAt, expiresAt }) => {
+    [publishAt, expiresAt].forEach(time => {
+      if (time && time > now && (next === null || time < next)) next = time;
+    });
+    return next;
+  }, null);
+
+export const scheduleProblem = ({ publishAt, expiresAt }: Schedule) =>
+  publishAt && expiresAt && expiresAt <= publishAt ? 'The take-down time must be after the go-live time' : null;
+
+export const pickSchedule = ({ publishAt, expiresAt }: Schedule): Required<Schedule> => ({
+  publishAt: publishAt || null,
+  expiresAt: expiresAt || null
+});
+
+// Multipart forms carry the window as strings; an empty value clears it
+export const appendSchedule = (form: FormData, { publishAt, expiresAt }: Schedule) => {
+  form.append('publishAt', publishAt ? String(publishAt) : '');
+  form.append('expiresAt', expiresAt ? String(expiresAt) : '');
+};
+
+export type StatusFilter = ContentStatus | 'all';
+
+export const matchesStatus = (record: { status: ContentStatus }, filter: StatusFilter) =>
+  filter === 'all' || record.status === filter;
+
+export type ScheduleEvent = {
+  time: number;
+  change: 'live' | 'expire';
+  type: keyof AppData;
+  id: string;
+  label: string;
+  status: ContentStatus;
+};
+
+// Upcoming go-lives and take-downs across all content, soonest first
+export const upcomingSchedule = (data: AppData, now = Date.now()): ScheduleEvent[] => {
+  const events: ScheduleEvent[] = [];
+  (Object.keys(data) as (keyof AppData)[]).forEach(type => {
+    (data[type] as (AppData[keyof AppData][number])[]).forEach(record => {
+      const label = 'title' in record ? record.title : record.caption;
+      if (record.publishAt && record.publishAt > now) {
+        events.push({ time: record.publishAt, change: 'live', type, id: record.id, label, status: record.status });
+      }
+      if (record.expiresAt && record.expiresAt > now) {
+        events.push({ time: record.expiresAt, change: 'expire', type, id: record.id, label, status: record.status });
+      }
+    });
+  });
+  return events.sort((a, b) => a.time - b.time);
+};